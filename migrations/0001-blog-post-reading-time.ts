@@ -0,0 +1,50 @@
+/**
+ * Adds an estimated reading time to blog posts, computed from the
+ * words in each post's body.
+ */
+import type { Migration } from '../scripts/lib/migrations';
+import { isJsonRteDocument, textContent } from '../src/lib/jsonRte';
+
+const WORDS_PER_MINUTE = 200;
+
+/**
+ * Minutes it takes to read a JSON RTE body, at least one
+ */
+function readingTime(body: unknown): number {
+  if (!isJsonRteDocument(body)) return 1;
+  const words = body.children
+    .map((block) => textContent(block).split(/\s+/).filter(Boolean).length)
+    .reduce((total, count) => total + count, 0);
+  return Math.max(1, Math.round(words / WORDS_PER_MINUTE));
+}
+
+const migration: Migration = {
+  description: 'Add reading_time to blog_post',
+
+  async up({ addField, transformEntries }) {
+    await addField(
+      'blog_post',
+      {
+        display_name: 'Reading Time (minutes)',
+        uid: 'reading_time',
+        data_type: 'number',
+        mandatory: false,
+        unique: false,
+        multiple: false,
+        field_metadata: {
+          description: 'Estimated from the body when migrated',
+        },
+      },
+      { after: 'summary' }
+    );
+    await transformEntries('blog_post', (post) => ({
+      reading_time: readingTime(post.body),
+    }));
+  },
+
+  async down({ removeField }) {
+    await removeField('blog_post', 'reading_time');
+  },
+};
+
+export default migration;
@@ -0,0 +1,75 @@
+/**
+ * Content Type Codegen CLI
+ *
+ * Generates the entry interfaces in `src/lib/contentTypes.generated.ts`
+ * and the validation specs in `src/lib/entrySchemas.generated.ts` from
+ * content type and global field schemas.
+ *
+ *   npm run codegen                       # from schema/contentstack.json
+ *   npm run codegen -- --from export.json # from another exported file
+ *   npm run codegen -- --remote           # from the management API
+ *   npm run codegen -- --check            # fail if a file is stale
+ */
+import 'dotenv/config';
+import { readFile, writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { generateSchemas, generateTypes } from './lib/codegen';
+import { DEFAULT_SCHEMA_PATH, fetchSchema, readSchemaFile } from './lib/schema';
+import { connectStack } from './lib/management';
+
+const DEFAULT_OUT = 'src/lib/contentTypes.generated.ts';
+const DEFAULT_SCHEMAS_OUT = 'src/lib/entrySchemas.generated.ts';
+
+async function main(): Promise<number> {
+  const { values } = parseArgs({
+    options: {
+      from: { type: 'string', default: DEFAULT_SCHEMA_PATH },
+      remote: { type: 'boolean', default: false },
+      out: { type: 'string', default: DEFAULT_OUT },
+      'schemas-out': { type: 'string', default: DEFAULT_SCHEMAS_OUT },
+      check: { type: 'boolean', default: false },
+    },
+  });
+
+  const schema = values.remote
+    ? await fetchSchema(connectStack())
+    : await readSchemaFile(values.from);
+  console.log(
+    `📦 Read ${schema.content_types.length} content types and ${schema.global_fields.length} global fields from ${values.remote ? 'the stack' : values.from}`
+  );
+
+  const files = [
+    { path: values.out, source: generateTypes(schema) },
+    { path: values['schemas-out'], source: generateSchemas(schema) },
+  ];
+
+  if (values.check) {
+    let stale = 0;
+    for (const file of files) {
+      const current = await readFile(file.path, 'utf8').catch(() => null);
+      if (current === file.source) {
+        console.log(`✅ ${file.path} is up to date`);
+      } else {
+        console.error(
+          `❌ ${file.path} is out of date. Run \`npm run codegen\` and commit the result.`
+        );
+        stale++;
+      }
+    }
+    return stale > 0 ? 1 : 0;
+  }
+
+  for (const file of files) {
+    await writeFile(file.path, file.source);
+    console.log(`✅ Wrote ${file.path}`);
+  }
+  return 0;
+}
+
+main().then(
+  (code) => process.exit(code),
+  (error) => {
+    console.error('❌ Codegen failed:', error);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,52 @@
+/**
+ * Content Export CLI
+ *
+ * Writes the stack's locales, content types, global fields, asset
+ * metadata and entries to a directory of JSON files, for snapshots or
+ * for `npm run content:import` into another stack.
+ *
+ *   npm run content:export -- snapshots/2025-06-01
+ *   npm run content:export -- out --content-type blog_post,author
+ *   npm run content:export -- out --locale en-us --locale fr-fr
+ */
+import 'dotenv/config';
+import { parseArgs } from 'node:util';
+import { exportContent, listOption } from './lib/contentTransfer';
+import { connectStack } from './lib/management';
+
+const USAGE =
+  'Usage: npm run content:export -- <dir> [--content-type <uid>] [--locale <code>]';
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      'content-type': { type: 'string', multiple: true },
+      locale: { type: 'string', multiple: true },
+    },
+  });
+  if (positionals.length !== 1) {
+    console.error(USAGE);
+    return 1;
+  }
+  const [dir] = positionals;
+
+  console.log(`📦 Exporting content to ${dir}`);
+  const manifest = await exportContent(connectStack(), dir, {
+    contentTypes: listOption(values['content-type']),
+    locales: listOption(values.locale),
+  });
+
+  console.log(
+    `✅ Exported ${manifest.content_types.length} content types, ${manifest.entries} entries and ${manifest.assets} assets in ${manifest.locales.length} locales`
+  );
+  return 0;
+}
+
+main().then(
+  (code) => process.exit(code),
+  (error) => {
+    console.error('❌ Export failed:', error);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,62 @@
+/**
+ * Content Import CLI
+ *
+ * Re-creates a `npm run content:export` directory in the stack from
+ * `.env` and publishes the entries. Entries and assets get new UIDs,
+ * and references between them are rewritten to match; entries the
+ * stack already has, by title, are updated. To import into a different
+ * stack than the one exported from, point dotenv at that stack's
+ * settings:
+ *
+ *   DOTENV_CONFIG_PATH=.env.staging npm run content:import -- snapshot
+ *   npm run content:import -- snapshot --content-type product --locale en-us
+ *   npm run content:import -- snapshot --environment staging
+ */
+import 'dotenv/config';
+import { parseArgs } from 'node:util';
+import { ContentImporter, listOption } from './lib/contentTransfer';
+import { connectStack } from './lib/management';
+
+const USAGE =
+  'Usage: npm run content:import -- <dir> [--content-type <uid>] [--locale <code>] [--environment <name>]';
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      'content-type': { type: 'string', multiple: true },
+      locale: { type: 'string', multiple: true },
+      environment: {
+        type: 'string',
+        default: process.env.VITE_CONTENTSTACK_ENVIRONMENT || 'production',
+      },
+    },
+  });
+  if (positionals.length !== 1) {
+    console.error(USAGE);
+    return 1;
+  }
+  const [dir] = positionals;
+
+  console.log(`📦 Importing content from ${dir}`);
+  const importer = new ContentImporter(connectStack(), {
+    environment: values.environment,
+  });
+  const summary = await importer.import(dir, {
+    contentTypes: listOption(values['content-type']),
+    locales: listOption(values.locale),
+  });
+
+  console.log(
+    `✅ Created ${summary.locales} locales, ${summary.globalFields} global fields, ${summary.contentTypes} content types, ${summary.assets} assets and ${summary.entries} entries; updated ${summary.updatedEntries} entries; published ${summary.published}`
+  );
+  return 0;
+}
+
+main().then(
+  (code) => process.exit(code),
+  (error) => {
+    console.error('❌ Import failed:', error);
+    process.exit(1);
+  }
+);
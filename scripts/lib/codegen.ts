@@ -0,0 +1,429 @@
+/**
+ * TypeScript Codegen for Content Types
+ *
+ * Turns content type and global field schemas into the entry
+ * interfaces the app reads from the Delivery API, and into the field
+ * specs the app validates delivered entries against.
+ */
+import type {
+  BlockSchema,
+  FieldSchema,
+  GlobalFieldSchema,
+  StackSchema,
+} from './schema';
+
+// ============================================
+// Types
+// ============================================
+
+// Collects declarations and the field types they import
+interface Output {
+  declarations: string[];
+  imports: Set<string>;
+}
+
+const MAX_LINE = 80;
+
+const HEADER = `/**
+ * Contentstack Content Types
+ *
+ * Generated by \`npm run codegen\` from the stack's content type and
+ * global field schemas. Do not edit by hand; run the command again.
+ */`;
+
+const SCHEMAS_HEADER = `/**
+ * Contentstack Entry Schemas
+ *
+ * Generated by \`npm run codegen\` alongside the entry interfaces, for
+ * runtime validation. Do not edit by hand; run the command again.
+ */`;
+
+const SECTION = (title: string) =>
+  `// ============================================\n// ${title}\n// ============================================`;
+
+// ============================================
+// Naming
+// ============================================
+
+/**
+ * `blog_post` → `BlogPost`
+ */
+export function typeName(uid: string): string {
+  return uid
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join('');
+}
+
+function propertyName(uid: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(uid) ? uid : `'${uid}'`;
+}
+
+function literal(value: string | number): string {
+  return typeof value === 'number'
+    ? String(value)
+    : `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+function arrayOf(type: string): string {
+  return type.includes(' | ') ? `(${type})[]` : `${type}[]`;
+}
+
+function asList(value?: string | string[]): string[] {
+  if (!value) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+// ============================================
+// Fields
+// ============================================
+
+function enumType(field: FieldSchema): string | null {
+  const choices = field.enum?.choices ?? [];
+  if (choices.length === 0) return null;
+  return [...new Set(choices.map((choice) => literal(choice.value)))].join(
+    ' | '
+  );
+}
+
+function fieldType(field: FieldSchema, parent: string, out: Output): string {
+  const nested = `${parent}${typeName(field.uid)}`;
+  let type: string;
+
+  switch (field.data_type) {
+    case 'text':
+      type = enumType(field) ?? 'string';
+      break;
+    case 'number':
+      type = enumType(field) ?? 'number';
+      break;
+    case 'boolean':
+      type = 'boolean';
+      break;
+    case 'isodate':
+      type = 'string';
+      break;
+    case 'file':
+      out.imports.add('Asset');
+      type = 'Asset';
+      break;
+    case 'link':
+      out.imports.add('Link');
+      type = 'Link';
+      break;
+    case 'json':
+      if (field.field_metadata?.allow_json_rte) {
+        out.imports.add('JsonRteDocument');
+        type = 'JsonRteDocument';
+      } else {
+        type = 'Record<string, unknown>';
+      }
+      break;
+    case 'reference': {
+      // Reference fields are always arrays in delivery responses
+      out.imports.add('Reference');
+      const targets = asList(field.reference_to).map(typeName);
+      return `Reference<${targets.join(' | ') || 'unknown'}>[]`;
+    }
+    case 'taxonomy':
+      out.imports.add('TaxonomyTerm');
+      return 'TaxonomyTerm[]';
+    case 'group':
+      emitInterface(nested, field.schema ?? [], out);
+      type = nested;
+      break;
+    case 'global_field':
+      type = typeName(asList(field.reference_to)[0] ?? field.uid);
+      break;
+    case 'blocks':
+      emitBlocks(`${nested}Block`, nested, field.blocks ?? [], out);
+      return `${nested}Block[]`;
+    default:
+      type = 'unknown';
+  }
+
+  const multiple = field.multiple || field.display_type === 'checkbox';
+  return multiple ? arrayOf(type) : type;
+}
+
+function property(field: FieldSchema, parent: string, out: Output): string {
+  const name = `${propertyName(field.uid)}${field.mandatory ? '' : '?'}`;
+  const type = fieldType(field, parent, out);
+  const line = `  ${name}: ${type};`;
+
+  // Wrap long unions one member per line
+  if (line.length <= MAX_LINE || !/^'.*'$|^\d/.test(type)) return line;
+  const members = type.split(' | ').map((member) => `    | ${member}`);
+  return `  ${name}:\n${members.join('\n')};`;
+}
+
+// ============================================
+// Declarations
+// ============================================
+
+function emitInterface(
+  name: string,
+  fields: FieldSchema[],
+  out: Output,
+  options: { description?: string; uid?: boolean } = {}
+): void {
+  const lines: string[] = [];
+  if (options.uid) lines.push('  uid: string;');
+  for (const field of fields) lines.push(property(field, name, out));
+
+  const doc = options.description ? `/** ${options.description} */\n` : '';
+  out.declarations.push(
+    `${doc}export interface ${name} {\n${lines.join('\n')}\n}`
+  );
+}
+
+/**
+ * Modular blocks arrive as `[{ block_uid: { ...fields } }, …]`, so
+ * each block becomes one member of a union keyed by its UID
+ */
+function emitBlocks(
+  name: string,
+  parent: string,
+  blocks: BlockSchema[],
+  out: Output
+): void {
+  const members = blocks.map((block) => {
+    let type: string;
+    if (block.reference_to) {
+      type = typeName(block.reference_to);
+    } else {
+      type = `${parent}${typeName(block.uid)}`;
+      emitInterface(type, block.schema ?? [], out);
+    }
+    return `  | { ${propertyName(block.uid)}: ${type} }`;
+  });
+
+  out.declarations.push(
+    `export type ${name} =\n${members.join('\n') || '  never'};`
+  );
+}
+
+function byUid<T extends { uid: string }>(items: T[]): T[] {
+  return [...items].sort((a, b) => a.uid.localeCompare(b.uid));
+}
+
+// ============================================
+// Generation
+// ============================================
+
+/**
+ * Generate the TypeScript source for every global field and content
+ * type, plus a `ContentTypeMap` from content type UID to interface
+ */
+export function generateTypes(schema: StackSchema): string {
+  const out: Output = { declarations: [], imports: new Set() };
+
+  const globalFields = byUid<GlobalFieldSchema>(schema.global_fields);
+  const globalOut: Output = { declarations: [], imports: out.imports };
+  for (const globalField of globalFields) {
+    emitInterface(typeName(globalField.uid), globalField.schema, globalOut, {
+      description: globalField.description,
+    });
+  }
+
+  const contentTypes = byUid(schema.content_types);
+  for (const contentType of contentTypes) {
+    emitInterface(typeName(contentType.uid), contentType.schema, out, {
+      description: contentType.description,
+      uid: true,
+    });
+  }
+
+  const map = contentTypes
+    .map((contentType) => `  ${contentType.uid}: ${typeName(contentType.uid)};`)
+    .join('\n');
+
+  const imports = [...out.imports].sort();
+  const sections = [
+    imports.length > 0
+      ? `${HEADER}\nimport type { ${imports.join(', ')} } from './fields';`
+      : HEADER,
+    globalOut.declarations.length > 0
+      ? [SECTION('Global Fields'), ...globalOut.declarations].join('\n\n')
+      : '',
+    [SECTION('Content Types'), ...out.declarations].join('\n\n'),
+    `// Maps content type UIDs to their entry interfaces\nexport interface ContentTypeMap {\n${map}\n}`,
+  ];
+
+  return `${sections.filter(Boolean).join('\n\n')}\n`;
+}
+
+// ============================================
+// Field Specs
+// ============================================
+
+// Printed as a bare identifier rather than a string literal
+class Identifier {
+  readonly name: string;
+
+  constructor(name: string) {
+    this.name = name;
+  }
+}
+
+type SpecValue =
+  | string
+  | number
+  | boolean
+  | Identifier
+  | SpecValue[]
+  | { [key: string]: SpecValue };
+
+function globalFieldConst(uid: string): string {
+  const name = typeName(uid);
+  return `${name[0].toLowerCase()}${name.slice(1)}Fields`;
+}
+
+function fieldSpec(field: FieldSchema): SpecValue {
+  const choices = field.enum?.choices ?? [];
+  let spec: Record<string, SpecValue>;
+
+  switch (field.data_type) {
+    case 'text':
+    case 'number':
+      spec =
+        choices.length > 0
+          ? {
+              type: 'enum',
+              values: [...new Set(choices.map((choice) => choice.value))],
+            }
+          : { type: field.data_type === 'text' ? 'string' : 'number' };
+      break;
+    case 'boolean':
+      spec = { type: 'boolean' };
+      break;
+    case 'isodate':
+      spec = { type: 'date' };
+      break;
+    case 'file':
+    case 'link':
+      spec = { type: field.data_type };
+      break;
+    case 'json':
+      spec = {
+        type: field.field_metadata?.allow_json_rte ? 'json_rte' : 'json',
+      };
+      break;
+    case 'reference':
+    case 'taxonomy':
+      // Always arrays, checked as a list rather than as `multiple`
+      return field.mandatory
+        ? { type: field.data_type, required: true }
+        : { type: field.data_type };
+    case 'group':
+      spec = { type: 'group', fields: fieldSpecs(field.schema ?? []) };
+      break;
+    case 'global_field':
+      spec = {
+        type: 'group',
+        fields: new Identifier(
+          globalFieldConst(asList(field.reference_to)[0] ?? field.uid)
+        ),
+      };
+      break;
+    case 'blocks':
+      spec = {
+        type: 'blocks',
+        blocks: Object.fromEntries(
+          (field.blocks ?? []).map((block) => [
+            block.uid,
+            block.reference_to
+              ? new Identifier(globalFieldConst(block.reference_to))
+              : fieldSpecs(block.schema ?? []),
+          ])
+        ),
+      };
+      break;
+    default:
+      // Unknown field types are only checked for presence
+      spec = { type: 'json' };
+  }
+
+  if (field.mandatory) spec.required = true;
+  if (field.multiple || field.display_type === 'checkbox') {
+    if (field.data_type !== 'blocks') spec.multiple = true;
+  }
+  return spec;
+}
+
+function fieldSpecs(fields: FieldSchema[]): Record<string, SpecValue> {
+  return Object.fromEntries(
+    fields.map((field) => [field.uid, fieldSpec(field)])
+  );
+}
+
+/**
+ * Print a value prettier-style: on one line when it fits after
+ * `prefix`, otherwise one member per line
+ */
+function printSpec(value: SpecValue, indent: string, prefix: string): string {
+  if (value instanceof Identifier) return value.name;
+  if (typeof value !== 'object') {
+    return typeof value === 'boolean' ? String(value) : literal(value);
+  }
+
+  const inner = `${indent}  `;
+  const members = Array.isArray(value)
+    ? value.map((item) => ({ head: '', item }))
+    : Object.entries(value).map(([key, item]) => ({
+        head: `${propertyName(key)}: `,
+        item,
+      }));
+  const [open, close] = Array.isArray(value) ? ['[', ']'] : ['{ ', ' }'];
+
+  const flat = members
+    .map(({ head, item }) => `${head}${printSpec(item, '', '')}`)
+    .join(', ');
+  const oneLine =
+    members.length === 0
+      ? `${open.trim()}${close.trim()}`
+      : `${open}${flat}${close}`;
+  const fits = prefix.length + oneLine.length + 1 <= MAX_LINE;
+  if (fits && !oneLine.includes('\n')) return oneLine;
+
+  const lines = members.map(
+    ({ head, item }) =>
+      `${inner}${head}${printSpec(item, inner, `${inner}${head}`)},`
+  );
+  return `${open.trim()}\n${lines.join('\n')}\n${indent}${close.trim()}`;
+}
+
+/**
+ * Generate the runtime field specs for every content type, keyed by
+ * content type UID, with each global field declared once
+ */
+export function generateSchemas(schema: StackSchema): string {
+  const globalFields = byUid<GlobalFieldSchema>(schema.global_fields).map(
+    (globalField) => {
+      const name = globalFieldConst(globalField.uid);
+      const prefix = `const ${name}: EntrySchema = `;
+      const body = printSpec(fieldSpecs(globalField.schema), '', prefix);
+      return `${prefix}${body};`;
+    }
+  );
+
+  const contentTypes = Object.fromEntries(
+    byUid(schema.content_types).map((contentType) => [
+      contentType.uid,
+      fieldSpecs(contentType.schema),
+    ])
+  );
+  const prefix =
+    'export const entrySchemas: Record<keyof ContentTypeMap, EntrySchema> = ';
+
+  const sections = [
+    `${SCHEMAS_HEADER}\nimport type { ContentTypeMap } from './contentTypes.generated';\nimport type { EntrySchema } from './validation';`,
+    globalFields.length > 0
+      ? [SECTION('Global Fields'), ...globalFields].join('\n\n')
+      : '',
+    `${SECTION('Content Types')}\n\n${prefix}${printSpec(contentTypes, '', prefix)};`,
+  ];
+
+  return `${sections.filter(Boolean).join('\n\n')}\n`;
+}
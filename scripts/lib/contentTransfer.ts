@@ -0,0 +1,727 @@
+/**
+ * Content Export and Import
+ *
+ * Copies a stack's locales, content model, asset metadata and entries
+ * to a directory of JSON files, and re-creates them in another stack.
+ * Entries and assets get new UIDs there, so every reference, file
+ * field and JSON RTE embed is rewritten to point at the copies. An
+ * entry the stack already has, matched by title, is updated instead,
+ * so importing again does not duplicate entries.
+ *
+ *   <dir>/manifest.json                       what was exported, and when
+ *   <dir>/locales.json                        each after its fallback
+ *   <dir>/schema.json                         content types, global fields
+ *   <dir>/assets.json                         metadata and download URLs
+ *   <dir>/entries/<content type>/<locale>.json
+ */
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import type { Stack } from '@contentstack/management/types/stack';
+import type { AssetData } from '@contentstack/management/types/stack/asset';
+import type { FieldSchema, StackSchema } from './schema';
+import { fetchSchema, readSchemaFile } from './schema';
+import { contentTypeData, dependencyOrder } from './seed';
+
+// ============================================
+// Types
+// ============================================
+
+export interface TransferFilter {
+  /** Content types to copy; every one when empty */
+  contentTypes: string[];
+  /** Locales to copy; every one when empty */
+  locales: string[];
+}
+
+export interface ExportManifest {
+  exported_at: string;
+  content_types: string[];
+  /** Locale codes, each after its fallback locale */
+  locales: string[];
+  entries: number;
+  assets: number;
+}
+
+export interface ImportOptions {
+  /** Environment the imported entries are published to */
+  environment: string;
+}
+
+export interface ImportSummary {
+  locales: number;
+  globalFields: number;
+  contentTypes: number;
+  assets: number;
+  entries: number;
+  /** Entries the stack already had, updated in place */
+  updatedEntries: number;
+  /** Entry versions published, one per entry and locale */
+  published: number;
+}
+
+export interface LocaleRecord {
+  code: string;
+  name?: string;
+  fallback_locale?: string | null;
+}
+
+export interface AssetRecord {
+  uid: string;
+  title?: string;
+  filename: string;
+  content_type?: string;
+  file_size?: string;
+  url: string;
+  description?: string;
+  tags?: string[];
+}
+
+export type EntryRecord = Record<string, unknown> & {
+  uid: string;
+  locale?: string;
+};
+
+// Exported entries of one content type in one locale
+interface EntryGroup {
+  contentType: string;
+  locale: string;
+  schema: FieldSchema[];
+  entries: EntryRecord[];
+}
+
+// How old UIDs map to new ones while rewriting an entry
+interface RewriteContext {
+  globalFields: Map<string, FieldSchema[]>;
+  entryUid: (uid: string, contentType: string) => string | undefined;
+  assetUid: (uid: string) => string | undefined;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+const PAGE_SIZE = 100;
+
+/**
+ * Page through a management API query until it runs out
+ */
+async function findAll<T>(
+  find: (page: { skip: number; limit: number }) => Promise<{ items: T[] }>
+): Promise<T[]> {
+  const all: T[] = [];
+  for (let skip = 0; ; skip += PAGE_SIZE) {
+    const { items } = await find({ skip, limit: PAGE_SIZE });
+    all.push(...items);
+    if (items.length < PAGE_SIZE) return all;
+  }
+}
+
+/**
+ * Narrow a list to the requested values, failing on unknown ones
+ */
+function selectValues(
+  available: string[],
+  requested: string[],
+  label: string
+): string[] {
+  const unknown = requested.filter((value) => !available.includes(value));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown ${label}: ${unknown.join(', ')}`);
+  }
+  return requested.length > 0
+    ? available.filter((value) => requested.includes(value))
+    : available;
+}
+
+/**
+ * Order locales so each comes after the locale it falls back to
+ */
+function fallbackOrder(locales: LocaleRecord[]): LocaleRecord[] {
+  const ordered: LocaleRecord[] = [];
+  const visiting = new Set<string>();
+
+  const visit = (locale: LocaleRecord) => {
+    if (ordered.includes(locale) || visiting.has(locale.code)) return;
+    visiting.add(locale.code);
+    const fallback = locales.find(
+      (candidate) => candidate.code === locale.fallback_locale
+    );
+    if (fallback) visit(fallback);
+    ordered.push(locale);
+  };
+
+  locales.forEach(visit);
+  return ordered;
+}
+
+/**
+ * The JSON data of an SDK object, without its functions or the
+ * credentials it carries in `stackHeaders`
+ */
+function plain(item: object): EntryRecord {
+  const data = { ...item } as Record<string, unknown>;
+  delete data.stackHeaders;
+  delete data.urlPath;
+  return JSON.parse(JSON.stringify(data));
+}
+
+async function readJson<T>(dir: string, file: string): Promise<T> {
+  return JSON.parse(await readFile(join(dir, file), 'utf8'));
+}
+
+async function writeJson(dir: string, file: string, data: unknown) {
+  const path = join(dir, file);
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, `${JSON.stringify(data, null, 2)}\n`);
+}
+
+function entriesFile(contentType: string, locale: string): string {
+  return join('entries', contentType, `${locale}.json`);
+}
+
+/**
+ * Values of a repeatable CLI option, which may also be comma-separated
+ */
+export function listOption(values: string[] = []): string[] {
+  return values.flatMap((value) => value.split(',')).filter(Boolean);
+}
+
+// ============================================
+// Rewriting References
+// ============================================
+
+/**
+ * Rewrite JSON RTE embeds. Embeds of entries or assets that were not
+ * copied are dropped.
+ */
+function rewriteRte(node: unknown, context: RewriteContext): unknown {
+  if (!node || typeof node !== 'object') return node;
+  const { attrs, children } = node as {
+    attrs?: Record<string, unknown>;
+    children?: unknown[];
+  };
+  const copy: Record<string, unknown> = { ...node };
+
+  if (typeof attrs?.['entry-uid'] === 'string') {
+    const uid = context.entryUid(
+      attrs['entry-uid'],
+      String(attrs['content-type-uid'])
+    );
+    if (!uid) return null;
+    copy.attrs = { ...attrs, 'entry-uid': uid };
+  } else if (typeof attrs?.['asset-uid'] === 'string') {
+    const uid = context.assetUid(attrs['asset-uid']);
+    if (!uid) return null;
+    copy.attrs = { ...attrs, 'asset-uid': uid };
+  }
+
+  if (Array.isArray(children)) {
+    copy.children = children
+      .map((child) => rewriteRte(child, context))
+      .filter((child) => child !== null);
+  }
+  return copy;
+}
+
+function rewriteValue(
+  field: FieldSchema,
+  value: unknown,
+  context: RewriteContext
+): unknown {
+  if (
+    field.multiple &&
+    Array.isArray(value) &&
+    !['reference', 'blocks'].includes(field.data_type)
+  ) {
+    return value
+      .map((item) =>
+        rewriteValue({ ...field, multiple: false }, item, context)
+      )
+      .filter((item) => item !== null);
+  }
+  if (value === null || value === undefined) return value;
+
+  switch (field.data_type) {
+    case 'reference':
+      return [value].flat().flatMap((reference) => {
+        const { uid, _content_type_uid } = reference as {
+          uid: string;
+          _content_type_uid: string;
+        };
+        const mapped = context.entryUid(uid, _content_type_uid);
+        return mapped ? [{ uid: mapped, _content_type_uid }] : [];
+      });
+
+    case 'file': {
+      // The API returns file fields as asset objects, and takes UIDs
+      const uid =
+        typeof value === 'string' ? value : (value as { uid?: string }).uid;
+      return uid ? (context.assetUid(uid) ?? null) : null;
+    }
+
+    case 'group':
+      return rewriteFields(field.schema ?? [], value, context);
+
+    case 'global_field':
+      return rewriteFields(
+        context.globalFields.get(String(field.reference_to)) ??
+          field.schema ??
+          [],
+        value,
+        context
+      );
+
+    case 'blocks':
+      return (value as Record<string, unknown>[]).map((block) =>
+        Object.fromEntries(
+          Object.entries(block).map(([blockUid, data]) => {
+            const schema = field.blocks?.find(({ uid }) => uid === blockUid);
+            const fields = schema?.reference_to
+              ? context.globalFields.get(schema.reference_to)
+              : schema?.schema;
+            return [
+              blockUid,
+              fields ? rewriteFields(fields, data, context) : data,
+            ];
+          })
+        )
+      );
+
+    case 'json':
+      return field.field_metadata?.allow_json_rte
+        ? rewriteRte(value, context)
+        : value;
+
+    default:
+      return value;
+  }
+}
+
+/**
+ * Keep the fields a schema defines, pointing their references at the
+ * copied entries and assets
+ */
+function rewriteFields(
+  schema: FieldSchema[],
+  data: unknown,
+  context: RewriteContext
+): Record<string, unknown> {
+  const values = (data ?? {}) as Record<string, unknown>;
+  const rewritten: Record<string, unknown> = {};
+  for (const field of schema) {
+    if (values[field.uid] === undefined) continue;
+    rewritten[field.uid] = rewriteValue(field, values[field.uid], context);
+  }
+  return rewritten;
+}
+
+/**
+ * Every asset UID an entry's fields use
+ */
+function assetsUsed(
+  schema: FieldSchema[],
+  entry: EntryRecord,
+  globalFields: Map<string, FieldSchema[]>
+): Set<string> {
+  const uids = new Set<string>();
+  rewriteFields(schema, entry, {
+    globalFields,
+    entryUid: (uid) => uid,
+    assetUid: (uid) => (uids.add(uid), uid),
+  });
+  return uids;
+}
+
+function globalFieldSchemas(schema: StackSchema): Map<string, FieldSchema[]> {
+  return new Map(schema.global_fields.map(({ uid, schema }) => [uid, schema]));
+}
+
+// ============================================
+// Export
+// ============================================
+
+/**
+ * Write a stack's content to `dir`. When content types are filtered,
+ * only the assets their entries use are included.
+ */
+export async function exportContent(
+  stack: Stack,
+  dir: string,
+  filter: TransferFilter
+): Promise<ExportManifest> {
+  const schema = await fetchSchema(stack);
+  const contentTypes = selectValues(
+    schema.content_types.map(({ uid }) => uid),
+    filter.contentTypes,
+    'content types'
+  );
+
+  const allLocales = fallbackOrder(
+    (await findAll((page) => stack.locale().query(page).find())).map(
+      ({ code, name, fallback_locale }) => ({ code, name, fallback_locale })
+    )
+  );
+  const localeCodes = selectValues(
+    allLocales.map(({ code }) => code),
+    filter.locales,
+    'locales'
+  );
+  const locales = allLocales.filter(({ code }) => localeCodes.includes(code));
+
+  const globalFields = globalFieldSchemas(schema);
+  const usedAssets = new Set<string>();
+  let entryCount = 0;
+
+  for (const type of schema.content_types) {
+    if (!contentTypes.includes(type.uid)) continue;
+
+    for (const { code } of locales) {
+      // Queries in a locale also return entries falling back to another
+      const entries = (
+        await findAll((page) =>
+          stack
+            .contentType(type.uid)
+            .entry()
+            .query({ ...page, locale: code })
+            .find()
+        )
+      )
+        .map(plain)
+        .filter((entry) => entry.locale === code);
+      if (entries.length === 0) continue;
+
+      for (const entry of entries) {
+        assetsUsed(type.schema, entry, globalFields).forEach((uid) =>
+          usedAssets.add(uid)
+        );
+      }
+      await writeJson(dir, entriesFile(type.uid, code), entries);
+      entryCount += entries.length;
+      console.log(`✅ ${entries.length} ${type.uid} entries (${code})`);
+    }
+  }
+
+  const assets = (
+    await findAll((page) => stack.asset().query(page).find())
+  )
+    .map((asset) => plain(asset) as unknown as AssetRecord)
+    .filter((asset) => !(asset as { is_dir?: boolean }).is_dir)
+    .filter(
+      (asset) => filter.contentTypes.length === 0 || usedAssets.has(asset.uid)
+    )
+    .map((asset) => ({
+      uid: asset.uid,
+      title: asset.title,
+      filename: asset.filename,
+      content_type: asset.content_type,
+      file_size: asset.file_size,
+      url: asset.url,
+      description: asset.description,
+      tags: asset.tags,
+    }));
+
+  const manifest: ExportManifest = {
+    exported_at: new Date().toISOString(),
+    content_types: contentTypes,
+    locales: localeCodes,
+    entries: entryCount,
+    assets: assets.length,
+  };
+  await writeJson(dir, 'locales.json', locales);
+  await writeJson(dir, 'schema.json', {
+    content_types: schema.content_types.filter(({ uid }) =>
+      contentTypes.includes(uid)
+    ),
+    global_fields: schema.global_fields,
+  });
+  await writeJson(dir, 'assets.json', assets);
+  await writeJson(dir, 'manifest.json', manifest);
+  return manifest;
+}
+
+// ============================================
+// Import
+// ============================================
+
+/**
+ * Re-creates exported content in a stack. Locales, global fields and
+ * content types the stack already has are left alone; assets and
+ * entries are always created, so importing twice copies them twice.
+ */
+export class ContentImporter {
+  private readonly stack: Stack;
+  private readonly options: ImportOptions;
+  // New UIDs by exported UID
+  private readonly entryUids = new Map<string, string>();
+  private readonly assetUids = new Map<string, string>();
+  private readonly summary: ImportSummary = {
+    locales: 0,
+    globalFields: 0,
+    contentTypes: 0,
+    assets: 0,
+    entries: 0,
+    updatedEntries: 0,
+    published: 0,
+  };
+
+  constructor(stack: Stack, options: ImportOptions) {
+    this.stack = stack;
+    this.options = options;
+  }
+
+  async import(dir: string, filter: TransferFilter): Promise<ImportSummary> {
+    const manifest = await readJson<ExportManifest>(dir, 'manifest.json');
+    const schema = await readSchemaFile(join(dir, 'schema.json'));
+    const contentTypes = selectValues(
+      manifest.content_types,
+      filter.contentTypes,
+      'content types in the export'
+    );
+    const localeCodes = selectValues(
+      manifest.locales,
+      filter.locales,
+      'locales in the export'
+    );
+    const locales = (await readJson<LocaleRecord[]>(dir, 'locales.json'))
+      .filter(({ code }) => localeCodes.includes(code));
+    const types = dependencyOrder(
+      schema.content_types.filter(({ uid }) => contentTypes.includes(uid))
+    );
+    const globalFields = globalFieldSchemas(schema);
+
+    // Read every entry first, to know which assets they use
+    const groups: EntryGroup[] = [];
+    const usedAssets = new Set<string>();
+    for (const { uid, schema: fields } of types) {
+      for (const locale of localeCodes) {
+        const entries = await readJson<EntryRecord[]>(
+          dir,
+          entriesFile(uid, locale)
+        ).catch((error: NodeJS.ErrnoException) => {
+          if (error.code === 'ENOENT') return [];
+          throw error;
+        });
+        if (entries.length === 0) continue;
+
+        groups.push({ contentType: uid, locale, schema: fields, entries });
+        for (const entry of entries) {
+          assetsUsed(fields, entry, globalFields).forEach((asset) =>
+            usedAssets.add(asset)
+          );
+        }
+      }
+    }
+
+    await this.importLocales(locales);
+    await this.importSchema(schema, contentTypes);
+    const assets = await readJson<AssetRecord[]>(dir, 'assets.json');
+    for (const asset of assets) {
+      if (usedAssets.has(asset.uid)) await this.importAsset(asset);
+    }
+
+    // References to entries created later are filled in a second pass,
+    // so only entries that were not imported at all end up missing
+    let secondPass = false;
+    const missing = new Set<string>();
+    const context: RewriteContext = {
+      globalFields,
+      entryUid: (uid) => {
+        const mapped = this.entryUids.get(uid);
+        if (!mapped && secondPass) missing.add(uid);
+        return mapped;
+      },
+      assetUid: (uid) => this.assetUids.get(uid),
+    };
+    const fieldsOf = (schema: FieldSchema[], entry: EntryRecord) =>
+      JSON.stringify({
+        ...rewriteFields(schema, entry, context),
+        ...(Array.isArray(entry.tags) && { tags: entry.tags }),
+      });
+
+    const created = new Map<EntryRecord, string>();
+    for (const { contentType, locale, schema, entries } of groups) {
+      console.log(
+        `⏳ Importing ${entries.length} ${contentType} entries (${locale})`
+      );
+      for (const entry of entries) {
+        const fields = fieldsOf(schema, entry);
+        created.set(entry, fields);
+        await this.saveEntry(contentType, locale, entry, JSON.parse(fields));
+      }
+    }
+
+    secondPass = true;
+    for (const { contentType, locale, schema, entries } of groups) {
+      for (const entry of entries) {
+        const fields = fieldsOf(schema, entry);
+        if (fields === created.get(entry)) continue;
+        await this.updateEntry(
+          contentType,
+          locale,
+          this.entryUids.get(entry.uid)!,
+          JSON.parse(fields)
+        );
+      }
+    }
+
+    if (missing.size > 0) {
+      console.log(
+        `⚠️  Dropped references to ${missing.size} entries that were not imported`
+      );
+    }
+
+    // Publish once every reference is in place
+    const { environment } = this.options;
+    for (const { contentType, locale, entries } of groups) {
+      console.log(
+        `⏳ Publishing ${entries.length} ${contentType} entries to ${environment} (${locale})`
+      );
+      for (const entry of entries) {
+        await this.stack
+          .contentType(contentType)
+          .entry(this.entryUids.get(entry.uid)!)
+          .publish({
+            publishDetails: { environments: [environment], locales: [locale] },
+            locale,
+          });
+        this.summary.published++;
+      }
+    }
+    return { ...this.summary };
+  }
+
+  private async importLocales(locales: LocaleRecord[]): Promise<void> {
+    const existing = new Set(
+      (await findAll((page) => this.stack.locale().query(page).find())).map(
+        ({ code }) => code
+      )
+    );
+    for (const { code, name, fallback_locale } of locales) {
+      if (existing.has(code)) continue;
+      console.log(`⏳ Adding locale ${code}`);
+      await this.stack.locale().create({
+        locale: {
+          code,
+          name,
+          ...(fallback_locale && { fallback_locale }),
+        },
+      });
+      this.summary.locales++;
+    }
+  }
+
+  private async importSchema(
+    schema: StackSchema,
+    contentTypes: string[]
+  ): Promise<void> {
+    const existing = await fetchSchema(this.stack);
+    const has = (items: { uid: string }[], uid: string) =>
+      items.some((item) => item.uid === uid);
+
+    for (const globalField of schema.global_fields) {
+      if (has(existing.global_fields, globalField.uid)) continue;
+      console.log(`⏳ Creating global field ${globalField.uid}`);
+      await this.stack.globalField().create({ global_field: globalField });
+      this.summary.globalFields++;
+    }
+    for (const contentType of dependencyOrder(schema.content_types)) {
+      if (
+        !contentTypes.includes(contentType.uid) ||
+        has(existing.content_types, contentType.uid)
+      ) {
+        continue;
+      }
+      console.log(`⏳ Creating content type ${contentType.uid}`);
+      await this.stack
+        .contentType()
+        .create({ content_type: contentTypeData(contentType) });
+      this.summary.contentTypes++;
+    }
+  }
+
+  /**
+   * Download an exported asset and upload it to the stack
+   */
+  private async importAsset(asset: AssetRecord): Promise<void> {
+    const response = await fetch(asset.url);
+    if (!response.ok) {
+      throw new Error(
+        `Could not download ${asset.filename}: HTTP ${response.status}`
+      );
+    }
+
+    console.log(`⏳ Uploading asset ${asset.filename}`);
+    const created = await this.stack.asset().create({
+      upload: Buffer.from(await response.arrayBuffer()),
+      filename: asset.filename,
+      content_type: asset.content_type,
+      title: asset.title,
+      description: asset.description,
+      tags: asset.tags,
+    } as unknown as AssetData);
+    this.assetUids.set(asset.uid, created.uid);
+    this.summary.assets++;
+  }
+
+  /**
+   * Create an entry, or add a localized version when an earlier locale
+   * already created it. An entry the stack already has is updated.
+   */
+  private async saveEntry(
+    contentType: string,
+    locale: string,
+    entry: EntryRecord,
+    fields: Record<string, unknown>
+  ): Promise<void> {
+    const uid = this.entryUids.get(entry.uid);
+    if (uid) {
+      await this.updateEntry(contentType, locale, uid, fields);
+      return;
+    }
+
+    const existing = await this.findEntry(contentType, locale, entry);
+    if (existing) {
+      this.entryUids.set(entry.uid, existing);
+      await this.updateEntry(contentType, locale, existing, fields);
+      this.summary.updatedEntries++;
+      return;
+    }
+
+    const created = await this.stack
+      .contentType(contentType)
+      .entry()
+      .create({ entry: fields as { title: string } }, { locale });
+    this.entryUids.set(entry.uid, created.uid);
+    this.summary.entries++;
+  }
+
+  /**
+   * The UID of the stack's copy of an exported entry: the entry itself
+   * when importing into the stack it came from, else one with its title
+   */
+  private async findEntry(
+    contentType: string,
+    locale: string,
+    entry: EntryRecord
+  ): Promise<string | undefined> {
+    if (typeof entry.title !== 'string') return undefined;
+
+    const { items } = await this.stack
+      .contentType(contentType)
+      .entry()
+      .query({ query: { title: entry.title }, locale })
+      .find();
+    return (items.find(({ uid }) => uid === entry.uid) ?? items[0])?.uid;
+  }
+
+  private async updateEntry(
+    contentType: string,
+    locale: string,
+    uid: string,
+    fields: Record<string, unknown>
+  ): Promise<void> {
+    const entry = this.stack.contentType(contentType).entry(uid);
+    Object.assign(entry, fields);
+    await entry.update({ locale });
+  }
+}
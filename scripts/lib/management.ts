@@ -0,0 +1,47 @@
+/**
+ * Content Management API Connection
+ *
+ * Connects the CLI scripts to a stack through the management SDK,
+ * configured from the same `.env` file as the app.
+ */
+import * as managementSdk from '@contentstack/management';
+import type { Stack } from '@contentstack/management/types/stack';
+import { MissingConfigError } from '../../src/lib/errors';
+
+// The SDK is a CommonJS bundle, so under ESM its exports are on `default`
+const contentstack =
+  (managementSdk as { default?: typeof managementSdk }).default ??
+  managementSdk;
+
+export const DEFAULT_MANAGEMENT_HOST = 'api.contentstack.io';
+
+/**
+ * Open the stack named by `VITE_CONTENTSTACK_API_KEY`, authenticated
+ * with `CONTENTSTACK_MANAGEMENT_TOKEN`. Set `CONTENTSTACK_MANAGEMENT_HOST`
+ * to a host name or a URL. The management settings have no `VITE_`
+ * prefix, so Vite never exposes them to the app bundle.
+ */
+export function connectStack(env: NodeJS.ProcessEnv = process.env): Stack {
+  const apiKey = env.VITE_CONTENTSTACK_API_KEY;
+  const managementToken = env.CONTENTSTACK_MANAGEMENT_TOKEN;
+
+  const missing = Object.entries({
+    VITE_CONTENTSTACK_API_KEY: apiKey,
+    CONTENTSTACK_MANAGEMENT_TOKEN: managementToken,
+  })
+    .filter(([, value]) => !value)
+    .map(([key]) => key);
+  if (missing.length > 0) throw new MissingConfigError(missing);
+
+  // A full URL, such as a local mock server, replaces the endpoint
+  const host = env.CONTENTSTACK_MANAGEMENT_HOST || DEFAULT_MANAGEMENT_HOST;
+  const client = contentstack.client(
+    /^https?:\/\//.test(host)
+      ? { endpoint: `${host.replace(/\/$/, '')}/v3` }
+      : { host }
+  );
+  return client.stack({
+    api_key: apiKey!,
+    management_token: managementToken,
+  });
+}
@@ -0,0 +1,487 @@
+/**
+ * Content Model Migrations
+ *
+ * Numbered migration files change content types and rewrite entries
+ * through the management SDK. Which migrations a stack has applied is
+ * recorded in the stack itself, as entries of a `content_migrations`
+ * content type, so every environment can be brought to the same state.
+ */
+import { readdir } from 'node:fs/promises';
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { Stack } from '@contentstack/management/types/stack';
+import type { ContentTypeSchema, FieldSchema } from './schema';
+
+// ============================================
+// Types
+// ============================================
+
+export type EntryData = Record<string, unknown> & { uid: string };
+
+/**
+ * Returns the field values to change on an entry, or nothing to leave
+ * the entry alone
+ */
+export type EntryTransform = (
+  entry: EntryData
+) =>
+  | Record<string, unknown>
+  | null
+  | undefined
+  | Promise<Record<string, unknown> | null | undefined>;
+
+export interface MigrationContext {
+  stack: Stack;
+  log: (message: string) => void;
+  /** Add a field, after `after` or at the end */
+  addField: (
+    contentType: string,
+    field: FieldSchema,
+    options?: { after?: string }
+  ) => Promise<void>;
+  removeField: (contentType: string, uid: string) => Promise<void>;
+  /** Move a field's values to a new UID, keeping its definition */
+  renameField: (
+    contentType: string,
+    from: string,
+    to: string
+  ) => Promise<void>;
+  /**
+   * Rewrite every entry of a content type. Entries that were published
+   * are published again. Returns how many changed.
+   */
+  transformEntries: (
+    contentType: string,
+    transform: EntryTransform
+  ) => Promise<number>;
+}
+
+export interface Migration {
+  description: string;
+  up: (context: MigrationContext) => Promise<void>;
+  down: (context: MigrationContext) => Promise<void>;
+}
+
+export interface LoadedMigration {
+  /** The file name without its extension, e.g. `0001-add-reading-time` */
+  id: string;
+  migration: Migration;
+}
+
+export interface MigrationStatus {
+  id: string;
+  description: string;
+  /** When it was applied, or null while pending */
+  appliedAt: string | null;
+  /** Applied to the stack, but the file is gone */
+  missing: boolean;
+}
+
+interface AppliedMigration {
+  entryUid: string;
+  id: string;
+  appliedAt: string;
+}
+
+// ============================================
+// Loading
+// ============================================
+
+export const DEFAULT_MIGRATIONS_DIR = 'migrations';
+
+const MIGRATION_FILE = /^(\d+)-[\w-]+\.ts$/;
+
+/**
+ * Order migration IDs by their number
+ */
+function compareIds(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true });
+}
+
+function isMigration(value: unknown): value is Migration {
+  const migration = value as Partial<Migration> | null;
+  return (
+    typeof migration?.description === 'string' &&
+    typeof migration.up === 'function' &&
+    typeof migration.down === 'function'
+  );
+}
+
+/**
+ * Load the migrations in a directory, in number order. Each file is
+ * named `<number>-<name>.ts` and default-exports a Migration.
+ */
+export async function loadMigrations(
+  dir: string
+): Promise<LoadedMigration[]> {
+  const files = (await readdir(dir)).filter((file) =>
+    MIGRATION_FILE.test(file)
+  );
+  const number = (file: string) => Number(MIGRATION_FILE.exec(file)![1]);
+  files.sort((a, b) => number(a) - number(b));
+
+  const migrations: LoadedMigration[] = [];
+  for (const [index, file] of files.entries()) {
+    if (index > 0 && number(file) === number(files[index - 1])) {
+      throw new Error(`${file} and ${files[index - 1]} share a number`);
+    }
+
+    const module = await import(pathToFileURL(resolve(dir, file)).href);
+    if (!isMigration(module.default)) {
+      throw new Error(`${file} must default-export { description, up, down }`);
+    }
+    migrations.push({
+      id: file.replace(/\.ts$/, ''),
+      migration: module.default,
+    });
+  }
+  return migrations;
+}
+
+// ============================================
+// Context
+// ============================================
+
+const PAGE_SIZE = 100;
+
+type PublishDetails = { environment: string; locale: string };
+
+/**
+ * The operations migrations are written with
+ */
+export function createMigrationContext(
+  stack: Stack,
+  log: (message: string) => void = console.log
+): MigrationContext {
+  let environmentNames: Map<string, string> | null = null;
+
+  // Publish details name environments by UID; publishing takes names
+  const environmentName = async (uid: string) => {
+    if (!environmentNames) {
+      const { items } = await stack.environment().query().find();
+      environmentNames = new Map(items.map((env) => [env.uid, env.name]));
+    }
+    return environmentNames.get(uid) ?? uid;
+  };
+
+  const fetchType = (contentType: string) =>
+    stack.contentType(contentType).fetch();
+  const schemaOf = (type: Awaited<ReturnType<typeof fetchType>>) =>
+    (type as unknown as ContentTypeSchema).schema;
+
+  // Stacks set up from the current schema file already have the
+  // fields older migrations add, so adding and removing skip fields
+  // that are already in place
+  const addField: MigrationContext['addField'] = async (
+    contentType,
+    field,
+    { after } = {}
+  ) => {
+    const type = await fetchType(contentType);
+    const schema = schemaOf(type);
+    if (schema.some((existing) => existing.uid === field.uid)) {
+      log(`✅ ${contentType}.${field.uid} already exists`);
+      return;
+    }
+
+    const index = after
+      ? schema.findIndex((existing) => existing.uid === after)
+      : schema.length - 1;
+    if (index === -1) throw new Error(`${contentType} has no field ${after}`);
+
+    type.schema = [
+      ...schema.slice(0, index + 1),
+      field,
+      ...schema.slice(index + 1),
+    ];
+    await type.update();
+    log(`✏️  Added ${contentType}.${field.uid}`);
+  };
+
+  const removeField: MigrationContext['removeField'] = async (
+    contentType,
+    uid
+  ) => {
+    const type = await fetchType(contentType);
+    const schema = schemaOf(type);
+    if (!schema.some((field) => field.uid === uid)) {
+      log(`✅ ${contentType}.${uid} is already gone`);
+      return;
+    }
+
+    type.schema = schema.filter((field) => field.uid !== uid);
+    await type.update();
+    log(`✏️  Removed ${contentType}.${uid}`);
+  };
+
+  const transformEntries: MigrationContext['transformEntries'] = async (
+    contentType,
+    transform
+  ) => {
+    let changed = 0;
+    for (let skip = 0; ; skip += PAGE_SIZE) {
+      const { items } = await stack
+        .contentType(contentType)
+        .entry()
+        .query({ skip, limit: PAGE_SIZE })
+        .find();
+
+      for (const entry of items) {
+        const changes = await transform(entry as unknown as EntryData);
+        if (!changes) continue;
+
+        Object.assign(entry, changes);
+        await entry.update();
+        changed++;
+
+        const published = [entry.publish_details ?? []].flat();
+        for (const { environment, locale } of published as PublishDetails[]) {
+          await entry.publish({
+            publishDetails: {
+              environments: [await environmentName(environment)],
+              locales: [locale],
+            },
+            locale,
+          });
+        }
+      }
+      if (items.length < PAGE_SIZE) break;
+    }
+    log(`✏️  Updated ${changed} ${contentType} entries`);
+    return changed;
+  };
+
+  const renameField: MigrationContext['renameField'] = async (
+    contentType,
+    from,
+    to
+  ) => {
+    const field = schemaOf(await fetchType(contentType)).find(
+      (existing) => existing.uid === from
+    );
+    if (!field) throw new Error(`${contentType} has no field ${from}`);
+
+    await addField(contentType, { ...field, uid: to }, { after: from });
+    await transformEntries(contentType, (entry) =>
+      entry[from] === undefined ? null : { [to]: entry[from] }
+    );
+    await removeField(contentType, from);
+  };
+
+  return {
+    stack,
+    log,
+    addField,
+    removeField,
+    renameField,
+    transformEntries,
+  };
+}
+
+// ============================================
+// Applied Migrations
+// ============================================
+
+export const MIGRATIONS_CONTENT_TYPE = 'content_migrations';
+
+const migrationsContentType = {
+  uid: MIGRATIONS_CONTENT_TYPE,
+  title: 'Content Migrations',
+  description: 'Applied content model migrations. Managed by npm run migrate.',
+  schema: [
+    {
+      display_name: 'Migration',
+      uid: 'title',
+      data_type: 'text',
+      mandatory: true,
+      unique: true,
+    },
+    {
+      display_name: 'Description',
+      uid: 'description',
+      data_type: 'text',
+    },
+    {
+      display_name: 'Applied At',
+      uid: 'applied_at',
+      data_type: 'isodate',
+    },
+  ],
+  options: { is_page: false, singleton: false, title: 'title', sub_title: [] },
+};
+
+/**
+ * The record of applied migrations, kept as entries in the stack
+ */
+class MigrationLog {
+  private readonly stack: Stack;
+  private ready = false;
+
+  constructor(stack: Stack) {
+    this.stack = stack;
+  }
+
+  private entries() {
+    return this.stack.contentType(MIGRATIONS_CONTENT_TYPE).entry();
+  }
+
+  /**
+   * Whether the content type the log is stored in exists yet
+   */
+  private async exists(): Promise<boolean> {
+    if (this.ready) return true;
+    const { items } = await this.stack
+      .contentType()
+      .query({ include_count: false })
+      .find();
+    this.ready = items.some((type) => type.uid === MIGRATIONS_CONTENT_TYPE);
+    return this.ready;
+  }
+
+  /**
+   * Create the content type the log is stored in, once. Only writes
+   * call this, so reading the log leaves the stack untouched.
+   */
+  private async ensure(): Promise<void> {
+    if (await this.exists()) return;
+    await this.stack
+      .contentType()
+      .create({ content_type: migrationsContentType });
+    console.log(`📦 Created the ${MIGRATIONS_CONTENT_TYPE} content type`);
+    this.ready = true;
+  }
+
+  async list(): Promise<AppliedMigration[]> {
+    // Nothing has been applied to a stack without a log
+    if (!(await this.exists())) return [];
+    const applied: AppliedMigration[] = [];
+    for (let skip = 0; ; skip += PAGE_SIZE) {
+      const { items } = await this.entries()
+        .query({ skip, limit: PAGE_SIZE })
+        .find();
+      applied.push(
+        ...items.map((entry) => ({
+          entryUid: entry.uid,
+          id: String(entry.title),
+          appliedAt: String(entry.applied_at),
+        }))
+      );
+      if (items.length < PAGE_SIZE) break;
+    }
+    return applied.sort((a, b) => compareIds(a.id, b.id));
+  }
+
+  async record({ id, migration }: LoadedMigration): Promise<void> {
+    await this.ensure();
+    await this.entries().create({
+      entry: {
+        title: id,
+        description: migration.description,
+        applied_at: new Date().toISOString(),
+      },
+    });
+  }
+
+  async remove(applied: AppliedMigration): Promise<void> {
+    await this.stack
+      .contentType(MIGRATIONS_CONTENT_TYPE)
+      .entry(applied.entryUid)
+      .delete();
+  }
+}
+
+// ============================================
+// Runner
+// ============================================
+
+export class MigrationRunner {
+  private readonly migrations: LoadedMigration[];
+  private readonly log: MigrationLog;
+  private readonly context: MigrationContext;
+
+  constructor(stack: Stack, migrations: LoadedMigration[]) {
+    this.migrations = migrations;
+    this.log = new MigrationLog(stack);
+    this.context = createMigrationContext(stack);
+  }
+
+  /**
+   * Every migration, local or applied, in order
+   */
+  async status(): Promise<MigrationStatus[]> {
+    const applied = new Map(
+      (await this.log.list()).map((record) => [record.id, record])
+    );
+    const local = this.migrations.map(({ id, migration }) => ({
+      id,
+      description: migration.description,
+      appliedAt: applied.get(id)?.appliedAt ?? null,
+      missing: false,
+    }));
+    const missing = [...applied.values()]
+      .filter((record) => !this.migrations.some(({ id }) => id === record.id))
+      .map((record) => ({
+        id: record.id,
+        description: '',
+        appliedAt: record.appliedAt,
+        missing: true,
+      }));
+
+    return [...local, ...missing].sort((a, b) => compareIds(a.id, b.id));
+  }
+
+  /**
+   * Apply pending migrations in order, up to and including `target`.
+   * Stops at the first failure; earlier migrations stay applied.
+   */
+  async up(target?: string): Promise<string[]> {
+    const applied = new Set((await this.log.list()).map(({ id }) => id));
+    const last = target
+      ? this.migrations.findIndex(({ id }) => id === target)
+      : this.migrations.length - 1;
+    if (last === -1) throw new Error(`No migration ${target}`);
+
+    const done: string[] = [];
+    for (const loaded of this.migrations.slice(0, last + 1)) {
+      if (applied.has(loaded.id)) continue;
+
+      console.log(`⏳ Applying ${loaded.id}: ${loaded.migration.description}`);
+      await loaded.migration.up(this.context);
+      await this.log.record(loaded);
+      done.push(loaded.id);
+      console.log(`✅ Applied ${loaded.id}`);
+    }
+    return done;
+  }
+
+  /**
+   * Revert the latest applied migrations: `steps` of them, or all
+   * applied after `target`
+   */
+  async down({
+    steps = 1,
+    target,
+  }: { steps?: number; target?: string } = {}): Promise<string[]> {
+    const applied = (await this.log.list()).reverse();
+    const toRevert = target
+      ? applied.filter(({ id }) => compareIds(id, target) > 0)
+      : applied.slice(0, steps);
+
+    const done: string[] = [];
+    for (const record of toRevert) {
+      const loaded = this.migrations.find(({ id }) => id === record.id);
+      if (!loaded) {
+        throw new Error(
+          `${record.id} is applied but its file is missing, so it cannot be reverted`
+        );
+      }
+
+      console.log(`⏳ Reverting ${loaded.id}: ${loaded.migration.description}`);
+      await loaded.migration.down(this.context);
+      await this.log.remove(record);
+      done.push(loaded.id);
+      console.log(`✅ Reverted ${loaded.id}`);
+    }
+    return done;
+  }
+}
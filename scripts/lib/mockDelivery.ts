@@ -0,0 +1,254 @@
+/**
+ * Mock Content Delivery API
+ *
+ * A local HTTP server for the Delivery API endpoints the client reads:
+ * entry queries, single entries and sync. Answers come from fixtures,
+ * evaluated by the same FixtureBackend the app uses offline, and only
+ * requests carrying the stack's `api_key` and `access_token` headers
+ * get them. Point `VITE_CONTENTSTACK_HOST` at it, or a client's `host`
+ * in tests, and use `fail()` and `setLatency()` to have it answer with
+ * errors or slowly on demand.
+ */
+import { readFile, readdir } from 'node:fs/promises';
+import path from 'node:path';
+import { createServer, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { isContentstackError } from '../../src/lib/errors';
+import {
+  FixtureBackend,
+  type FixtureSet,
+  type FixtureSource,
+} from '../../src/lib/fixtures';
+
+// ============================================
+// Types
+// ============================================
+
+export interface MockDeliveryOptions {
+  apiKey: string;
+  deliveryToken: string;
+  /** Entries served, by content type */
+  fixtures: FixtureSource;
+  /** Port to listen on; 0 picks a free one */
+  port?: number;
+  /** Delay before every response, in milliseconds */
+  latency?: number;
+}
+
+export interface InjectedFailure {
+  /** Status to answer with, e.g. 401, 404, 429 or 503 */
+  status: number;
+  /** Only fail requests whose path contains this */
+  path?: string;
+  /** Number of requests to fail (default: 1) */
+  times?: number;
+  /** `Retry-After` header value, in seconds */
+  retryAfter?: number;
+}
+
+export interface DeliveryRequest {
+  method: string;
+  /** Path without the API version, e.g. `/content_types/author/entries` */
+  path: string;
+  query: URLSearchParams;
+}
+
+export interface MockDeliveryServer {
+  /** Base URL without the API version, e.g. `http://127.0.0.1:4020` */
+  url: string;
+  /** Every request received, oldest first */
+  requests: DeliveryRequest[];
+  /** Fail upcoming requests; failures are used in the order added */
+  fail: (failure: InjectedFailure) => void;
+  /** Delay before every response, in milliseconds */
+  setLatency: (latency: number) => void;
+  /** Forget recorded requests, pending failures and latency */
+  reset: () => void;
+  close: () => Promise<void>;
+}
+
+export const DEFAULT_FIXTURES_DIR = 'src/fixtures';
+
+// Error bodies the Delivery API sends, by status
+const ERRORS: Record<number, { code: number; message: string }> = {
+  401: {
+    code: 105,
+    message: "You're not allowed in here unless you're logged in.",
+  },
+  404: { code: 404, message: "The page you're looking for doesn't exist." },
+  412: { code: 109, message: "We can't find that Stack. Please try again." },
+  422: { code: 141, message: "The requested entry doesn't exist." },
+  429: { code: 429, message: 'Too many requests. Please try again later.' },
+};
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Read every `<content type>.json` in a directory of fixtures, such as
+ * the app's own `src/fixtures`
+ */
+export async function readFixtures(
+  dir = DEFAULT_FIXTURES_DIR
+): Promise<FixtureSet> {
+  const files = (await readdir(dir)).filter((file) => file.endsWith('.json'));
+  const fixtures: FixtureSet = {};
+  for (const file of files) {
+    fixtures[path.basename(file, '.json')] = JSON.parse(
+      await readFile(path.join(dir, file), 'utf8')
+    );
+  }
+  return fixtures;
+}
+
+function send(
+  response: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {}
+) {
+  response.writeHead(status, {
+    'content-type': 'application/json',
+    'access-control-allow-origin': '*',
+    ...headers,
+  });
+  response.end(JSON.stringify(body));
+}
+
+function sendError(
+  response: ServerResponse,
+  status: number,
+  message?: string,
+  headers?: Record<string, string>
+) {
+  const known = ERRORS[status];
+  send(
+    response,
+    status,
+    {
+      error_message: message ?? known?.message ?? 'Internal server error.',
+      error_code: known?.code ?? status,
+      errors: {},
+    },
+    headers
+  );
+}
+
+// ============================================
+// Server
+// ============================================
+
+/**
+ * Start a mock Delivery API on 127.0.0.1
+ */
+export function startMockDeliveryServer(
+  options: MockDeliveryOptions
+): Promise<MockDeliveryServer> {
+  const backend = new FixtureBackend(options.fixtures);
+  const requests: DeliveryRequest[] = [];
+  const failures: { failure: InjectedFailure; remaining: number }[] = [];
+  let latency = options.latency ?? 0;
+
+  /**
+   * Take the next injected failure that applies to a path
+   */
+  const takeFailure = (requestPath: string): InjectedFailure | null => {
+    const index = failures.findIndex(
+      ({ failure }) => !failure.path || requestPath.includes(failure.path)
+    );
+    if (index === -1) return null;
+
+    const next = failures[index];
+    if (--next.remaining === 0) failures.splice(index, 1);
+    return next.failure;
+  };
+
+  const server = createServer(async (request, response) => {
+    // Browsers preflight the custom credential headers
+    if (request.method === 'OPTIONS') {
+      response.writeHead(204, {
+        'access-control-allow-origin': '*',
+        'access-control-allow-headers': 'api_key, access_token, content-type',
+      });
+      response.end();
+      return;
+    }
+
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    const requestPath = url.pathname.replace(/^\/v3/, '');
+    requests.push({
+      method: request.method ?? 'GET',
+      path: requestPath,
+      query: url.searchParams,
+    });
+
+    if (latency > 0) {
+      await new Promise((resolve) => setTimeout(resolve, latency));
+    }
+
+    const failure = takeFailure(requestPath);
+    if (failure) {
+      sendError(
+        response,
+        failure.status,
+        undefined,
+        failure.retryAfter !== undefined
+          ? { 'retry-after': String(failure.retryAfter) }
+          : {}
+      );
+      return;
+    }
+
+    if (request.headers.api_key !== options.apiKey) {
+      sendError(response, 412);
+      return;
+    }
+    if (request.headers.access_token !== options.deliveryToken) {
+      sendError(response, 401);
+      return;
+    }
+    if (request.method !== 'GET') {
+      sendError(response, 404);
+      return;
+    }
+
+    try {
+      send(response, 200, await backend.respond(url.href));
+    } catch (error) {
+      if (isContentstackError(error) && error.status) {
+        sendError(response, error.status, error.message);
+      } else {
+        sendError(response, 500, String(error));
+      }
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        requests,
+        fail: (failure) => {
+          failures.push({ failure, remaining: failure.times ?? 1 });
+        },
+        setLatency: (value) => {
+          latency = value;
+        },
+        reset: () => {
+          requests.length = 0;
+          failures.length = 0;
+          latency = options.latency ?? 0;
+        },
+        close: () =>
+          new Promise((done, fail) => {
+            // Keep-alive sockets would hold the server open
+            server.closeAllConnections();
+            server.close((error) => (error ? fail(error) : done()));
+          }),
+      });
+    });
+  });
+}
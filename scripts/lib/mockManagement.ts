@@ -0,0 +1,558 @@
+/**
+ * Mock Content Management API
+ *
+ * An in-memory stand-in for the parts of the Content Management API
+ * the scripts use: content types, global fields, environments, locales,
+ * assets and entries, including publishing. Point
+ * `CONTENTSTACK_MANAGEMENT_HOST` at it to try migrations, seeding
+ * or imports without touching a real stack. Each entry holds a single
+ * locale; localizing an entry replaces it.
+ */
+import { randomBytes } from 'node:crypto';
+import {
+  createServer,
+  type IncomingMessage,
+  type ServerResponse,
+} from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { StackSchema } from './schema';
+
+// ============================================
+// Types
+// ============================================
+
+export interface MockManagementOptions {
+  apiKey: string;
+  managementToken: string;
+  /** Content types and global fields the stack starts with */
+  schema?: StackSchema;
+  /** Port to listen on; 0 picks a free one */
+  port?: number;
+}
+
+type Doc = Record<string, unknown> & { uid: string };
+
+export interface MockStack {
+  contentTypes: Map<string, Doc>;
+  globalFields: Map<string, Doc>;
+  environments: Map<string, Doc>;
+  /** Locales by code */
+  locales: Map<string, Doc>;
+  assets: Map<string, Doc>;
+  /** Uploaded asset files by asset UID */
+  files: Map<string, Buffer>;
+  /** Entries by content type, then UID */
+  entries: Map<string, Map<string, Doc>>;
+}
+
+export interface MockManagementServer {
+  /** Base URL without the API version, e.g. `http://127.0.0.1:4010` */
+  url: string;
+  stack: MockStack;
+  close: () => Promise<void>;
+}
+
+interface MockRequest {
+  params: string[];
+  query: URLSearchParams;
+  body: Record<string, unknown>;
+  /** Fields and files of a multipart form upload */
+  form: Map<string, FormPart>;
+  /** The server's own base URL */
+  origin: string;
+}
+
+interface FormPart {
+  value: Buffer;
+  filename?: string;
+  contentType?: string;
+}
+
+interface MockResponse {
+  status?: number;
+  body: unknown;
+}
+
+type Handler = (request: MockRequest) => MockResponse;
+
+// Thrown by handlers to send an API error response
+class ApiError extends Error {
+  readonly status: number;
+  readonly code: number;
+
+  constructor(status: number, code: number, message: string) {
+    super(message);
+    this.status = status;
+    this.code = code;
+  }
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function uid(): string {
+  return `blt${randomBytes(8).toString('hex')}`;
+}
+
+function now(): string {
+  return new Date().toISOString();
+}
+
+function notFound(what: string): ApiError {
+  return new ApiError(422, 118, `${what} was not found.`);
+}
+
+/**
+ * Match an entry against a Delivery-style query: field equality plus
+ * `$in`, `$ne` and `$exists`
+ */
+function matches(entry: Doc, filter: Record<string, unknown>): boolean {
+  return Object.entries(filter).every(([field, condition]) => {
+    const value = entry[field];
+    if (condition === null || typeof condition !== 'object') {
+      return value === condition;
+    }
+
+    const operators = condition as Record<string, unknown>;
+    if ('$in' in operators) {
+      return (operators.$in as unknown[]).includes(value);
+    }
+    if ('$ne' in operators) return value !== operators.$ne;
+    if ('$exists' in operators) {
+      return (value !== undefined) === operators.$exists;
+    }
+    return false;
+  });
+}
+
+/**
+ * Apply `skip` and `limit`, and `include_count` when asked
+ */
+function page(
+  key: string,
+  items: Doc[],
+  query: URLSearchParams
+): Record<string, unknown> {
+  const skip = Number(query.get('skip') ?? 0);
+  const limit = Number(query.get('limit') ?? 100);
+  return {
+    [key]: items.slice(skip, skip + limit),
+    ...(query.get('include_count') === 'true' && { count: items.length }),
+  };
+}
+
+function readBody(request: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    request.on('data', (chunk: Buffer) => chunks.push(chunk));
+    request.on('end', () => resolve(Buffer.concat(chunks)));
+    request.on('error', reject);
+  });
+}
+
+function parseJson(data: Buffer): Record<string, unknown> {
+  if (data.length === 0) return {};
+  try {
+    return JSON.parse(data.toString('utf8'));
+  } catch {
+    throw new ApiError(400, 100, 'Request body is not valid JSON.');
+  }
+}
+
+/**
+ * Split a `multipart/form-data` body into its named parts
+ */
+function parseForm(data: Buffer, boundary: string): Map<string, FormPart> {
+  const parts = new Map<string, FormPart>();
+  // latin1 maps every byte to one character, so file data survives
+  const sections = data.toString('latin1').split(`--${boundary}`);
+  for (const section of sections.slice(1, -1)) {
+    const split = section.indexOf('\r\n\r\n');
+    const headers = section.slice(0, split);
+    const name = /name="([^"]*)"/.exec(headers)?.[1];
+    if (!name) continue;
+
+    parts.set(name, {
+      value: Buffer.from(section.slice(split + 4, -2), 'latin1'),
+      filename: /filename="([^"]*)"/.exec(headers)?.[1],
+      contentType: /content-type:\s*(\S+)/i.exec(headers)?.[1],
+    });
+  }
+  return parts;
+}
+
+function send(response: ServerResponse, status: number, body: unknown) {
+  response.writeHead(status, { 'content-type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
+
+// ============================================
+// Routes
+// ============================================
+
+/**
+ * CRUD routes for a collection of schemas keyed by UID
+ */
+function schemaRoutes(
+  collection: Map<string, Doc>,
+  singular: string,
+  plural: string,
+  label: string
+): Record<string, Handler> {
+  return {
+    [`GET /${plural}`]: ({ query }) => ({
+      body: page(plural, [...collection.values()], query),
+    }),
+    [`POST /${plural}`]: ({ body }) => {
+      const data = body[singular] as Doc;
+      if (collection.has(data.uid)) {
+        throw new ApiError(422, 115, `${label} '${data.uid}' already exists.`);
+      }
+      const stored = { ...data, created_at: now(), updated_at: now() };
+      collection.set(data.uid, stored);
+      return {
+        status: 201,
+        body: { notice: `${label} created successfully.`, [singular]: stored },
+      };
+    },
+    [`GET /${plural}/:uid`]: ({ params: [id] }) => {
+      const stored = collection.get(id);
+      if (!stored) throw notFound(`${label} '${id}'`);
+      return { body: { [singular]: stored } };
+    },
+    [`PUT /${plural}/:uid`]: ({ params: [id], body }) => {
+      const stored = collection.get(id);
+      if (!stored) throw notFound(`${label} '${id}'`);
+      const updated = {
+        ...stored,
+        ...(body[singular] as Doc),
+        uid: id,
+        updated_at: now(),
+      };
+      collection.set(id, updated);
+      return {
+        body: { notice: `${label} updated successfully.`, [singular]: updated },
+      };
+    },
+    [`DELETE /${plural}/:uid`]: ({ params: [id] }) => {
+      if (!collection.delete(id)) throw notFound(`${label} '${id}'`);
+      return { body: { notice: `${label} deleted successfully.` } };
+    },
+  };
+}
+
+function createRoutes(stack: MockStack): Record<string, Handler> {
+  const entriesOf = (contentType: string) => {
+    if (!stack.contentTypes.has(contentType)) {
+      throw notFound(`The Content Type '${contentType}'`);
+    }
+    let entries = stack.entries.get(contentType);
+    if (!entries) {
+      entries = new Map();
+      stack.entries.set(contentType, entries);
+    }
+    return entries;
+  };
+  const entryOf = (contentType: string, id: string) => {
+    const entry = entriesOf(contentType).get(id);
+    if (!entry) throw notFound(`Entry '${id}'`);
+    return entry;
+  };
+
+  return {
+    ...schemaRoutes(
+      stack.contentTypes,
+      'content_type',
+      'content_types',
+      'Content Type'
+    ),
+    ...schemaRoutes(
+      stack.globalFields,
+      'global_field',
+      'global_fields',
+      'Global Field'
+    ),
+
+    'GET /environments': ({ query }) => ({
+      body: page('environments', [...stack.environments.values()], query),
+    }),
+    'POST /environments': ({ body }) => {
+      const data = body.environment as Record<string, unknown>;
+      const name = String(data.name);
+      if ([...stack.environments.values()].some((env) => env.name === name)) {
+        throw new ApiError(422, 115, `Environment '${name}' already exists.`);
+      }
+      const stored = { ...data, uid: uid(), created_at: now() };
+      stack.environments.set(stored.uid, stored);
+      return {
+        status: 201,
+        body: {
+          notice: 'Environment created successfully.',
+          environment: stored,
+        },
+      };
+    },
+
+    'GET /locales': ({ query }) => ({
+      body: page('locales', [...stack.locales.values()], query),
+    }),
+    'POST /locales': ({ body }) => {
+      const data = body.locale as Record<string, unknown>;
+      const code = String(data.code);
+      if (stack.locales.has(code)) {
+        throw new ApiError(422, 247, `Language '${code}' already exists.`);
+      }
+      const stored = {
+        name: code,
+        fallback_locale: null,
+        ...data,
+        code,
+        uid: uid(),
+        created_at: now(),
+      };
+      stack.locales.set(code, stored);
+      return {
+        status: 201,
+        body: { notice: 'Language added successfully.', locale: stored },
+      };
+    },
+
+    'GET /assets': ({ query }) => ({
+      body: page('assets', [...stack.assets.values()], query),
+    }),
+    'POST /assets': ({ form, origin }) => {
+      const upload = form.get('asset[upload]');
+      if (!upload) throw new ApiError(422, 141, 'Please select a file.');
+      const text = (name: string) => form.get(`asset[${name}]`)?.toString();
+
+      const id = uid();
+      const filename = upload.filename ?? 'uploaded_file';
+      const asset: Doc = {
+        uid: id,
+        title: text('title') ?? filename,
+        description: text('description') ?? '',
+        tags: text('tags')?.split(',').filter(Boolean) ?? [],
+        filename,
+        content_type: upload.contentType ?? 'application/octet-stream',
+        file_size: String(upload.value.length),
+        url: `${origin}/files/${id}/${encodeURIComponent(filename)}`,
+        created_at: now(),
+        updated_at: now(),
+      };
+      stack.assets.set(id, asset);
+      stack.files.set(id, upload.value);
+      return {
+        status: 201,
+        body: { notice: 'Asset created successfully.', asset },
+      };
+    },
+
+    'GET /content_types/:ct/entries': ({ params: [ct], query }) => {
+      const filter = JSON.parse(query.get('query') ?? '{}');
+      const entries = [...entriesOf(ct).values()].filter((entry) =>
+        matches(entry, filter)
+      );
+      return { body: page('entries', entries, query) };
+    },
+    'POST /content_types/:ct/entries': ({ params: [ct], query, body }) => {
+      const entry: Doc = {
+        ...(body.entry as Record<string, unknown>),
+        uid: uid(),
+        locale: query.get('locale') ?? 'en-us',
+        _version: 1,
+        created_at: now(),
+        updated_at: now(),
+        publish_details: [],
+      };
+      entriesOf(ct).set(entry.uid, entry);
+      return {
+        status: 201,
+        body: { notice: 'Entry created successfully.', entry },
+      };
+    },
+    'GET /content_types/:ct/entries/:uid': ({ params: [ct, id] }) => ({
+      body: { entry: entryOf(ct, id) },
+    }),
+    'PUT /content_types/:ct/entries/:uid': ({ params: [ct, id], body }) => {
+      const stored = entryOf(ct, id);
+      const updated: Doc = {
+        ...(body.entry as Record<string, unknown>),
+        uid: id,
+        locale: stored.locale,
+        _version: Number(stored._version) + 1,
+        created_at: stored.created_at,
+        updated_at: now(),
+        publish_details: stored.publish_details,
+      };
+      entriesOf(ct).set(id, updated);
+      return {
+        body: { notice: 'Entry updated successfully.', entry: updated },
+      };
+    },
+    'DELETE /content_types/:ct/entries/:uid': ({ params: [ct, id] }) => {
+      entryOf(ct, id);
+      entriesOf(ct).delete(id);
+      return { body: { notice: 'Entry deleted successfully.' } };
+    },
+    'POST /content_types/:ct/entries/:uid/publish': ({
+      params: [ct, id],
+      body,
+    }) => {
+      const entry = entryOf(ct, id);
+      const { environments = [], locales = [] } = (body.entry ?? {}) as {
+        environments?: string[];
+        locales?: string[];
+      };
+      const details = environments.flatMap((name) => {
+        const env = [...stack.environments.values()].find(
+          (candidate) => candidate.name === name || candidate.uid === name
+        );
+        if (!env) throw notFound(`Environment '${name}'`);
+        return locales.map((locale) => ({
+          environment: env.uid,
+          locale,
+          version: entry._version,
+          time: now(),
+        }));
+      });
+      entry.publish_details = details;
+      return { body: { notice: 'The requested action has been performed.' } };
+    },
+  };
+}
+
+/**
+ * Find the handler for a request path, capturing `:param` segments
+ */
+function route(
+  routes: Record<string, Handler>,
+  method: string,
+  path: string
+): { handler: Handler; params: string[] } | null {
+  const parts = path.split('/').filter(Boolean);
+  for (const [key, handler] of Object.entries(routes)) {
+    const [routeMethod, pattern] = key.split(' ');
+    const patternParts = pattern.split('/').filter(Boolean);
+    if (routeMethod !== method || patternParts.length !== parts.length) {
+      continue;
+    }
+
+    const params: string[] = [];
+    const matched = patternParts.every((part, index) => {
+      if (part.startsWith(':')) {
+        params.push(decodeURIComponent(parts[index]));
+        return true;
+      }
+      return part === parts[index];
+    });
+    if (matched) return { handler, params };
+  }
+  return null;
+}
+
+// ============================================
+// Server
+// ============================================
+
+/**
+ * Start a mock management API for one stack
+ */
+export function startMockManagementServer(
+  options: MockManagementOptions
+): Promise<MockManagementServer> {
+  const stack: MockStack = {
+    contentTypes: new Map(),
+    globalFields: new Map(),
+    environments: new Map(),
+    locales: new Map([
+      [
+        'en-us',
+        {
+          uid: uid(),
+          code: 'en-us',
+          name: 'English - United States',
+          fallback_locale: null,
+        },
+      ],
+    ]),
+    assets: new Map(),
+    files: new Map(),
+    entries: new Map(),
+  };
+  for (const contentType of options.schema?.content_types ?? []) {
+    stack.contentTypes.set(contentType.uid, { ...contentType });
+  }
+  for (const globalField of options.schema?.global_fields ?? []) {
+    stack.globalFields.set(globalField.uid, { ...globalField });
+  }
+  const routes = createRoutes(stack);
+
+  const server = createServer(async (request, response) => {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+
+    // Asset files are public, like the CDN URLs they stand in for
+    const file = /^\/files\/(\w+)\//.exec(url.pathname);
+    if (file && stack.files.has(file[1])) {
+      const asset = stack.assets.get(file[1])!;
+      response.writeHead(200, { 'content-type': String(asset.content_type) });
+      response.end(stack.files.get(file[1]));
+      return;
+    }
+
+    try {
+      if (
+        request.headers.api_key !== options.apiKey ||
+        request.headers.authorization !== options.managementToken
+      ) {
+        throw new ApiError(
+          401,
+          105,
+          "You're not allowed in here unless you're logged in."
+        );
+      }
+
+      const path = url.pathname.replace(/^\/v3/, '');
+      const match = route(routes, request.method ?? 'GET', path);
+      if (!match) throw new ApiError(404, 404, `No route for ${path}`);
+
+      const data = await readBody(request);
+      const boundary = /multipart\/form-data;.*boundary=([^;]+)/.exec(
+        request.headers['content-type'] ?? ''
+      )?.[1];
+      const result = match.handler({
+        params: match.params,
+        query: url.searchParams,
+        body: boundary ? {} : parseJson(data),
+        form: boundary ? parseForm(data, boundary) : new Map(),
+        origin: `http://${request.headers.host}`,
+      });
+      send(response, result.status ?? 200, result.body);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        send(response, error.status, {
+          error_message: error.message,
+          error_code: error.code,
+          errors: {},
+        });
+      } else {
+        send(response, 500, { error_message: String(error), error_code: 0 });
+      }
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://127.0.0.1:${port}`,
+        stack,
+        close: () =>
+          new Promise((done, fail) =>
+            server.close((error) => (error ? fail(error) : done()))
+          ),
+      });
+    });
+  });
+}
@@ -0,0 +1,272 @@
+/**
+ * Sample Content
+ *
+ * The entries `npm run setup` seeds a stack with. Each names the field
+ * that identifies it, so a second run finds it instead of creating a
+ * duplicate. References point at other samples by that same field.
+ */
+import { randomUUID } from 'node:crypto';
+
+// ============================================
+// Types
+// ============================================
+
+/** A reference to another sample, resolved to its UID when seeding */
+export class SampleRef {
+  readonly contentType: string;
+  readonly key: string;
+
+  constructor(contentType: string, key: string) {
+    this.contentType = contentType;
+    this.key = key;
+  }
+}
+
+export interface SampleEntry {
+  contentType: string;
+  /** Field whose value identifies the entry on the stack */
+  keyField: string;
+  fields: Record<string, unknown>;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function ref(contentType: string, key: string): SampleRef {
+  return new SampleRef(contentType, key);
+}
+
+function nodeUid(): string {
+  return randomUUID().replace(/-/g, '');
+}
+
+/**
+ * A JSON RTE document of plain paragraphs
+ */
+function richText(...paragraphs: string[]) {
+  return {
+    type: 'doc',
+    uid: nodeUid(),
+    attrs: {},
+    children: paragraphs.map((text) => ({
+      type: 'p',
+      uid: nodeUid(),
+      attrs: {},
+      children: [{ text }],
+    })),
+  };
+}
+
+// ============================================
+// Entries
+// ============================================
+
+const authors: SampleEntry[] = [
+  {
+    contentType: 'author',
+    keyField: 'title',
+    fields: {
+      title: 'Maya Chen',
+      bio:
+        'Maya leads frontend architecture and writes about composable stacks.',
+    },
+  },
+  {
+    contentType: 'author',
+    keyField: 'title',
+    fields: {
+      title: 'Lucas Weber',
+      bio: 'Lucas works on personalization and experimentation.',
+    },
+  },
+];
+
+const categories: SampleEntry[] = [
+  {
+    contentType: 'category',
+    keyField: 'slug',
+    fields: { title: 'Engineering', slug: 'engineering' },
+  },
+  {
+    contentType: 'category',
+    keyField: 'slug',
+    fields: { title: 'Personalization', slug: 'personalization' },
+  },
+];
+
+const products: SampleEntry[] = [
+  {
+    contentType: 'product',
+    keyField: 'slug',
+    fields: {
+      title: 'Studio Headphones',
+      slug: 'studio-headphones',
+      description:
+        'Closed-back headphones with active noise cancelling and a 40 hour battery.',
+      price: 249,
+      category: 'Electronics',
+      in_stock: true,
+      specifications: [
+        { label: 'Battery', value: '40 hours' },
+        { label: 'Weight', value: '260 g' },
+      ],
+    },
+  },
+  {
+    contentType: 'product',
+    keyField: 'slug',
+    fields: {
+      title: 'Merino Hoodie',
+      slug: 'merino-hoodie',
+      description: 'A midweight merino wool hoodie that works in any season.',
+      price: 129,
+      category: 'Apparel',
+      in_stock: true,
+      specifications: [{ label: 'Material', value: '100% merino wool' }],
+    },
+  },
+  {
+    contentType: 'product',
+    keyField: 'slug',
+    fields: {
+      title: 'Ceramic Pour-Over Set',
+      slug: 'ceramic-pour-over-set',
+      description: 'A hand-glazed dripper and carafe for slow morning coffee.',
+      price: 64,
+      category: 'Home',
+      in_stock: false,
+      specifications: [{ label: 'Capacity', value: '600 ml' }],
+    },
+  },
+  {
+    contentType: 'product',
+    keyField: 'slug',
+    fields: {
+      title: 'Composable Architecture Handbook',
+      slug: 'composable-architecture-handbook',
+      description:
+        'A practical guide to headless CMS, APIs and edge delivery.',
+      price: 39,
+      category: 'Books',
+      in_stock: true,
+      specifications: [{ label: 'Pages', value: '320' }],
+    },
+  },
+];
+
+const blogPosts: SampleEntry[] = [
+  {
+    contentType: 'blog_post',
+    keyField: 'url',
+    fields: {
+      title: 'Getting Started with a Headless CMS',
+      url: '/blog/getting-started-with-a-headless-cms',
+      summary:
+        'Why separating content from presentation makes every channel easier to build.',
+      body: richText(
+        'A headless CMS stores content as structured entries and delivers it over APIs, leaving the presentation to each channel.',
+        'This demo reads those entries with the Delivery API and renders them with React.'
+      ),
+      author_name: 'Maya Chen',
+      publish_date: '2025-01-15',
+      author: [ref('author', 'Maya Chen')],
+      category: [ref('category', 'engineering')],
+      related_products: [ref('product', 'composable-architecture-handbook')],
+      seo: {
+        meta_title: 'Getting Started with a Headless CMS',
+        meta_description:
+          'Why separating content from presentation makes every channel easier to build.',
+      },
+    },
+  },
+  {
+    contentType: 'blog_post',
+    keyField: 'url',
+    fields: {
+      title: 'Personalizing Hero Banners by Audience',
+      url: '/blog/personalizing-hero-banners-by-audience',
+      summary:
+        'Show returning visitors and EU visitors a banner written for them.',
+      body: richText(
+        'Personalize assigns each visitor a variant, and the app shows the hero banner published for that variant.',
+        'Every variant falls back to the default banner, so nobody sees an empty hero.'
+      ),
+      author_name: 'Lucas Weber',
+      publish_date: '2025-02-03',
+      author: [ref('author', 'Lucas Weber')],
+      category: [ref('category', 'personalization')],
+      related_products: [],
+      seo: {
+        meta_title: 'Personalizing Hero Banners by Audience',
+      },
+    },
+  },
+  {
+    contentType: 'blog_post',
+    keyField: 'url',
+    fields: {
+      title: 'Shipping Faster with Edge Delivery',
+      url: '/blog/shipping-faster-with-edge-delivery',
+      summary:
+        'Caching, image transforms and sync keep pages fast around the world.',
+      body: richText(
+        'Content served from the edge reaches visitors in milliseconds.',
+        'Pair it with the Image Delivery API to send each device the size it needs.'
+      ),
+      author_name: 'Maya Chen',
+      publish_date: '2025-03-10',
+      author: [ref('author', 'Maya Chen')],
+      category: [ref('category', 'engineering')],
+      related_products: [ref('product', 'studio-headphones')],
+    },
+  },
+];
+
+const heroBanners: SampleEntry[] = [
+  {
+    contentType: 'hero_banner',
+    keyField: 'variant_id',
+    fields: {
+      title: 'Build Digital Experiences That Convert',
+      subtitle:
+        'Compose content, personalize every visit and ship it worldwide from one platform.',
+      cta_text: 'Explore the demo',
+      cta_link: '/#products',
+      variant_id: 'variant_default',
+    },
+  },
+  {
+    contentType: 'hero_banner',
+    keyField: 'variant_id',
+    fields: {
+      title: 'Welcome Back',
+      subtitle:
+        'Pick up where you left off with the latest posts and products.',
+      cta_text: 'See what’s new',
+      cta_link: '/#content',
+      variant_id: 'variant_returning',
+    },
+  },
+  {
+    contentType: 'hero_banner',
+    keyField: 'variant_id',
+    fields: {
+      title: 'Digital Experiences for Europe',
+      subtitle:
+        'Localized content and GDPR-ready analytics for your European audience.',
+      cta_text: 'Learn more',
+      cta_link: '/#analytics',
+      variant_id: 'variant_eu',
+    },
+  },
+];
+
+/** Every sample, ordered so references point at earlier entries */
+export const sampleEntries: SampleEntry[] = [
+  ...authors,
+  ...categories,
+  ...products,
+  ...blogPosts,
+  ...heroBanners,
+];
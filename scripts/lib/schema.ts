@@ -0,0 +1,100 @@
+/**
+ * Content Type Schemas
+ *
+ * Types for Contentstack content type and global field schemas, and
+ * loaders that read them from an exported JSON file or the stack.
+ */
+import { readFile } from 'node:fs/promises';
+import type { Stack } from '@contentstack/management/types/stack';
+
+// ============================================
+// Types
+// ============================================
+
+export interface FieldSchema {
+  uid: string;
+  display_name: string;
+  data_type: string;
+  mandatory?: boolean;
+  unique?: boolean;
+  multiple?: boolean;
+  display_type?: string;
+  /** Content types of a reference, or the global field a field embeds */
+  reference_to?: string | string[];
+  /** Fields of a group or global field */
+  schema?: FieldSchema[];
+  /** Blocks of a modular blocks field */
+  blocks?: BlockSchema[];
+  enum?: {
+    advanced?: boolean;
+    choices: { value: string | number; key?: string }[];
+  };
+  field_metadata?: Record<string, unknown>;
+}
+
+export interface BlockSchema {
+  uid: string;
+  title: string;
+  schema?: FieldSchema[];
+  /** Set when the block is a global field */
+  reference_to?: string;
+}
+
+export interface ContentTypeSchema {
+  uid: string;
+  title: string;
+  description?: string;
+  schema: FieldSchema[];
+  options?: Record<string, unknown>;
+}
+
+export interface GlobalFieldSchema {
+  uid: string;
+  title: string;
+  description?: string;
+  schema: FieldSchema[];
+}
+
+export interface StackSchema {
+  content_types: ContentTypeSchema[];
+  global_fields: GlobalFieldSchema[];
+}
+
+export const DEFAULT_SCHEMA_PATH = 'schema/contentstack.json';
+
+// ============================================
+// Loaders
+// ============================================
+
+/**
+ * Read schemas exported to JSON: either `{ content_types, global_fields }`
+ * or a bare array of content types
+ */
+export async function readSchemaFile(path: string): Promise<StackSchema> {
+  const parsed: unknown = JSON.parse(await readFile(path, 'utf8'));
+
+  if (Array.isArray(parsed)) {
+    return { content_types: parsed, global_fields: [] };
+  }
+
+  const { content_types, global_fields } = parsed as Partial<StackSchema>;
+  if (!Array.isArray(content_types)) {
+    throw new Error(`${path} has no content_types array`);
+  }
+  return { content_types, global_fields: global_fields ?? [] };
+}
+
+/**
+ * Fetch every content type and global field schema from the stack
+ */
+export async function fetchSchema(stack: Stack): Promise<StackSchema> {
+  const [contentTypes, globalFields] = await Promise.all([
+    stack.contentType().query({ include_count: false }).find(),
+    stack.globalField().query().find(),
+  ]);
+
+  return {
+    content_types: contentTypes.items as unknown as ContentTypeSchema[],
+    global_fields: globalFields.items as unknown as GlobalFieldSchema[],
+  };
+}
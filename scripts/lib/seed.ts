@@ -0,0 +1,326 @@
+/**
+ * Stack Seeding
+ *
+ * Brings a stack up to the demo's content model and sample entries.
+ * Every step first checks what the stack already has, so seeding
+ * twice changes nothing; in a dry run the steps are only printed.
+ */
+import type { Stack } from '@contentstack/management/types/stack';
+import { SampleRef, type SampleEntry } from './sampleContent';
+import type {
+  ContentTypeSchema,
+  FieldSchema,
+  GlobalFieldSchema,
+  StackSchema,
+} from './schema';
+import { fetchSchema } from './schema';
+
+// ============================================
+// Types
+// ============================================
+
+export interface SeedOptions {
+  /** Environment the entries are published to; created if missing */
+  environment: string;
+  locale: string;
+  /** Print the planned changes without making them */
+  dryRun: boolean;
+}
+
+export interface SeedSummary {
+  created: number;
+  published: number;
+  unchanged: number;
+}
+
+// The parts of a management API entry the seeder reads
+interface StackEntry {
+  uid: string;
+  publish_details?:
+    | { environment: string; locale: string }[]
+    | { environment: string; locale: string };
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Content types a schema references, including inside groups and
+ * modular blocks
+ */
+function referencedTypes(fields: FieldSchema[]): string[] {
+  return fields.flatMap((field) => [
+    ...(field.data_type === 'reference'
+      ? [field.reference_to ?? []].flat()
+      : []),
+    ...referencedTypes(field.schema ?? []),
+    ...(field.blocks ?? []).flatMap((block) =>
+      referencedTypes(block.schema ?? [])
+    ),
+  ]);
+}
+
+/**
+ * Order content types so each comes after the types it references.
+ * Types in a reference cycle keep their original order.
+ */
+export function dependencyOrder(
+  contentTypes: ContentTypeSchema[]
+): ContentTypeSchema[] {
+  const byUid = new Map(contentTypes.map((type) => [type.uid, type]));
+  const ordered: ContentTypeSchema[] = [];
+  const visiting = new Set<string>();
+  const done = new Set<string>();
+
+  const visit = (type: ContentTypeSchema) => {
+    if (done.has(type.uid) || visiting.has(type.uid)) return;
+    visiting.add(type.uid);
+    for (const uid of referencedTypes(type.schema)) {
+      const dependency = byUid.get(uid);
+      if (dependency) visit(dependency);
+    }
+    visiting.delete(type.uid);
+    done.add(type.uid);
+    ordered.push(type);
+  };
+
+  contentTypes.forEach(visit);
+  return ordered;
+}
+
+/**
+ * A content type as the create API takes it, with default options
+ */
+export function contentTypeData(contentType: ContentTypeSchema) {
+  return {
+    ...contentType,
+    options: {
+      is_page: false,
+      singleton: false,
+      title: 'title',
+      sub_title: [],
+      ...contentType.options,
+    },
+  };
+}
+
+function isPublished(entry: StackEntry, environment: string, locale: string) {
+  return [entry.publish_details ?? []]
+    .flat()
+    .some(
+      (details) =>
+        details.environment === environment && details.locale === locale
+    );
+}
+
+// ============================================
+// Seeder
+// ============================================
+
+export class StackSeeder {
+  private readonly stack: Stack;
+  private readonly options: SeedOptions;
+  // UIDs of seeded entries, by `content_type:key`
+  private readonly entryUids = new Map<string, string>();
+  private readonly summary: SeedSummary = {
+    created: 0,
+    published: 0,
+    unchanged: 0,
+  };
+  private environmentUid: string | null = null;
+
+  constructor(stack: Stack, options: SeedOptions) {
+    this.stack = stack;
+    this.options = options;
+  }
+
+  /**
+   * Seed the content model, then the sample entries
+   */
+  async seed(
+    schema: StackSchema,
+    entries: SampleEntry[]
+  ): Promise<SeedSummary> {
+    const existing = await fetchSchema(this.stack);
+    const existingGlobalFields = new Set(
+      existing.global_fields.map((field) => field.uid)
+    );
+    const existingTypes = new Set(
+      existing.content_types.map((type) => type.uid)
+    );
+
+    await this.ensureEnvironment();
+    for (const globalField of schema.global_fields) {
+      await this.ensureGlobalField(globalField, existingGlobalFields);
+    }
+    for (const contentType of dependencyOrder(schema.content_types)) {
+      await this.ensureContentType(contentType, existingTypes);
+    }
+    for (const entry of entries) {
+      await this.ensureEntry(entry, existingTypes);
+    }
+
+    return { ...this.summary };
+  }
+
+  /**
+   * Log a change, and make it unless this is a dry run. Returns
+   * whether it was made.
+   */
+  private async change(
+    description: string,
+    apply: () => Promise<unknown>
+  ): Promise<boolean> {
+    if (this.options.dryRun) {
+      console.log(`✏️  Would ${description}`);
+      return false;
+    }
+    console.log(`⏳ ${description[0].toUpperCase()}${description.slice(1)}`);
+    await apply();
+    return true;
+  }
+
+  private unchanged(description: string): void {
+    console.log(`✅ ${description}`);
+    this.summary.unchanged++;
+  }
+
+  private async ensureEnvironment(): Promise<void> {
+    const { environment } = this.options;
+    const { items } = await this.stack.environment().query().find();
+    const found = items.find((item) => item.name === environment);
+    if (found) {
+      this.environmentUid = found.uid;
+      this.unchanged(`Environment "${environment}" exists`);
+      return;
+    }
+
+    await this.change(`create environment "${environment}"`, async () => {
+      const created = await this.stack.environment().create({
+        environment: {
+          name: environment,
+          servers: [],
+          urls: [{ locale: this.options.locale, url: 'http://localhost:5173' }],
+          deploy_content: false,
+        },
+      });
+      this.environmentUid = created.uid;
+    });
+    this.summary.created++;
+  }
+
+  private async ensureGlobalField(
+    globalField: GlobalFieldSchema,
+    existing: Set<string>
+  ): Promise<void> {
+    if (existing.has(globalField.uid)) {
+      this.unchanged(`Global field ${globalField.uid} exists`);
+      return;
+    }
+
+    await this.change(`create global field ${globalField.uid}`, () =>
+      this.stack.globalField().create({ global_field: globalField })
+    );
+    this.summary.created++;
+  }
+
+  private async ensureContentType(
+    contentType: ContentTypeSchema,
+    existing: Set<string>
+  ): Promise<void> {
+    if (existing.has(contentType.uid)) {
+      this.unchanged(`Content type ${contentType.uid} exists`);
+      return;
+    }
+
+    const created = await this.change(
+      `create content type ${contentType.uid}`,
+      () =>
+        this.stack
+          .contentType()
+          .create({ content_type: contentTypeData(contentType) })
+    );
+    if (created) existing.add(contentType.uid);
+    this.summary.created++;
+  }
+
+  /**
+   * Replace sample references with the referenced entries' UIDs
+   */
+  private resolveFields(entry: SampleEntry): Record<string, unknown> | null {
+    const fields: Record<string, unknown> = {};
+    for (const [name, value] of Object.entries(entry.fields)) {
+      if (!Array.isArray(value) || !value.some((v) => v instanceof SampleRef)) {
+        fields[name] = value;
+        continue;
+      }
+
+      const references = [];
+      for (const item of value as SampleRef[]) {
+        const uid = this.entryUids.get(`${item.contentType}:${item.key}`);
+        if (!uid) return null;
+        references.push({ uid, _content_type_uid: item.contentType });
+      }
+      fields[name] = references;
+    }
+    return fields;
+  }
+
+  private async ensureEntry(
+    sample: SampleEntry,
+    existingTypes: Set<string>
+  ): Promise<void> {
+    const { environment, locale, dryRun } = this.options;
+    const key = String(sample.fields[sample.keyField]);
+    const label = `${sample.contentType} "${key}"`;
+
+    // In a dry run a new content type has no entries to look up yet
+    let found: StackEntry | undefined;
+    if (existingTypes.has(sample.contentType)) {
+      const { items } = await this.stack
+        .contentType(sample.contentType)
+        .entry()
+        .query({ query: { [sample.keyField]: key }, locale })
+        .find();
+      found = items[0] as unknown as StackEntry | undefined;
+    }
+
+    let uid = found?.uid;
+    if (found) {
+      this.entryUids.set(`${sample.contentType}:${key}`, found.uid);
+    } else {
+      const fields = this.resolveFields(sample);
+      if (!fields && !dryRun) {
+        throw new Error(`${label} references an entry that was not seeded`);
+      }
+      await this.change(`create entry ${label}`, async () => {
+        const created = await this.stack
+          .contentType(sample.contentType)
+          .entry()
+          .create({ entry: fields as { title: string } }, { locale });
+        uid = created.uid;
+        this.entryUids.set(`${sample.contentType}:${key}`, created.uid);
+      });
+      this.summary.created++;
+    }
+
+    if (found && isPublished(found, this.environmentUid ?? '', locale)) {
+      this.unchanged(`Entry ${label} exists and is published`);
+      return;
+    }
+
+    await this.change(
+      `publish entry ${label} to ${environment} (${locale})`,
+      () =>
+        this.stack
+          .contentType(sample.contentType)
+          .entry(uid!)
+          .publish({
+            publishDetails: { environments: [environment], locales: [locale] },
+            locale,
+          })
+    );
+    this.summary.published++;
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Content Migration CLI
+ *
+ * Applies and reverts the numbered migrations in `migrations/`, and
+ * records which ones each stack has applied in the stack itself.
+ *
+ *   npm run migrate -- status               # list applied and pending
+ *   npm run migrate -- up                   # apply every pending one
+ *   npm run migrate -- up --to 0003-name    # apply up to a migration
+ *   npm run migrate -- down                 # revert the latest one
+ *   npm run migrate -- down --steps 2       # revert the latest two
+ *   npm run migrate -- down --to 0001-name  # revert everything after it
+ */
+import 'dotenv/config';
+import { parseArgs } from 'node:util';
+import { connectStack } from './lib/management';
+import {
+  DEFAULT_MIGRATIONS_DIR,
+  MigrationRunner,
+  loadMigrations,
+} from './lib/migrations';
+
+const USAGE =
+  'Usage: npm run migrate -- <status|up|down> [--to <id>] [--steps <n>]';
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      dir: { type: 'string', default: DEFAULT_MIGRATIONS_DIR },
+      to: { type: 'string' },
+      steps: { type: 'string', default: '1' },
+    },
+  });
+  const [command] = positionals;
+  if (!['status', 'up', 'down'].includes(command) || positionals.length > 1) {
+    console.error(USAGE);
+    return 1;
+  }
+
+  const steps = Number(values.steps);
+  if (!Number.isInteger(steps) || steps < 1) {
+    console.error('❌ --steps must be a positive whole number');
+    return 1;
+  }
+
+  const migrations = await loadMigrations(values.dir);
+  const runner = new MigrationRunner(connectStack(), migrations);
+
+  if (command === 'status') {
+    const statuses = await runner.status();
+    for (const status of statuses) {
+      if (status.missing) {
+        console.log(
+          `⚠️  ${status.id}  applied ${status.appliedAt}, but the file is missing`
+        );
+      } else if (status.appliedAt) {
+        console.log(`✅ ${status.id}  applied ${status.appliedAt}`);
+      } else {
+        console.log(`⏳ ${status.id}  pending: ${status.description}`);
+      }
+    }
+    const pending = statuses.filter((status) => !status.appliedAt).length;
+    console.log(`📦 ${statuses.length} migrations, ${pending} pending`);
+    return 0;
+  }
+
+  if (command === 'up') {
+    const applied = await runner.up(values.to);
+    console.log(
+      applied.length > 0
+        ? `✅ Applied ${applied.length} migrations`
+        : '✅ Already up to date'
+    );
+    return 0;
+  }
+
+  const reverted = await runner.down({ steps, target: values.to });
+  console.log(
+    reverted.length > 0
+      ? `✅ Reverted ${reverted.length} migrations`
+      : '✅ Nothing to revert'
+  );
+  return 0;
+}
+
+main().then(
+  (code) => process.exit(code),
+  (error) => {
+    console.error('❌ Migration failed:', error);
+    process.exit(1);
+  }
+);
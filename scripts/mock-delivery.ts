@@ -0,0 +1,59 @@
+/**
+ * Mock Delivery API Server
+ *
+ * Serves the fixtures in `src/fixtures` through the Content Delivery
+ * API, so the app can run against a real HTTP backend without a stack.
+ * The integration tests start the same server in-process.
+ *
+ *   npm run mock:delivery                    # listen on port 4020
+ *   npm run mock:delivery -- --port 5000
+ *   npm run mock:delivery -- --latency 800   # answer slowly
+ *
+ * Then run the app against it:
+ *
+ *   VITE_CONTENTSTACK_HOST=http://127.0.0.1:4020 VITE_CONTENTSTACK_FIXTURES=false npm run dev
+ */
+import 'dotenv/config';
+import { parseArgs } from 'node:util';
+import {
+  DEFAULT_FIXTURES_DIR,
+  readFixtures,
+  startMockDeliveryServer,
+} from './lib/mockDelivery';
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      port: { type: 'string', default: '4020' },
+      fixtures: { type: 'string', default: DEFAULT_FIXTURES_DIR },
+      latency: { type: 'string', default: '0' },
+    },
+  });
+
+  // Accept the credentials the app will send
+  const apiKey = process.env.VITE_CONTENTSTACK_API_KEY || 'mock_api_key';
+  const deliveryToken =
+    process.env.VITE_CONTENTSTACK_DELIVERY_TOKEN || 'mock_delivery_token';
+
+  const server = await startMockDeliveryServer({
+    apiKey,
+    deliveryToken,
+    fixtures: await readFixtures(values.fixtures),
+    port: Number(values.port),
+    latency: Number(values.latency),
+  });
+
+  console.log(`✅ Mock delivery API listening on ${server.url}`);
+  console.log(`   api_key: ${apiKey}`);
+  console.log(`   access_token: ${deliveryToken}`);
+  console.log(`   Set VITE_CONTENTSTACK_HOST=${server.url} to use it`);
+
+  process.on('SIGINT', () => {
+    server.close().then(() => process.exit(0));
+  });
+}
+
+main().catch((error) => {
+  console.error('❌ Mock server failed:', error);
+  process.exit(1);
+});
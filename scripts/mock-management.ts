@@ -0,0 +1,57 @@
+/**
+ * Mock Management API Server
+ *
+ * Serves an in-memory stack through the Content Management API, so
+ * migrations and seeding can be tried without a real stack. It starts
+ * with the content types in `schema/contentstack.json` and no entries.
+ *
+ *   npm run mock:management                 # listen on port 4010
+ *   npm run mock:management -- --port 5000
+ *   npm run mock:management -- --empty      # start without content types
+ *
+ * Then run the scripts against it:
+ *
+ *   CONTENTSTACK_MANAGEMENT_HOST=http://127.0.0.1:4010 npm run migrate -- up
+ */
+import 'dotenv/config';
+import { parseArgs } from 'node:util';
+import { startMockManagementServer } from './lib/mockManagement';
+import { DEFAULT_SCHEMA_PATH, readSchemaFile } from './lib/schema';
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      port: { type: 'string', default: '4010' },
+      from: { type: 'string', default: DEFAULT_SCHEMA_PATH },
+      empty: { type: 'boolean', default: false },
+    },
+  });
+
+  // Accept the credentials the other scripts will send
+  const apiKey = process.env.VITE_CONTENTSTACK_API_KEY || 'mock_api_key';
+  const managementToken =
+    process.env.CONTENTSTACK_MANAGEMENT_TOKEN || 'mock_management_token';
+
+  const server = await startMockManagementServer({
+    apiKey,
+    managementToken,
+    port: Number(values.port),
+    schema: values.empty ? undefined : await readSchemaFile(values.from),
+  });
+
+  console.log(`✅ Mock management API listening on ${server.url}`);
+  console.log(`   api_key: ${apiKey}`);
+  console.log(`   authorization: ${managementToken}`);
+  console.log(
+    `   Set CONTENTSTACK_MANAGEMENT_HOST=${server.url} to use it`
+  );
+
+  process.on('SIGINT', () => {
+    server.close().then(() => process.exit(0));
+  });
+}
+
+main().catch((error) => {
+  console.error('❌ Mock server failed:', error);
+  process.exit(1);
+});
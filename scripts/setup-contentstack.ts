@@ -0,0 +1,59 @@
+/**
+ * Stack Setup CLI
+ *
+ * Creates the demo's global fields, content types and sample entries
+ * (including one hero banner per Personalize variant) and publishes
+ * the entries. Anything the stack already has is left alone, so it is
+ * safe to run again.
+ *
+ *   npm run setup                          # seed and publish
+ *   npm run setup -- --dry-run             # print the planned changes
+ *   npm run setup -- --environment staging --locale en-us
+ */
+import 'dotenv/config';
+import { parseArgs } from 'node:util';
+import { connectStack } from './lib/management';
+import { sampleEntries } from './lib/sampleContent';
+import { DEFAULT_SCHEMA_PATH, readSchemaFile } from './lib/schema';
+import { StackSeeder } from './lib/seed';
+
+async function main(): Promise<number> {
+  const { values } = parseArgs({
+    options: {
+      from: { type: 'string', default: DEFAULT_SCHEMA_PATH },
+      environment: {
+        type: 'string',
+        default: process.env.VITE_CONTENTSTACK_ENVIRONMENT || 'production',
+      },
+      locale: { type: 'string', default: 'en-us' },
+      'dry-run': { type: 'boolean', default: false },
+    },
+  });
+  const dryRun = values['dry-run'];
+
+  const schema = await readSchemaFile(values.from);
+  console.log(
+    `📦 Seeding ${schema.content_types.length} content types and ${sampleEntries.length} entries${dryRun ? ' (dry run)' : ''}`
+  );
+
+  const seeder = new StackSeeder(connectStack(), {
+    environment: values.environment,
+    locale: values.locale,
+    dryRun,
+  });
+  const summary = await seeder.seed(schema, sampleEntries);
+
+  const verb = dryRun ? 'Would create' : 'Created';
+  console.log(
+    `✅ ${verb} ${summary.created}, ${dryRun ? 'would publish' : 'published'} ${summary.published}, ${summary.unchanged} already up to date`
+  );
+  return 0;
+}
+
+main().then(
+  (code) => process.exit(code),
+  (error) => {
+    console.error('❌ Setup failed:', error);
+    process.exit(1);
+  }
+);
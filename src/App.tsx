@@ -24,10 +24,179 @@ import { ProductShowcase } from './components/ProductShowcase';
 import { ContentDemo } from './components/ContentDemo';
 import { AutomateDemo } from './components/AutomateDemo';
 import { AnalyticsDashboard } from './components/AnalyticsDashboard';
+import { LocaleSwitcher } from './components/LocaleSwitcher';
+import { SiteSearch } from './components/SiteSearch';
+import { ContentPage } from './components/ContentPage';
+import { BlogPostPage } from './components/BlogPostPage';
+import { ProductPage } from './components/ProductPage';
+import { NotFound } from './components/RouteStates';
+import { Link } from './components/Link';
+import {
+  BlogListBlock,
+  CtaBandBlock,
+  ProductGridBlock,
+} from './components/PageBlocks';
+import { useLocation } from './hooks/useRouter';
 import { initializePersonalization } from './lib/personalize';
 import { analytics } from './lib/analytics';
+import type { BlockRegistry } from './lib/blocks';
+import type { PageSectionsBlock } from './lib/contentstack';
+import { matchPath } from './lib/router';
+
+// Components for the blocks a `page` entry is assembled from
+const pageBlocks: BlockRegistry<PageSectionsBlock> = {
+  hero: PersonalizedHero,
+  product_grid: ProductGridBlock,
+  blog_list: BlogListBlock,
+  cta_band: CtaBandBlock,
+  analytics_teaser: AnalyticsDashboard,
+};
+
+/**
+ * The home page: sections from the CMS, then the platform overview
+ */
+function HomePage() {
+  return (
+    <>
+      {/* Sections from the CMS home page, or the built-in demo layout */}
+      <ContentPage
+        url="/"
+        registry={pageBlocks}
+        fallback={
+          <>
+            {/* Hero Section - Personalize Demo */}
+            <PersonalizedHero />
+
+            {/* Products Section */}
+            <section id="products">
+              <ProductShowcase />
+            </section>
+
+            {/* Content Section - CMS Demo */}
+            <section id="content">
+              <ContentDemo />
+            </section>
+
+            {/* Automate Section */}
+            <section id="automate">
+              <AutomateDemo />
+            </section>
+
+            {/* Analytics Section - Data & Insights Demo */}
+            <section id="analytics">
+              <AnalyticsDashboard />
+            </section>
+          </>
+        }
+      />
+
+      {/* Brand Kit & Marketplace Section */}
+      <section className="py-20 bg-slate-900">
+        <div className="container mx-auto px-6">
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            {/* Brand Kit */}
+            <div className="relative overflow-hidden p-8 rounded-3xl bg-gradient-to-br from-rose-500/10 to-orange-500/10 border border-rose-500/20">
+              <div className="absolute top-0 right-0 w-64 h-64 bg-gradient-to-br from-rose-500 to-orange-500 opacity-10 blur-3xl" />
+              <div className="relative">
+                <div className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-rose-500/10 border border-rose-500/20 text-rose-400 text-sm mb-6">
+                  <Sparkles className="w-4 h-4" />
+                  <span>Brand Kit</span>
+                </div>
+                <h3 className="text-2xl font-bold text-white mb-4">
+                  AI-Powered Brand Consistency
+                </h3>
+                <p className="text-slate-400 mb-6">
+                  Create content that stays true to your brand with AI-powered generation,
+                  Voice Profiles, and a Knowledge Vault of your brand assets.
+                </p>
+                <div className="space-y-3">
+                  {['Knowledge Vault for brand assets', 'Voice Profiles for tone consistency', 'AI content generation', 'Brand guideline enforcement'].map((feature) => (
+                    <div key={feature} className="flex items-center gap-3 text-slate-300">
+                      <div className="w-1.5 h-1.5 rounded-full bg-rose-500" />
+                      {feature}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            {/* Marketplace */}
+            <div className="relative overflow-hidden p-8 rounded-3xl bg-gradient-to-br from-indigo-500/10 to-violet-500/10 border border-indigo-500/20">
+              <div className="absolute top-0 right-0 w-64 h-64 bg-gradient-to-br from-indigo-500 to-violet-500 opacity-10 blur-3xl" />
+              <div className="relative">
+                <div className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-indigo-500/10 border border-indigo-500/20 text-indigo-400 text-sm mb-6">
+                  <Layers className="w-4 h-4" />
+                  <span>Marketplace</span>
+                </div>
+                <h3 className="text-2xl font-bold text-white mb-4">
+                  Extend Your Platform
+                </h3>
+                <p className="text-slate-400 mb-6">
+                  Discover and install apps, integrations, and extensions that add
+                  powerful capabilities to your Contentstack implementation.
+                </p>
+                <div className="flex flex-wrap gap-3">
+                  {['Algolia', 'Cloudinary', 'Commercetools', 'Salesforce', 'Twilio', 'Shopify'].map((app) => (
+                    <span
+                      key={app}
+                      className="px-4 py-2 rounded-lg bg-slate-800 text-slate-300 text-sm border border-slate-700 hover:border-indigo-500/50 transition-colors cursor-pointer"
+                    >
+                      {app}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* Launch Section */}
+          <div className="mt-8 relative overflow-hidden p-8 rounded-3xl bg-gradient-to-br from-emerald-500/10 to-teal-500/10 border border-emerald-500/20">
+            <div className="absolute top-0 right-0 w-96 h-96 bg-gradient-to-br from-emerald-500 to-teal-500 opacity-10 blur-3xl" />
+            <div className="relative flex flex-col md:flex-row md:items-center md:justify-between gap-6">
+              <div>
+                <div className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-emerald-500/10 border border-emerald-500/20 text-emerald-400 text-sm mb-4">
+                  🚀 Contentstack Launch
+                </div>
+                <h3 className="text-2xl font-bold text-white mb-2">
+                  Deploy This App with Launch
+                </h3>
+                <p className="text-slate-400 max-w-2xl">
+                  Connect your Git repository, configure build settings, and deploy to a
+                  global CDN with automatic cache invalidation when content changes.
+                </p>
+              </div>
+              <button className="flex items-center gap-2 px-6 py-3 bg-emerald-600 hover:bg-emerald-500 text-white rounded-xl font-medium transition-colors whitespace-nowrap">
+                Deploy Now
+                <ExternalLink className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        </div>
+      </section>
+    </>
+  );
+}
+
+/**
+ * Picks the page for the current path
+ */
+function Route({ pathname }: { pathname: string }) {
+  if (pathname === "/") return <HomePage />;
+
+  // Blog post URLs include their `/blog/` prefix, so match on the whole path
+  if (matchPath("/blog/:url", pathname)) {
+    return <BlogPostPage url={pathname} />;
+  }
+
+  const product = matchPath("/products/:slug", pathname);
+  if (product) return <ProductPage slug={product.slug} />;
+
+  return <NotFound />;
+}
 
 function App() {
+  const { pathname } = useLocation();
+
   useEffect(() => {
     // Initialize Contentstack Personalize on app load
     initializePersonalization();
@@ -43,7 +212,7 @@ function App() {
         <div className="container mx-auto px-6 py-4">
           <div className="flex items-center justify-between">
             {/* Logo */}
-            <div className="flex items-center gap-3">
+            <Link to="/" className="flex items-center gap-3">
               <div className="p-2 rounded-xl bg-gradient-to-br from-purple-600 to-indigo-600">
                 <Layers className="w-6 h-6 text-white" />
               </div>
@@ -51,18 +220,20 @@ function App() {
                 <div className="font-bold text-lg">Contentstack</div>
                 <div className="text-xs text-slate-400">DXP Demo</div>
               </div>
-            </div>
+            </Link>
 
             {/* Nav Links */}
             <div className="hidden md:flex items-center gap-8">
-              <a href="#products" className="text-slate-300 hover:text-white transition-colors">Products</a>
-              <a href="#content" className="text-slate-300 hover:text-white transition-colors">Content</a>
-              <a href="#automate" className="text-slate-300 hover:text-white transition-colors">Automate</a>
-              <a href="#analytics" className="text-slate-300 hover:text-white transition-colors">Analytics</a>
+              <Link to="/#products" className="text-slate-300 hover:text-white transition-colors">Products</Link>
+              <Link to="/#content" className="text-slate-300 hover:text-white transition-colors">Content</Link>
+              <Link to="/#automate" className="text-slate-300 hover:text-white transition-colors">Automate</Link>
+              <Link to="/#analytics" className="text-slate-300 hover:text-white transition-colors">Analytics</Link>
             </div>
 
             {/* CTA */}
             <div className="flex items-center gap-4">
+              <SiteSearch />
+              <LocaleSwitcher />
               <a
                 href="https://github.com/contentstack"
                 target="_blank"
@@ -87,112 +258,7 @@ function App() {
 
       {/* Main Content */}
       <main className="pt-20">
-        {/* Hero Section - Personalize Demo */}
-        <PersonalizedHero />
-
-        {/* Products Section */}
-        <section id="products">
-          <ProductShowcase />
-        </section>
-
-        {/* Content Section - CMS Demo */}
-        <section id="content">
-          <ContentDemo />
-        </section>
-
-        {/* Automate Section */}
-        <section id="automate">
-          <AutomateDemo />
-        </section>
-
-        {/* Analytics Section - Data & Insights Demo */}
-        <section id="analytics">
-          <AnalyticsDashboard />
-        </section>
-
-        {/* Brand Kit & Marketplace Section */}
-        <section className="py-20 bg-slate-900">
-          <div className="container mx-auto px-6">
-            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-              {/* Brand Kit */}
-              <div className="relative overflow-hidden p-8 rounded-3xl bg-gradient-to-br from-rose-500/10 to-orange-500/10 border border-rose-500/20">
-                <div className="absolute top-0 right-0 w-64 h-64 bg-gradient-to-br from-rose-500 to-orange-500 opacity-10 blur-3xl" />
-                <div className="relative">
-                  <div className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-rose-500/10 border border-rose-500/20 text-rose-400 text-sm mb-6">
-                    <Sparkles className="w-4 h-4" />
-                    <span>Brand Kit</span>
-                  </div>
-                  <h3 className="text-2xl font-bold text-white mb-4">
-                    AI-Powered Brand Consistency
-                  </h3>
-                  <p className="text-slate-400 mb-6">
-                    Create content that stays true to your brand with AI-powered generation,
-                    Voice Profiles, and a Knowledge Vault of your brand assets.
-                  </p>
-                  <div className="space-y-3">
-                    {['Knowledge Vault for brand assets', 'Voice Profiles for tone consistency', 'AI content generation', 'Brand guideline enforcement'].map((feature) => (
-                      <div key={feature} className="flex items-center gap-3 text-slate-300">
-                        <div className="w-1.5 h-1.5 rounded-full bg-rose-500" />
-                        {feature}
-                      </div>
-                    ))}
-                  </div>
-                </div>
-              </div>
-
-              {/* Marketplace */}
-              <div className="relative overflow-hidden p-8 rounded-3xl bg-gradient-to-br from-indigo-500/10 to-violet-500/10 border border-indigo-500/20">
-                <div className="absolute top-0 right-0 w-64 h-64 bg-gradient-to-br from-indigo-500 to-violet-500 opacity-10 blur-3xl" />
-                <div className="relative">
-                  <div className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-indigo-500/10 border border-indigo-500/20 text-indigo-400 text-sm mb-6">
-                    <Layers className="w-4 h-4" />
-                    <span>Marketplace</span>
-                  </div>
-                  <h3 className="text-2xl font-bold text-white mb-4">
-                    Extend Your Platform
-                  </h3>
-                  <p className="text-slate-400 mb-6">
-                    Discover and install apps, integrations, and extensions that add
-                    powerful capabilities to your Contentstack implementation.
-                  </p>
-                  <div className="flex flex-wrap gap-3">
-                    {['Algolia', 'Cloudinary', 'Commercetools', 'Salesforce', 'Twilio', 'Shopify'].map((app) => (
-                      <span
-                        key={app}
-                        className="px-4 py-2 rounded-lg bg-slate-800 text-slate-300 text-sm border border-slate-700 hover:border-indigo-500/50 transition-colors cursor-pointer"
-                      >
-                        {app}
-                      </span>
-                    ))}
-                  </div>
-                </div>
-              </div>
-            </div>
-
-            {/* Launch Section */}
-            <div className="mt-8 relative overflow-hidden p-8 rounded-3xl bg-gradient-to-br from-emerald-500/10 to-teal-500/10 border border-emerald-500/20">
-              <div className="absolute top-0 right-0 w-96 h-96 bg-gradient-to-br from-emerald-500 to-teal-500 opacity-10 blur-3xl" />
-              <div className="relative flex flex-col md:flex-row md:items-center md:justify-between gap-6">
-                <div>
-                  <div className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-emerald-500/10 border border-emerald-500/20 text-emerald-400 text-sm mb-4">
-                    🚀 Contentstack Launch
-                  </div>
-                  <h3 className="text-2xl font-bold text-white mb-2">
-                    Deploy This App with Launch
-                  </h3>
-                  <p className="text-slate-400 max-w-2xl">
-                    Connect your Git repository, configure build settings, and deploy to a
-                    global CDN with automatic cache invalidation when content changes.
-                  </p>
-                </div>
-                <button className="flex items-center gap-2 px-6 py-3 bg-emerald-600 hover:bg-emerald-500 text-white rounded-xl font-medium transition-colors whitespace-nowrap">
-                  Deploy Now
-                  <ExternalLink className="w-4 h-4" />
-                </button>
-              </div>
-            </div>
-          </div>
-        </section>
+        <Route pathname={pathname} />
       </main>
 
       {/* Footer */}
@@ -28,7 +28,13 @@ interface MetricCard {
   color: string;
 }
 
-export function AnalyticsDashboard() {
+interface AnalyticsDashboardProps {
+  title?: string;
+}
+
+export function AnalyticsDashboard({
+  title = 'Analytics Dashboard',
+}: AnalyticsDashboardProps) {
   const sessionStats = useSessionStats();
   const [metrics] = useState<MetricCard[]>([
     {
@@ -123,7 +129,7 @@ export function AnalyticsDashboard() {
               <span>Data & Insights</span>
             </div>
             <h2 className='text-3xl md:text-4xl font-bold text-white mb-2'>
-              Analytics Dashboard
+              {title}
             </h2>
             <p className='text-slate-400'>
               Real-time insights into content performance and user engagement
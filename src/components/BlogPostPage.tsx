@@ -0,0 +1,128 @@
+/**
+ * Blog Post Page Component
+ *
+ * The detail page for `/blog/:url`: resolves the post by its URL
+ * field and renders its JSON RTE body with embedded items.
+ */
+import { ArrowLeft, Calendar, Clock, ShoppingBag, User } from 'lucide-react';
+import { useEntryByUrl } from '../hooks/useContent';
+import { useContentTracking } from '../hooks/useAnalytics';
+import { useDocumentTitle } from '../hooks/useRouter';
+import type { Author, BlogPost, Product } from '../lib/contentstack';
+import { embeddedItemsOf } from '../lib/jsonRte';
+import { resolvedEntries } from '../lib/references';
+import { ContentstackImage } from './ContentstackImage';
+import { JsonRte } from './JsonRte';
+import { Link } from './Link';
+import { NotFound, RouteError, RouteLoading } from './RouteStates';
+
+interface BlogPostPageProps {
+  /** The post's `url` field, e.g. `/blog/hello-world` */
+  url: string;
+}
+
+export function BlogPostPage({ url }: BlogPostPageProps) {
+  const {
+    data: post,
+    loading,
+    error,
+    refetch,
+  } = useEntryByUrl<BlogPost>('blog_post', url, {
+    include: 1,
+    includeEmbeddedItems: true,
+  });
+
+  useContentTracking('blog_post', post?.uid ?? '', post?.title ?? '');
+  useDocumentTitle(post?.seo?.meta_title || post?.title);
+
+  if (loading) return <RouteLoading />;
+  if (error) return <RouteError error={error} onRetry={refetch} />;
+  if (!post) {
+    return (
+      <NotFound
+        title='Post not found'
+        description="This blog post doesn't exist or has been unpublished."
+        backTo='/#content'
+        backLabel='Back to the blog'
+      />
+    );
+  }
+
+  const author = resolvedEntries<Author>(post.author)[0];
+  const relatedProducts = resolvedEntries<Product>(post.related_products);
+
+  return (
+    <article className='py-12'>
+      <div className='container mx-auto px-6 max-w-3xl'>
+        <Link
+          to='/#content'
+          className='inline-flex items-center gap-2 text-slate-400 hover:text-white transition-colors mb-8'>
+          <ArrowLeft className='w-4 h-4' />
+          All posts
+        </Link>
+
+        <h1 className='text-4xl md:text-5xl font-bold text-white mb-6'>
+          {post.title}
+        </h1>
+        <div className='flex flex-wrap items-center gap-6 text-slate-400 mb-8'>
+          <span className='flex items-center gap-2'>
+            <User className='w-4 h-4' />
+            {author?.title ?? post.author_name}
+          </span>
+          <span className='flex items-center gap-2'>
+            <Calendar className='w-4 h-4' />
+            {new Date(post.publish_date).toLocaleDateString()}
+          </span>
+          {post.reading_time != null && (
+            <span className='flex items-center gap-2'>
+              <Clock className='w-4 h-4' />
+              {post.reading_time} min read
+            </span>
+          )}
+        </div>
+
+        {post.featured_image?.url && (
+          <ContentstackImage
+            src={post.featured_image}
+            alt={post.title}
+            sizes='(min-width: 768px) 768px, 100vw'
+            transform={{ width: 1536, height: 864, fit: 'crop' }}
+            priority
+            className='rounded-2xl mb-10 aspect-video'
+            imgClassName='w-full h-full object-cover'
+          />
+        )}
+
+        <p className='text-xl text-slate-300 mb-10'>{post.summary}</p>
+
+        <JsonRte
+          document={post.body}
+          embeddedItems={embeddedItemsOf(post, 'body')}
+          className='text-slate-300'
+        />
+
+        {relatedProducts.length > 0 && (
+          <aside className='mt-16 pt-8 border-t border-slate-800'>
+            <h2 className='text-xl font-bold text-white mb-4'>
+              Related products
+            </h2>
+            <div className='grid grid-cols-1 sm:grid-cols-2 gap-4'>
+              {relatedProducts.map((product) => (
+                <Link
+                  key={product.uid}
+                  to={`/products/${encodeURIComponent(product.slug)}`}
+                  className='flex items-center gap-3 p-4 rounded-xl bg-slate-800/50 border border-slate-700/50 hover:border-emerald-500/50 transition-colors'>
+                  <ShoppingBag className='w-5 h-5 text-emerald-400' />
+                  <span className='text-white'>{product.title}</span>
+                  <span className='ml-auto text-emerald-400'>
+                    ${product.price}
+                  </span>
+                </Link>
+              ))}
+            </div>
+          </aside>
+        )}
+      </div>
+    </article>
+  );
+}
@@ -0,0 +1,146 @@
+/**
+ * Catalog Filters Component
+ *
+ * The facet bar above the product grid: category chips with counts,
+ * a price range, an in-stock toggle and the sort order.
+ */
+import { ArrowUpDown, X } from 'lucide-react';
+import {
+  CATALOG_SORTS,
+  type CatalogFacets,
+  type CatalogFilters as Filters,
+  type CatalogSort,
+  type ProductCategory,
+} from '../lib/catalog';
+
+interface CatalogFiltersProps {
+  filters: Filters;
+  facets: CatalogFacets;
+  /** How many products pass the filters */
+  resultCount: number;
+  filtered: boolean;
+  onChange: (changes: Partial<Filters>) => void;
+  onReset: () => void;
+}
+
+function priceValue(value: string): number | null {
+  if (value === '') return null;
+  const price = Number(value);
+  return Number.isFinite(price) && price >= 0 ? price : null;
+}
+
+export function CatalogFilters({
+  filters,
+  facets,
+  resultCount,
+  filtered,
+  onChange,
+  onReset,
+}: CatalogFiltersProps) {
+  const toggleCategory = (category: ProductCategory) => {
+    const categories = filters.categories.includes(category)
+      ? filters.categories.filter((value) => value !== category)
+      : [...filters.categories, category];
+    onChange({ categories });
+  };
+
+  return (
+    <div className='mb-8 p-6 bg-slate-800/50 rounded-2xl border border-slate-700/50 space-y-5'>
+      {/* Categories */}
+      <div className='flex flex-wrap gap-2'>
+        {facets.categories.map(({ value, count }) => {
+          const selected = filters.categories.includes(value);
+          return (
+            <button
+              key={value}
+              onClick={() => toggleCategory(value)}
+              disabled={count === 0 && !selected}
+              aria-pressed={selected}
+              className={`flex items-center gap-2 px-3 py-1.5 rounded-full text-sm border transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                selected
+                  ? 'bg-emerald-600 border-emerald-500 text-white'
+                  : 'border-slate-700 text-slate-300 hover:border-emerald-500/50'
+              }`}>
+              {value}
+              <span
+                className={`text-xs ${
+                  selected ? 'text-emerald-100' : 'text-slate-500'
+                }`}>
+                {count}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className='flex flex-wrap items-center gap-x-8 gap-y-4 text-sm'>
+        {/* Price range */}
+        <div className='flex items-center gap-2 text-slate-400'>
+          <span>Price</span>
+          <input
+            type='number'
+            min={0}
+            inputMode='decimal'
+            aria-label='Minimum price'
+            placeholder={String(facets.price.min)}
+            value={filters.minPrice ?? ''}
+            onChange={(e) => onChange({ minPrice: priceValue(e.target.value) })}
+            className='w-24 px-3 py-1.5 rounded-lg bg-slate-900 border border-slate-700 text-white outline-none focus:border-emerald-500/60'
+          />
+          <span>–</span>
+          <input
+            type='number'
+            min={0}
+            inputMode='decimal'
+            aria-label='Maximum price'
+            placeholder={String(facets.price.max)}
+            value={filters.maxPrice ?? ''}
+            onChange={(e) => onChange({ maxPrice: priceValue(e.target.value) })}
+            className='w-24 px-3 py-1.5 rounded-lg bg-slate-900 border border-slate-700 text-white outline-none focus:border-emerald-500/60'
+          />
+        </div>
+
+        {/* Stock */}
+        <label className='flex items-center gap-2 text-slate-300 cursor-pointer'>
+          <input
+            type='checkbox'
+            checked={filters.inStock}
+            onChange={(e) => onChange({ inStock: e.target.checked })}
+            className='accent-emerald-500'
+          />
+          In stock only
+          <span className='text-xs text-slate-500'>{facets.inStock}</span>
+        </label>
+
+        {/* Sort */}
+        <label className='flex items-center gap-2 text-slate-400'>
+          <ArrowUpDown className='w-4 h-4' />
+          <select
+            value={filters.sort}
+            onChange={(e) => onChange({ sort: e.target.value as CatalogSort })}
+            className='bg-transparent text-slate-300 outline-none cursor-pointer'>
+            {Object.entries(CATALOG_SORTS).map(([value, label]) => (
+              <option key={value} value={value} className='bg-slate-900'>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <div className='flex items-center gap-4 ml-auto text-slate-400'>
+          <span>
+            {resultCount} {resultCount === 1 ? 'product' : 'products'}
+          </span>
+          {filtered && (
+            <button
+              onClick={onReset}
+              className='flex items-center gap-1 hover:text-white transition-colors'>
+              <X className='w-4 h-4' />
+              Clear filters
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -13,33 +13,120 @@ import {
   ChevronRight,
   AlertCircle,
   Loader2,
+  ChevronDown,
 } from 'lucide-react';
-import { useEntries } from '../hooks/useContent';
-import type { BlogPost, Product } from '../lib/contentstack';
+import { useEntries, useInfiniteEntries } from '../hooks/useContent';
+import { useCatalog } from '../hooks/useCatalog';
+import { hasCatalogFilters } from '../lib/catalog';
+import type { Author, BlogPost, Product } from '../lib/contentstack';
+import { resolvedEntries } from '../lib/references';
+import {
+  isContentstackError,
+  type ContentstackErrorKind,
+} from '../lib/errors';
+import { getLocation } from '../lib/router';
+import { InvalidEntryError } from '../lib/validation';
+import { CatalogFilters } from './CatalogFilters';
+import { ContentstackImage } from './ContentstackImage';
+import { Link } from './Link';
 
 type ContentType = 'blog_post' | 'product';
 
+const PAGE_SIZE = 6;
+
+// What to tell the user for each kind of failure
+const errorMessages: Record<
+  ContentstackErrorKind,
+  { title: string; description: string }
+> = {
+  missing_config: {
+    title: 'Contentstack is not configured',
+    description:
+      'Add your API key, delivery token and environment to the .env file, then restart the dev server.',
+  },
+  unauthorized: {
+    title: 'Access denied',
+    description:
+      'Contentstack rejected the credentials. Check that the API key and delivery token belong to this stack and environment.',
+  },
+  not_found: {
+    title: 'Content type not found',
+    description:
+      'This content type does not exist on the stack yet. Create it in Contentstack and publish some entries.',
+  },
+  rate_limited: {
+    title: 'Too many requests',
+    description:
+      'Contentstack is rate limiting this app. Wait a moment and try again.',
+  },
+  network: {
+    title: "Can't reach Contentstack",
+    description:
+      'The request failed or timed out. Check your connection and the configured host.',
+  },
+  invalid_response: {
+    title: 'Unexpected response',
+    description: 'Contentstack returned a response this app could not read.',
+  },
+};
+
+const fallbackErrorMessage = {
+  title: 'Failed to load content',
+  description:
+    'Make sure your Contentstack credentials are configured in your .env file and the content types have been created.',
+};
+
 export function ContentDemo() {
-  const [activeType, setActiveType] = useState<ContentType>('blog_post');
+  // Open on the products when the URL carries catalog filters
+  const [activeType, setActiveType] = useState<ContentType>(() =>
+    hasCatalogFilters(new URLSearchParams(getLocation().search))
+      ? 'product'
+      : 'blog_post'
+  );
 
-  // Fetch blog posts from Contentstack
+  // Fetch blog posts from Contentstack, one page at a time
   const {
     data: blogPosts,
+    total: totalPosts,
     loading: loadingPosts,
     error: postsError,
     refetch: refetchPosts,
-  } = useEntries<BlogPost>('blog_post');
+    ...postsPaging
+  } = useInfiniteEntries<BlogPost>('blog_post', PAGE_SIZE, {
+    include: ['author'],
+  });
 
-  // Fetch products from Contentstack
+  // Fetch every product, so facets count the whole catalog
   const {
-    data: products,
+    data: allProducts,
     loading: loadingProducts,
     error: productsError,
     refetch: refetchProducts,
   } = useEntries<Product>('product');
+  const catalog = useCatalog(allProducts);
+  const totalProducts = allProducts.length;
+
+  // Reveal the filtered products one page at a time
+  const [visibleProducts, setVisibleProducts] = useState(PAGE_SIZE);
+  const products = catalog.products.slice(0, visibleProducts);
+  const productsPaging = {
+    hasMore: catalog.products.length > visibleProducts,
+    loadingMore: false,
+    loadMore: async () => setVisibleProducts((count) => count + PAGE_SIZE),
+  };
+
+  const changeFilters: typeof catalog.setFilters = (changes) => {
+    catalog.setFilters(changes);
+    setVisibleProducts(PAGE_SIZE);
+  };
 
   const isLoading = activeType === 'blog_post' ? loadingPosts : loadingProducts;
   const error = activeType === 'blog_post' ? postsError : productsError;
+  const errorMessage = isContentstackError(error)
+    ? errorMessages[error.kind]
+    : fallbackErrorMessage;
+  const { hasMore, loadingMore, loadMore } =
+    activeType === 'blog_post' ? postsPaging : productsPaging;
 
   const handleRefresh = () => {
     if (activeType === 'blog_post') {
@@ -74,9 +161,9 @@ export function ContentDemo() {
               }`}>
               <FileText className='w-4 h-4' />
               Blog Posts
-              {blogPosts.length > 0 && (
+              {totalPosts > 0 && (
                 <span className='ml-1 px-2 py-0.5 text-xs rounded-full bg-white/20'>
-                  {blogPosts.length}
+                  {totalPosts}
                 </span>
               )}
             </button>
@@ -89,9 +176,9 @@ export function ContentDemo() {
               }`}>
               <ShoppingBag className='w-4 h-4' />
               Products
-              {products.length > 0 && (
+              {totalProducts > 0 && (
                 <span className='ml-1 px-2 py-0.5 text-xs rounded-full bg-white/20'>
-                  {products.length}
+                  {totalProducts}
                 </span>
               )}
             </button>
@@ -126,12 +213,24 @@ export function ContentDemo() {
                 <AlertCircle className='w-10 h-10 text-red-400' />
               </div>
               <h3 className='text-xl font-bold text-white'>
-                Failed to load content
+                {errorMessage.title}
               </h3>
-              <p className='text-slate-400'>
-                Make sure your Contentstack credentials are configured in your
-                .env file and the content types have been created.
-              </p>
+              <p className='text-slate-400'>{errorMessage.description}</p>
+              {error instanceof InvalidEntryError && (
+                <ul className='text-left text-sm text-slate-500 space-y-1'>
+                  {error.failures.map((failure) => (
+                    <li key={failure.uid}>
+                      <span className='font-mono text-slate-300'>
+                        {failure.uid}
+                      </span>
+                      :{' '}
+                      {failure.issues
+                        .map((issue) => `${issue.path} ${issue.message}`)
+                        .join(', ')}
+                    </li>
+                  ))}
+                </ul>
+              )}
               <button
                 onClick={handleRefresh}
                 className='px-4 py-2 bg-purple-600 hover:bg-purple-500 text-white rounded-lg font-medium transition-colors'>
@@ -145,7 +244,7 @@ export function ContentDemo() {
         {!isLoading &&
           !error &&
           ((activeType === 'blog_post' && blogPosts.length === 0) ||
-            (activeType === 'product' && products.length === 0)) && (
+            (activeType === 'product' && totalProducts === 0)) && (
             <div className='flex items-center justify-center py-20'>
               <div className='flex flex-col items-center gap-4 text-center max-w-md'>
                 <div className='p-4 rounded-full bg-slate-700'>
@@ -182,10 +281,14 @@ export function ContentDemo() {
                   {/* Image placeholder or actual image */}
                   <div className='relative h-48 overflow-hidden bg-gradient-to-br from-purple-600/20 to-indigo-600/20'>
                     {post.featured_image?.url ? (
-                      <img
-                        src={post.featured_image.url}
+                      <ContentstackImage
+                        src={post.featured_image}
                         alt={post.title}
-                        className='w-full h-full object-cover group-hover:scale-110 transition-transform duration-500'
+                        sizes='(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw'
+                        widths={[400, 640, 800, 1280]}
+                        transform={{ width: 800, height: 384, fit: 'crop' }}
+                        className='w-full h-full'
+                        imgClassName='w-full h-full object-cover group-hover:scale-110 transition-transform duration-500'
                       />
                     ) : (
                       <div className='w-full h-full flex items-center justify-center'>
@@ -198,7 +301,10 @@ export function ContentDemo() {
                   {/* Content */}
                   <div className='p-6'>
                     <div className='flex items-center gap-2 text-sm text-slate-400 mb-3'>
-                      <span>{post.author_name}</span>
+                      <span>
+                        {resolvedEntries<Author>(post.author)[0]?.title ??
+                          post.author_name}
+                      </span>
                       <span>•</span>
                       <span>
                         {new Date(post.publish_date).toLocaleDateString()}
@@ -210,10 +316,12 @@ export function ContentDemo() {
                     <p className='text-slate-400 text-sm mb-4 line-clamp-2'>
                       {post.summary}
                     </p>
-                    <button className='flex items-center gap-1 text-purple-400 text-sm font-medium hover:gap-2 transition-all'>
+                    <Link
+                      to={post.url}
+                      className='flex items-center gap-1 text-purple-400 text-sm font-medium hover:gap-2 transition-all'>
                       Read more
                       <ChevronRight className='w-4 h-4' />
-                    </button>
+                    </Link>
                   </div>
 
                   {/* UID indicator */}
@@ -228,6 +336,35 @@ export function ContentDemo() {
             </div>
           )}
 
+        {/* Catalog filters */}
+        {activeType === 'product' &&
+          !isLoading &&
+          !error &&
+          totalProducts > 0 && (
+            <CatalogFilters
+              filters={catalog.filters}
+              facets={catalog.facets}
+              resultCount={catalog.products.length}
+              filtered={catalog.filtered}
+              onChange={changeFilters}
+              onReset={() => {
+                catalog.resetFilters();
+                setVisibleProducts(PAGE_SIZE);
+              }}
+            />
+          )}
+
+        {/* No products match the filters */}
+        {activeType === 'product' &&
+          !isLoading &&
+          !error &&
+          totalProducts > 0 &&
+          products.length === 0 && (
+            <p className='py-16 text-center text-slate-400'>
+              No products match these filters.
+            </p>
+          )}
+
         {/* Products Grid */}
         {activeType === 'product' &&
           !isLoading &&
@@ -248,7 +385,11 @@ export function ContentDemo() {
                     </span>
                   </div>
                   <h3 className='text-2xl font-bold text-white mb-2'>
-                    {product.title}
+                    <Link
+                      to={`/products/${encodeURIComponent(product.slug)}`}
+                      className='hover:text-emerald-400 transition-colors'>
+                      {product.title}
+                    </Link>
                   </h3>
                   <p className='text-slate-400 mb-6'>{product.description}</p>
                   <div className='flex items-center justify-between'>
@@ -285,6 +426,23 @@ export function ContentDemo() {
             </div>
           )}
 
+        {/* Load more */}
+        {!isLoading && !error && hasMore && (
+          <div className='flex justify-center mt-10'>
+            <button
+              onClick={loadMore}
+              disabled={loadingMore}
+              className='flex items-center gap-2 px-6 py-3 bg-slate-800 hover:bg-slate-700 text-white rounded-xl font-medium border border-slate-700 transition-colors disabled:opacity-50'>
+              {loadingMore ? (
+                <Loader2 className='w-4 h-4 animate-spin' />
+              ) : (
+                <ChevronDown className='w-4 h-4' />
+              )}
+              Load more
+            </button>
+          </div>
+        )}
+
         {/* Code example */}
         <div className='mt-12 p-6 bg-slate-800/50 rounded-2xl border border-slate-700/50'>
           <div className='flex items-center gap-2 text-slate-400 text-sm mb-4'>
@@ -293,15 +451,19 @@ export function ContentDemo() {
           </div>
           <pre className='text-sm overflow-x-auto'>
             <code className='text-purple-300'>
-              {`import { useEntries } from './hooks/useContent';
+              {`import { useEntries, useInfiniteEntries } from './hooks/useContent';
+import { useCatalog } from './hooks/useCatalog';
 import type { BlogPost, Product } from './lib/contentstack';
 
 function ContentDemo() {
-  // Fetches all blog posts from Contentstack
-  const { data: blogPosts, loading, refetch } = useEntries<BlogPost>('blog_post');
+  // Fetches blog posts from Contentstack, 6 per page
+  const { data: blogPosts, hasMore, loadMore } =
+    useInfiniteEntries<BlogPost>('blog_post', 6);
 
-  // Fetches all products from Contentstack
-  const { data: products } = useEntries<Product>('product');
+  // Fetches every product, then filters, sorts and counts facets
+  // from the filters in the URL (?category=Books&sort=price_asc)
+  const { data: allProducts } = useEntries<Product>('product');
+  const { products, facets, setFilters } = useCatalog(allProducts);
 
   return posts.map(post => <BlogCard key={post.uid} {...post} />);
 }`}
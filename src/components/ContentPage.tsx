@@ -0,0 +1,41 @@
+/**
+ * Content Page Component
+ *
+ * Renders a `page` entry's modular blocks through a block registry,
+ * so marketers can add and reorder sections in the CMS.
+ */
+import { useEffect, type ReactNode } from 'react';
+import { Loader2 } from 'lucide-react';
+import { useEntryByUrl } from '../hooks/useContent';
+import type { Page, PageSectionsBlock } from '../lib/contentstack';
+import type { BlockRegistry } from '../lib/blocks';
+import { analytics } from '../lib/analytics';
+import { ModularBlocks } from './ModularBlocks';
+
+interface ContentPageProps {
+  /** URL of the `page` entry, e.g. `/` */
+  url: string;
+  registry: BlockRegistry<PageSectionsBlock>;
+  /** Shown when there is no page entry for the URL, or it has no sections */
+  fallback?: ReactNode;
+}
+
+export function ContentPage({ url, registry, fallback }: ContentPageProps) {
+  const { data: page, loading, error } = useEntryByUrl<Page>('page', url);
+
+  useEffect(() => {
+    if (page) analytics.trackContentView('page', page.uid, page.title);
+  }, [page]);
+
+  if (loading) {
+    return (
+      <div className='flex items-center justify-center min-h-[500px]'>
+        <Loader2 className='w-8 h-8 text-purple-500 animate-spin' />
+      </div>
+    );
+  }
+
+  if (error || !page?.sections?.length) return fallback ?? null;
+
+  return <ModularBlocks blocks={page.sections} registry={registry} />;
+}
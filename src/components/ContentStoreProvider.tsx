@@ -0,0 +1,44 @@
+/**
+ * Content Store Provider Component
+ *
+ * Keeps a ContentStore in sync and lets the content hooks below it
+ * read from the store, so content stays available offline.
+ */
+import { useEffect, type ReactNode } from 'react';
+import { ContentStoreContext } from '../hooks/useContentStore';
+import type { ContentStore } from '../lib/sync';
+
+interface ContentStoreProviderProps {
+  store: ContentStore;
+  /** Delta sync every this many milliseconds while online */
+  syncInterval?: number;
+  children: ReactNode;
+}
+
+export function ContentStoreProvider({
+  store,
+  syncInterval,
+  children,
+}: ContentStoreProviderProps) {
+  useEffect(() => {
+    const sync = () => {
+      if (!navigator.onLine) return;
+      store.sync().catch((error) => console.warn('⚠️ Sync failed:', error));
+    };
+
+    sync();
+    window.addEventListener('online', sync);
+    const interval = syncInterval ? setInterval(sync, syncInterval) : null;
+
+    return () => {
+      window.removeEventListener('online', sync);
+      if (interval) clearInterval(interval);
+    };
+  }, [store, syncInterval]);
+
+  return (
+    <ContentStoreContext.Provider value={store}>
+      {children}
+    </ContentStoreContext.Provider>
+  );
+}
@@ -0,0 +1,104 @@
+/**
+ * Contentstack Image Component
+ *
+ * A responsive image for Contentstack assets: picks a size from a
+ * generated `srcset`, lazy loads by default and fades in over a
+ * blurred placeholder.
+ */
+import { useState } from 'react';
+import type { Asset } from '../lib/fields';
+import {
+  DEFAULT_WIDTHS,
+  imageSrcSet,
+  imageUrl,
+  isImageDeliveryUrl,
+  placeholderUrl,
+  type ImageTransform,
+} from '../lib/image';
+
+interface ContentstackImageProps {
+  /** An asset field, or an image URL */
+  src: Pick<Asset, 'url' | 'dimension'> | string | null | undefined;
+  alt: string;
+  /** Rendered width at each breakpoint, e.g. `(min-width: 768px) 50vw, 100vw` */
+  sizes?: string;
+  /** Candidate widths for `srcset` */
+  widths?: number[];
+  /**
+   * Transformations for every candidate. Set `width` and `height` to
+   * fix the aspect ratio.
+   */
+  transform?: Omit<ImageTransform, 'dpr'>;
+  /** Load immediately with high priority, e.g. for above-the-fold images */
+  priority?: boolean;
+  /** Show a blurred low-resolution version while loading (default: true) */
+  placeholder?: boolean;
+  /** Classes for the wrapper, which sizes and positions the image */
+  className?: string;
+  /** Classes for the `<img>` itself */
+  imgClassName?: string;
+}
+
+const DEFAULT_TRANSFORM: ImageTransform = { auto: 'webp', quality: 80 };
+
+export function ContentstackImage({
+  src,
+  alt,
+  sizes = '100vw',
+  widths = DEFAULT_WIDTHS,
+  transform,
+  priority = false,
+  placeholder = true,
+  className = '',
+  imgClassName = '',
+}: ContentstackImageProps) {
+  const [loadedUrl, setLoadedUrl] = useState<string | null>(null);
+
+  if (!src) return null;
+
+  const asset = typeof src === 'string' ? { url: src } : src;
+  const options = { ...DEFAULT_TRANSFORM, ...transform };
+  const url = imageUrl(asset, options);
+  const responsive = isImageDeliveryUrl(asset.url);
+  const blurUrl = placeholder ? placeholderUrl(asset, options) : null;
+  const loaded = loadedUrl === url;
+
+  // Intrinsic size, so the layout does not shift while loading
+  const { width, height } = options;
+  const dimension =
+    width && height
+      ? { width, height }
+      : typeof src === 'string'
+        ? undefined
+        : src.dimension;
+
+  return (
+    <div
+      className={`relative overflow-hidden ${className}`}
+      style={
+        blurUrl && !loaded
+          ? {
+              backgroundImage: `url(${blurUrl})`,
+              backgroundSize: 'cover',
+              backgroundPosition: 'center',
+            }
+          : undefined
+      }>
+      <img
+        src={url}
+        srcSet={responsive ? imageSrcSet(asset, widths, options) : undefined}
+        sizes={responsive ? sizes : undefined}
+        alt={alt}
+        width={dimension?.width}
+        height={dimension?.height}
+        loading={priority ? 'eager' : 'lazy'}
+        fetchPriority={priority ? 'high' : undefined}
+        decoding='async'
+        onLoad={() => setLoadedUrl(url)}
+        className={`transition-opacity duration-500 ${
+          blurUrl && !loaded ? 'opacity-0' : 'opacity-100'
+        } ${imgClassName}`}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+/**
+ * Contentstack Provider Component
+ *
+ * Makes a ContentstackClient available to the content hooks below it.
+ * Nest providers to read from a second stack or environment. A `config`
+ * is used whole, with its cache, retry and other options.
+ */
+import { useMemo, type ReactNode } from 'react';
+import { ContentstackContext } from '../hooks/useContentstack';
+import {
+  ContentstackClient,
+  type ContentstackConfig,
+} from '../lib/contentstack';
+
+type ContentstackProviderProps =
+  | { client: ContentstackClient; config?: never; children: ReactNode }
+  | { config: ContentstackConfig; client?: never; children: ReactNode };
+
+export function ContentstackProvider({
+  client,
+  config,
+  children,
+}: ContentstackProviderProps) {
+  // A new config object builds a new client, so keep it stable
+  const value = useMemo(
+    () => client ?? new ContentstackClient(config!),
+    [client, config]
+  );
+
+  return (
+    <ContentstackContext.Provider value={value}>
+      {children}
+    </ContentstackContext.Provider>
+  );
+}
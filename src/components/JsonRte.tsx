@@ -0,0 +1,238 @@
+/**
+ * JSON Rich Text Component
+ *
+ * Renders a JSON RTE document, including its embedded entries and
+ * assets. Any node type, reference kind or mark can be overridden.
+ */
+import { Fragment, type ReactNode } from 'react';
+import type {
+  JsonRteDocument,
+  JsonRteElement,
+  JsonRteNode,
+} from '../lib/fields';
+import {
+  MARKS,
+  attr,
+  findEmbeddedItem,
+  isText,
+  itemField,
+  referenceKind,
+  safeUrl,
+  type EmbeddedItem,
+  type Mark,
+} from '../lib/jsonRte';
+
+export interface NodeRendererProps {
+  node: JsonRteElement;
+  children: ReactNode;
+  /** The embedded item behind a `reference` node, if it was included */
+  item: EmbeddedItem | null;
+}
+
+export type NodeRenderer = (props: NodeRendererProps) => ReactNode;
+
+export type MarkRenderer = (children: ReactNode) => ReactNode;
+
+interface JsonRteProps {
+  document: JsonRteDocument | null | undefined;
+  /** The field's embedded items, e.g. `embeddedItemsOf(post, 'body')` */
+  embeddedItems?: EmbeddedItem[];
+  /**
+   * Override renderers by node type, or by reference kind:
+   * `entry-block`, `entry-inline`, `entry-link` or `asset`
+   */
+  renderers?: Partial<Record<string, NodeRenderer>>;
+  marks?: Partial<Record<Mark, MarkRenderer>>;
+  className?: string;
+}
+
+// ============================================
+// Default Renderers
+// ============================================
+
+const defaultMarks: Record<Mark, MarkRenderer> = {
+  bold: (children) => <strong className='font-semibold'>{children}</strong>,
+  italic: (children) => <em>{children}</em>,
+  underline: (children) => <u>{children}</u>,
+  strikethrough: (children) => <s>{children}</s>,
+  inlineCode: (children) => (
+    <code className='px-1.5 py-0.5 rounded bg-slate-800 text-purple-300 text-sm'>
+      {children}
+    </code>
+  ),
+  subscript: (children) => <sub>{children}</sub>,
+  superscript: (children) => <sup>{children}</sup>,
+};
+
+const defaultRenderers: Record<string, NodeRenderer> = {
+  doc: ({ children }) => children,
+  fragment: ({ children }) => children,
+  p: ({ children }) => <p className='mb-4 leading-relaxed'>{children}</p>,
+  h1: ({ children }) => (
+    <h1 className='text-4xl font-bold text-white mt-8 mb-4'>{children}</h1>
+  ),
+  h2: ({ children }) => (
+    <h2 className='text-3xl font-bold text-white mt-8 mb-4'>{children}</h2>
+  ),
+  h3: ({ children }) => (
+    <h3 className='text-2xl font-bold text-white mt-6 mb-3'>{children}</h3>
+  ),
+  h4: ({ children }) => (
+    <h4 className='text-xl font-semibold text-white mt-6 mb-3'>{children}</h4>
+  ),
+  h5: ({ children }) => (
+    <h5 className='text-lg font-semibold text-white mt-4 mb-2'>{children}</h5>
+  ),
+  h6: ({ children }) => (
+    <h6 className='font-semibold text-white mt-4 mb-2'>{children}</h6>
+  ),
+  blockquote: ({ children }) => (
+    <blockquote className='border-l-4 border-purple-500 pl-4 italic text-slate-400 mb-4'>
+      {children}
+    </blockquote>
+  ),
+  code: ({ children }) => (
+    <pre className='p-4 rounded-xl bg-slate-900 text-sm overflow-x-auto mb-4'>
+      <code>{children}</code>
+    </pre>
+  ),
+  hr: () => <hr className='my-8 border-slate-700' />,
+  ol: ({ children }) => (
+    <ol className='list-decimal pl-6 mb-4 space-y-1'>{children}</ol>
+  ),
+  ul: ({ children }) => (
+    <ul className='list-disc pl-6 mb-4 space-y-1'>{children}</ul>
+  ),
+  li: ({ children }) => <li>{children}</li>,
+  span: ({ children }) => <span>{children}</span>,
+  table: ({ children }) => (
+    <div className='overflow-x-auto mb-4'>
+      <table className='w-full border-collapse text-sm'>{children}</table>
+    </div>
+  ),
+  thead: ({ children }) => <thead>{children}</thead>,
+  tbody: ({ children }) => <tbody>{children}</tbody>,
+  tr: ({ children }) => (
+    <tr className='border-b border-slate-700'>{children}</tr>
+  ),
+  th: ({ children }) => (
+    <th className='px-3 py-2 text-left font-semibold text-white'>
+      {children}
+    </th>
+  ),
+  td: ({ children }) => <td className='px-3 py-2'>{children}</td>,
+  a: ({ node, children }) => (
+    <a
+      href={safeUrl(attr(node, 'url'))}
+      target={attr(node, 'target')}
+      className='text-purple-400 hover:text-purple-300 underline'>
+      {children}
+    </a>
+  ),
+  img: ({ node }) => (
+    <img
+      src={attr(node, 'url')}
+      alt={attr(node, 'alt') ?? ''}
+      className='rounded-xl mb-4'
+    />
+  ),
+  embed: ({ node }) => (
+    <iframe
+      src={safeUrl(attr(node, 'src'))}
+      className='w-full aspect-video rounded-xl mb-4'
+      allowFullScreen
+    />
+  ),
+  'social-embeds': ({ node }) => (
+    <iframe
+      src={safeUrl(attr(node, 'src'))}
+      className='w-full min-h-96 mb-4'
+    />
+  ),
+  'entry-block': ({ node, item }) => (
+    <div
+      data-entry-uid={attr(node, 'entry-uid')}
+      className='p-4 rounded-xl bg-slate-800/50 border border-slate-700/50 mb-4'>
+      {itemField(item, 'title') ?? attr(node, 'entry-uid')}
+    </div>
+  ),
+  'entry-inline': ({ node, item }) => (
+    <span
+      data-entry-uid={attr(node, 'entry-uid')}
+      className='px-1.5 rounded bg-slate-800 text-purple-300'>
+      {itemField(item, 'title') ?? attr(node, 'entry-uid')}
+    </span>
+  ),
+  'entry-link': ({ node, item, children }) => (
+    <a
+      href={safeUrl(attr(node, 'href') ?? itemField(item, 'url'))}
+      className='text-purple-400 hover:text-purple-300 underline'>
+      {children}
+    </a>
+  ),
+  asset: ({ node, item }) => (
+    <img
+      src={itemField(item, 'url') ?? attr(node, 'asset-link')}
+      alt={attr(node, 'asset-alt') ?? attr(node, 'asset-name') ?? ''}
+      className='rounded-xl mb-4'
+    />
+  ),
+};
+
+// ============================================
+// Component
+// ============================================
+
+function renderText(text: string): ReactNode {
+  const lines = text.split('\n');
+  return lines.map((line, index) => (
+    <Fragment key={index}>
+      {index > 0 && <br />}
+      {line}
+    </Fragment>
+  ));
+}
+
+export function JsonRte({
+  document,
+  embeddedItems,
+  renderers,
+  marks,
+  className,
+}: JsonRteProps) {
+  if (!document) return null;
+
+  const nodeRenderers = { ...defaultRenderers, ...renderers };
+  const markRenderers = { ...defaultMarks, ...marks };
+
+  // Unknown node types render their children
+  const render = (node: JsonRteNode, key: string | number): ReactNode => {
+    if (isText(node)) {
+      let content = renderText(node.text);
+      for (const mark of [...MARKS].reverse()) {
+        if (node[mark]) content = markRenderers[mark]!(content);
+      }
+      return <Fragment key={key}>{content}</Fragment>;
+    }
+
+    const children = node.children.map((child, index) =>
+      render(child, isText(child) ? index : (child.uid ?? index))
+    );
+    const item =
+      node.type === 'reference'
+        ? findEmbeddedItem(node, embeddedItems)
+        : null;
+    const renderer =
+      nodeRenderers[
+        node.type === 'reference' ? referenceKind(node) : node.type
+      ];
+
+    return (
+      <Fragment key={key}>
+        {renderer ? renderer({ node, children, item }) : children}
+      </Fragment>
+    );
+  };
+
+  return <div className={className}>{render(document, 'doc')}</div>;
+}
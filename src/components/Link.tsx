@@ -0,0 +1,35 @@
+/**
+ * Link Component
+ *
+ * An anchor that navigates within the app without a page load, while
+ * keeping the browser's behavior for new tabs and external links.
+ */
+import type { AnchorHTMLAttributes, MouseEvent } from 'react';
+import { navigate } from '../lib/router';
+
+interface LinkProps extends AnchorHTMLAttributes<HTMLAnchorElement> {
+  to: string;
+  replace?: boolean;
+}
+
+export function Link({ to, replace, onClick, target, ...props }: LinkProps) {
+  const handleClick = (event: MouseEvent<HTMLAnchorElement>) => {
+    onClick?.(event);
+    if (
+      event.defaultPrevented ||
+      event.button !== 0 ||
+      event.metaKey ||
+      event.ctrlKey ||
+      event.shiftKey ||
+      event.altKey ||
+      (target && target !== '_self')
+    ) {
+      return;
+    }
+
+    event.preventDefault();
+    navigate(to, { replace });
+  };
+
+  return <a href={to} target={target} onClick={handleClick} {...props} />;
+}
@@ -0,0 +1,46 @@
+/**
+ * Locale Provider Component
+ *
+ * Resolves the visitor's content locale from the `language` attribute
+ * detected by Personalize and shares it with the content hooks.
+ */
+import { useMemo, useState, type ReactNode } from 'react';
+import { usePersonalization } from '../hooks/usePersonalize';
+import { LocaleContext } from '../hooks/useLocale';
+import { getFallbackChain, resolveLocale } from '../lib/locale';
+
+interface LocaleProviderProps {
+  /** Force a locale instead of detecting it */
+  locale?: string;
+  children: ReactNode;
+}
+
+export function LocaleProvider({
+  locale: forced,
+  children,
+}: LocaleProviderProps) {
+  const { initialized, attributes } = usePersonalization();
+  const [selected, setSelected] = useState<string | null>(null);
+
+  const detected = initialized
+    ? resolveLocale(attributes.language as string | undefined)
+    : undefined;
+  const locale = forced ?? selected ?? detected;
+
+  const value = useMemo(
+    () => ({
+      locale,
+      fallbackChain: locale ? getFallbackChain(locale) : [],
+      setLocale: (next: string) => setSelected(resolveLocale(next)),
+    }),
+    [locale]
+  );
+
+  // Hold rendering until the locale is known so content is not
+  // fetched once in the master locale and again once detected
+  if (!locale) return null;
+
+  return (
+    <LocaleContext.Provider value={value}>{children}</LocaleContext.Provider>
+  );
+}
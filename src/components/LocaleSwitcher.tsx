@@ -0,0 +1,30 @@
+/**
+ * Locale Switcher Component
+ *
+ * Lets visitors override the detected content locale.
+ */
+import { Globe } from 'lucide-react';
+import { useLocale } from '../hooks/useLocale';
+import { SUPPORTED_LOCALES } from '../lib/locale';
+
+export function LocaleSwitcher() {
+  const { locale, fallbackChain, setLocale } = useLocale();
+
+  return (
+    <label
+      className='flex items-center gap-2 text-slate-400 hover:text-white transition-colors'
+      title={`Fallback: ${fallbackChain.join(' → ')}`}>
+      <Globe className='w-5 h-5' />
+      <select
+        value={locale}
+        onChange={(e) => setLocale(e.target.value)}
+        className='bg-transparent text-sm outline-none cursor-pointer'>
+        {SUPPORTED_LOCALES.map((code) => (
+          <option key={code} value={code} className='bg-slate-900'>
+            {code}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,105 @@
+/**
+ * Modular Blocks Component
+ *
+ * Renders a modular blocks field through a registry of components.
+ * Blocks without a registered component, and blocks that fail to
+ * render, fall back instead of breaking the page.
+ */
+import {
+  Component,
+  useEffect,
+  type ComponentType,
+  type ReactNode,
+} from 'react';
+import { Puzzle } from 'lucide-react';
+import {
+  blockComponent,
+  parseBlock,
+  type BlockRegistry,
+} from '../lib/blocks';
+
+export interface FallbackBlockProps {
+  uid: string;
+  fields: Record<string, unknown>;
+}
+
+interface ModularBlocksProps<B> {
+  blocks: B[] | null | undefined;
+  registry: BlockRegistry<B>;
+  /** Rendered for unregistered blocks; a notice in development by default */
+  fallback?: ComponentType<FallbackBlockProps>;
+}
+
+/**
+ * Flags an unregistered block while developing; renders nothing in
+ * production
+ */
+function UnknownBlock({ uid }: FallbackBlockProps) {
+  useEffect(() => {
+    console.warn(`⚠️ No component registered for block "${uid}"`);
+  }, [uid]);
+
+  if (!import.meta.env.DEV) return null;
+  return (
+    <div className='container mx-auto px-6 py-8'>
+      <div className='flex items-center gap-3 p-6 rounded-2xl border border-dashed border-slate-700 text-slate-500'>
+        <Puzzle className='w-5 h-5' />
+        <span>
+          No component registered for block{' '}
+          <code className='text-purple-400'>{uid}</code>
+        </span>
+      </div>
+    </div>
+  );
+}
+
+interface BlockBoundaryProps {
+  uid: string;
+  children: ReactNode;
+}
+
+/**
+ * Keeps one broken block from taking down the rest of the page
+ */
+class BlockBoundary extends Component<
+  BlockBoundaryProps,
+  { failed: boolean }
+> {
+  state = { failed: false };
+
+  static getDerivedStateFromError() {
+    return { failed: true };
+  }
+
+  componentDidCatch(error: unknown) {
+    console.error(`❌ Block "${this.props.uid}" failed to render:`, error);
+  }
+
+  render() {
+    return this.state.failed ? null : this.props.children;
+  }
+}
+
+export function ModularBlocks<B>({
+  blocks,
+  registry,
+  fallback: Fallback = UnknownBlock,
+}: ModularBlocksProps<B>) {
+  return (blocks ?? []).map((block, index) => {
+    const parsed = parseBlock(block, index);
+    if (!parsed) return null;
+
+    const BlockComponent = blockComponent(registry, parsed.uid);
+    if (!BlockComponent) {
+      return (
+        <Fallback key={parsed.key} uid={parsed.uid} fields={parsed.fields} />
+      );
+    }
+
+    return (
+      <BlockBoundary key={parsed.key} uid={parsed.uid}>
+        <BlockComponent {...parsed.fields} />
+      </BlockBoundary>
+    );
+  });
+}
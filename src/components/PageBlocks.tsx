@@ -0,0 +1,151 @@
+/**
+ * Page Block Components
+ *
+ * Sections a `page` entry can be assembled from. Each takes its
+ * block's fields as props, so it can be registered for the block.
+ */
+import { ArrowRight, FileText, Loader2, ShoppingBag } from 'lucide-react';
+import { useEntries } from '../hooks/useContent';
+import type {
+  BlogPost,
+  PageSectionsBlogList,
+  PageSectionsCtaBand,
+  PageSectionsProductGrid,
+  Product,
+} from '../lib/contentstack';
+import { ContentstackImage } from './ContentstackImage';
+
+function SectionHeader({
+  title,
+  subtitle,
+}: {
+  title: string;
+  subtitle?: string;
+}) {
+  return (
+    <div className='mb-12'>
+      <h2 className='text-3xl md:text-4xl font-bold text-white mb-2'>
+        {title}
+      </h2>
+      {subtitle && <p className='text-slate-400'>{subtitle}</p>}
+    </div>
+  );
+}
+
+function SectionLoader() {
+  return (
+    <div className='flex items-center justify-center py-20'>
+      <Loader2 className='w-8 h-8 text-purple-500 animate-spin' />
+    </div>
+  );
+}
+
+export function ProductGridBlock({
+  title,
+  subtitle,
+  category,
+  limit = 6,
+}: PageSectionsProductGrid) {
+  const { data, loading } = useEntries<Product>('product');
+  const products = data
+    .filter((product) => !category || product.category === category)
+    .slice(0, limit);
+
+  return (
+    <section className='py-20 bg-slate-900'>
+      <div className='container mx-auto px-6'>
+        <SectionHeader title={title} subtitle={subtitle} />
+        {loading ? (
+          <SectionLoader />
+        ) : (
+          <div className='grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6'>
+            {products.map((product) => (
+              <div
+                key={product.uid}
+                className='bg-slate-800/50 rounded-2xl overflow-hidden border border-slate-700/50 hover:border-emerald-500/50 transition-colors'>
+                {product.image?.url ? (
+                  <ContentstackImage
+                    src={product.image}
+                    alt={product.title}
+                    sizes='(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw'
+                    transform={{ width: 800, height: 480, fit: 'crop' }}
+                    className='h-48'
+                    imgClassName='w-full h-full object-cover'
+                  />
+                ) : (
+                  <div className='h-48 flex items-center justify-center bg-emerald-500/5'>
+                    <ShoppingBag className='w-12 h-12 text-emerald-500/30' />
+                  </div>
+                )}
+                <div className='p-6'>
+                  <h3 className='text-xl font-bold text-white mb-2'>
+                    {product.title}
+                  </h3>
+                  <p className='text-slate-400 text-sm mb-4 line-clamp-2'>
+                    {product.description}
+                  </p>
+                  <div className='text-2xl font-bold text-emerald-400'>
+                    ${product.price}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
+
+export function BlogListBlock({ title, limit = 3 }: PageSectionsBlogList) {
+  const { data, loading } = useEntries<BlogPost>('blog_post');
+  const posts = data.slice(0, limit);
+
+  return (
+    <section className='py-20 bg-gradient-to-b from-slate-900 to-slate-800'>
+      <div className='container mx-auto px-6'>
+        <SectionHeader title={title} />
+        {loading ? (
+          <SectionLoader />
+        ) : (
+          <div className='grid grid-cols-1 md:grid-cols-3 gap-6'>
+            {posts.map((post) => (
+              <article
+                key={post.uid}
+                className='bg-slate-800/50 rounded-2xl p-6 border border-slate-700/50 hover:border-purple-500/50 transition-colors'>
+                <FileText className='w-6 h-6 text-purple-400 mb-4' />
+                <h3 className='text-xl font-bold text-white mb-2'>
+                  {post.title}
+                </h3>
+                <p className='text-slate-400 text-sm line-clamp-3'>
+                  {post.summary}
+                </p>
+              </article>
+            ))}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
+
+export function CtaBandBlock({ title, text, cta }: PageSectionsCtaBand) {
+  return (
+    <section className='py-16 bg-gradient-to-r from-purple-600 to-indigo-600'>
+      <div className='container mx-auto px-6 flex flex-col md:flex-row md:items-center md:justify-between gap-6'>
+        <div>
+          <h2 className='text-2xl md:text-3xl font-bold text-white mb-2'>
+            {title}
+          </h2>
+          {text && <p className='text-purple-100 max-w-2xl'>{text}</p>}
+        </div>
+        <a
+          href={cta.href}
+          className='inline-flex items-center gap-2 px-6 py-3 bg-white text-purple-700 rounded-xl font-semibold hover:bg-purple-50 transition-colors whitespace-nowrap'>
+          {cta.title}
+          <ArrowRight className='w-5 h-5' />
+        </a>
+      </div>
+    </section>
+  );
+}
@@ -10,6 +10,7 @@ import { useVariant, usePersonalization } from '../hooks/usePersonalize';
 import { useContentTracking } from '../hooks/useAnalytics';
 import { useEntries } from '../hooks/useContent';
 import type { HeroBanner } from '../lib/contentstack';
+import { ContentstackImage } from './ContentstackImage';
 
 // Gradient options for different variants
 const gradientOptions: Record<string, string> = {
@@ -25,8 +26,15 @@ const iconOptions: Record<string, React.ReactNode> = {
   variant_eu: <Sparkles className='w-6 h-6' />,
 };
 
-export function PersonalizedHero() {
-  const { variant, loading: variantLoading } = useVariant('hero_experience');
+interface PersonalizedHeroProps {
+  /** Personalize experience that picks the banner variant */
+  experience?: string;
+}
+
+export function PersonalizedHero({
+  experience = 'hero_experience',
+}: PersonalizedHeroProps) {
+  const { variant, loading: variantLoading } = useVariant(experience);
   const { attributes } = usePersonalization();
 
   // Fetch all hero banners from CMS
@@ -88,11 +96,12 @@ export function PersonalizedHero() {
       className={`relative overflow-hidden bg-gradient-to-br ${gradient} min-h-[500px] flex items-center`}>
       {/* Background image if available */}
       {currentBanner.background_image?.url && (
-        <div
-          className='absolute inset-0 bg-cover bg-center opacity-20'
-          style={{
-            backgroundImage: `url(${currentBanner.background_image.url})`,
-          }}
+        <ContentstackImage
+          src={currentBanner.background_image}
+          alt=''
+          priority
+          className='absolute inset-0 opacity-20'
+          imgClassName='w-full h-full object-cover'
         />
       )}
 
@@ -0,0 +1,104 @@
+/**
+ * Product Page Component
+ *
+ * The detail page for `/products/:slug`: resolves the product by its
+ * slug and shows its details and specifications.
+ */
+import { ArrowLeft, ShoppingBag } from 'lucide-react';
+import { useEntryByUrl } from '../hooks/useContent';
+import { useContentTracking } from '../hooks/useAnalytics';
+import { useDocumentTitle } from '../hooks/useRouter';
+import type { Product } from '../lib/contentstack';
+import { ContentstackImage } from './ContentstackImage';
+import { Link } from './Link';
+import { NotFound, RouteError, RouteLoading } from './RouteStates';
+
+interface ProductPageProps {
+  slug: string;
+}
+
+export function ProductPage({ slug }: ProductPageProps) {
+  const {
+    data: product,
+    loading,
+    error,
+    refetch,
+  } = useEntryByUrl<Product>('product', slug);
+
+  useContentTracking('product', product?.uid ?? '', product?.title ?? '');
+  useDocumentTitle(product?.title);
+
+  if (loading) return <RouteLoading />;
+  if (error) return <RouteError error={error} onRetry={refetch} />;
+  if (!product) {
+    return (
+      <NotFound
+        title='Product not found'
+        description="This product doesn't exist or is no longer available."
+        backTo='/#content'
+        backLabel='Back to products'
+      />
+    );
+  }
+
+  return (
+    <section className='py-12'>
+      <div className='container mx-auto px-6 max-w-5xl'>
+        <Link
+          to='/#content'
+          className='inline-flex items-center gap-2 text-slate-400 hover:text-white transition-colors mb-8'>
+          <ArrowLeft className='w-4 h-4' />
+          All products
+        </Link>
+
+        <div className='grid grid-cols-1 md:grid-cols-2 gap-12'>
+          {product.image?.url ? (
+            <ContentstackImage
+              src={product.image}
+              alt={product.title}
+              sizes='(min-width: 768px) 50vw, 100vw'
+              transform={{ width: 1200, height: 1200, fit: 'crop' }}
+              priority
+              className='rounded-2xl aspect-square'
+              imgClassName='w-full h-full object-cover'
+            />
+          ) : (
+            <div className='flex items-center justify-center rounded-2xl aspect-square bg-emerald-500/5'>
+              <ShoppingBag className='w-24 h-24 text-emerald-500/30' />
+            </div>
+          )}
+
+          <div>
+            <span className='px-3 py-1 rounded-full bg-slate-700 text-slate-300 text-sm'>
+              {product.category}
+            </span>
+            <h1 className='text-4xl font-bold text-white mt-4 mb-4'>
+              {product.title}
+            </h1>
+            <div className='text-3xl font-bold text-emerald-400 mb-6'>
+              ${product.price}
+            </div>
+            <p className='text-slate-300 mb-6'>{product.description}</p>
+            <p
+              className={`text-sm mb-8 ${
+                product.in_stock ? 'text-emerald-400' : 'text-red-400'
+              }`}>
+              {product.in_stock ? 'In Stock' : 'Out of Stock'}
+            </p>
+
+            {product.specifications && product.specifications.length > 0 && (
+              <dl className='divide-y divide-slate-800 border-y border-slate-800'>
+                {product.specifications.map((spec) => (
+                  <div key={spec.label} className='flex justify-between py-3'>
+                    <dt className='text-slate-400'>{spec.label}</dt>
+                    <dd className='text-white'>{spec.value}</dd>
+                  </div>
+                ))}
+              </dl>
+            )}
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,78 @@
+/**
+ * Route State Components
+ *
+ * The loading, error and not-found states shared by routed pages.
+ * Not found covers both unmatched paths and URLs without an entry.
+ */
+import { AlertCircle, ArrowLeft, Loader2, SearchX } from 'lucide-react';
+import { isContentstackError } from '../lib/errors';
+import { Link } from './Link';
+
+export function RouteLoading() {
+  return (
+    <div className='flex items-center justify-center min-h-[60vh]'>
+      <Loader2 className='w-8 h-8 text-purple-500 animate-spin' />
+    </div>
+  );
+}
+
+interface RouteErrorProps {
+  error: Error;
+  onRetry: () => void;
+}
+
+export function RouteError({ error, onRetry }: RouteErrorProps) {
+  return (
+    <section className='flex items-center justify-center min-h-[60vh] px-6'>
+      <div className='flex flex-col items-center gap-4 text-center max-w-md'>
+        <div className='p-4 rounded-full bg-red-500/10'>
+          <AlertCircle className='w-10 h-10 text-red-400' />
+        </div>
+        <h1 className='text-3xl font-bold text-white'>
+          {isContentstackError(error) && error.kind === 'network'
+            ? "Can't reach Contentstack"
+            : 'Failed to load this page'}
+        </h1>
+        <p className='text-slate-400'>{error.message}</p>
+        <button
+          onClick={onRetry}
+          className='px-4 py-2 bg-purple-600 hover:bg-purple-500 text-white rounded-lg font-medium transition-colors'>
+          Try Again
+        </button>
+      </div>
+    </section>
+  );
+}
+
+interface NotFoundProps {
+  title?: string;
+  description?: string;
+  /** Where the back link goes */
+  backTo?: string;
+  backLabel?: string;
+}
+
+export function NotFound({
+  title = 'Page not found',
+  description = "The page you're looking for doesn't exist or has been unpublished.",
+  backTo = '/',
+  backLabel = 'Back to home',
+}: NotFoundProps) {
+  return (
+    <section className='flex items-center justify-center min-h-[60vh] px-6'>
+      <div className='flex flex-col items-center gap-4 text-center max-w-md'>
+        <div className='p-4 rounded-full bg-slate-800'>
+          <SearchX className='w-10 h-10 text-slate-500' />
+        </div>
+        <h1 className='text-3xl font-bold text-white'>{title}</h1>
+        <p className='text-slate-400'>{description}</p>
+        <Link
+          to={backTo}
+          className='flex items-center gap-2 px-4 py-2 bg-purple-600 hover:bg-purple-500 text-white rounded-lg font-medium transition-colors'>
+          <ArrowLeft className='w-4 h-4' />
+          {backLabel}
+        </Link>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,185 @@
+/**
+ * Site Search Component
+ *
+ * A search box for the navigation bar. Results for blog posts and
+ * products appear as you type, with the matching terms highlighted.
+ * Open it with `/` or ⌘K; use the arrow keys and Enter to pick one.
+ */
+import {
+  useEffect,
+  useRef,
+  useState,
+  type KeyboardEvent as ReactKeyboardEvent,
+} from 'react';
+import { FileText, Loader2, Search, ShoppingBag, X } from 'lucide-react';
+import { useSearch } from '../hooks/useSearch';
+import { navigate } from '../lib/router';
+import { highlight, searchTerms, type SearchResult } from '../lib/search';
+import { Link } from './Link';
+
+function Highlighted({ text, terms }: { text: string; terms: string[] }) {
+  return highlight(text, terms).map((segment, index) =>
+    segment.match ? (
+      <mark key={index} className='bg-purple-500/30 text-white rounded-sm'>
+        {segment.text}
+      </mark>
+    ) : (
+      <span key={index}>{segment.text}</span>
+    )
+  );
+}
+
+function ResultIcon({ contentType }: Pick<SearchResult, 'contentType'>) {
+  return contentType === 'product' ? (
+    <ShoppingBag className='w-4 h-4 text-emerald-400 shrink-0 mt-0.5' />
+  ) : (
+    <FileText className='w-4 h-4 text-purple-400 shrink-0 mt-0.5' />
+  );
+}
+
+export function SiteSearch() {
+  const [open, setOpen] = useState(false);
+  const [input, setInput] = useState('');
+  const [active, setActive] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { results, loading, error } = useSearch(input);
+
+  const terms = searchTerms(input);
+  const activeIndex = Math.min(active, results.length - 1);
+
+  const close = () => {
+    setOpen(false);
+    setInput('');
+    setActive(0);
+  };
+
+  // Open from anywhere with `/` or ⌘K / Ctrl+K
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      const typing =
+        target.isContentEditable ||
+        ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+      const shortcut =
+        (event.key === 'k' && (event.metaKey || event.ctrlKey)) ||
+        (event.key === '/' && !typing);
+      if (!shortcut) return;
+
+      event.preventDefault();
+      setOpen(true);
+      inputRef.current?.focus();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!open) return;
+    const onPointerDown = (event: PointerEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('pointerdown', onPointerDown);
+    return () => document.removeEventListener('pointerdown', onPointerDown);
+  }, [open]);
+
+  const onKeyDown = (event: ReactKeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Escape') {
+      close();
+      inputRef.current?.blur();
+    } else if (event.key === 'ArrowDown' && results.length > 0) {
+      event.preventDefault();
+      setActive((activeIndex + 1) % results.length);
+    } else if (event.key === 'ArrowUp' && results.length > 0) {
+      event.preventDefault();
+      setActive((activeIndex - 1 + results.length) % results.length);
+    } else if (event.key === 'Enter' && results[activeIndex]) {
+      navigate(results[activeIndex].url);
+      close();
+    }
+  };
+
+  const showPanel = open && terms.length > 0;
+
+  return (
+    <div ref={containerRef} className='relative'>
+      <label className='flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-800/60 border border-slate-700 focus-within:border-purple-500/60 text-slate-400 transition-colors'>
+        {loading ? (
+          <Loader2 className='w-4 h-4 animate-spin' />
+        ) : (
+          <Search className='w-4 h-4' />
+        )}
+        <input
+          ref={inputRef}
+          type='search'
+          value={input}
+          placeholder='Search'
+          aria-label='Search blog posts and products'
+          onFocus={() => setOpen(true)}
+          onChange={(e) => {
+            setInput(e.target.value);
+            setActive(0);
+            setOpen(true);
+          }}
+          onKeyDown={onKeyDown}
+          className='w-28 lg:w-44 bg-transparent text-sm text-white placeholder:text-slate-500 outline-none [&::-webkit-search-cancel-button]:hidden'
+        />
+        {input ? (
+          <button
+            type='button'
+            aria-label='Clear search'
+            onClick={close}
+            className='hover:text-white transition-colors'>
+            <X className='w-4 h-4' />
+          </button>
+        ) : (
+          <kbd className='hidden lg:inline text-xs text-slate-500'>/</kbd>
+        )}
+      </label>
+
+      {showPanel && (
+        <div className='absolute right-0 mt-2 w-[22rem] max-w-[calc(100vw-3rem)] rounded-xl bg-slate-900 border border-slate-700 shadow-2xl overflow-hidden'>
+          {error ? (
+            <p className='p-4 text-sm text-red-400'>
+              Search failed: {error.message}
+            </p>
+          ) : results.length === 0 ? (
+            <p className='p-4 text-sm text-slate-400'>
+              {loading ? 'Searching…' : `No results for “${input.trim()}”`}
+            </p>
+          ) : (
+            <ul role='listbox' className='max-h-96 overflow-y-auto py-2'>
+              {results.map((result, index) => (
+                <li
+                  key={`${result.contentType}:${result.uid}`}
+                  role='option'
+                  aria-selected={index === activeIndex}>
+                  <Link
+                    to={result.url}
+                    onClick={close}
+                    onMouseEnter={() => setActive(index)}
+                    className={`flex items-start gap-3 px-4 py-3 transition-colors ${
+                      index === activeIndex ? 'bg-slate-800' : ''
+                    }`}>
+                    <ResultIcon contentType={result.contentType} />
+                    <div className='min-w-0'>
+                      <div className='text-sm font-medium text-white truncate'>
+                        <Highlighted text={result.title} terms={terms} />
+                      </div>
+                      <div className='text-xs text-slate-400 line-clamp-2'>
+                        <Highlighted text={result.excerpt} terms={terms} />
+                      </div>
+                    </div>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
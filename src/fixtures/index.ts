@@ -0,0 +1,25 @@
+/**
+ * Bundled Fixtures
+ *
+ * One Delivery API entries response per content type, served by the
+ * client when it runs from fixtures. Each file is loaded on first use,
+ * so builds talking to a real stack never download them.
+ */
+import type { FixtureSet } from '../lib/fixtures';
+
+const files = import.meta.glob<FixtureSet[string]>('./*.json', {
+  import: 'default',
+});
+
+/**
+ * Load every fixture file, keyed by content type UID (its file name)
+ */
+export async function loadFixtures(): Promise<FixtureSet> {
+  const loaded = await Promise.all(
+    Object.entries(files).map(async ([path, load]) => [
+      path.replace(/^\.\/(.+)\.json$/, '$1'),
+      await load(),
+    ])
+  );
+  return Object.fromEntries(loaded);
+}
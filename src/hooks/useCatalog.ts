@@ -0,0 +1,75 @@
+/**
+ * Product Catalog Hook
+ *
+ * Keeps the catalog filters in the URL query string, so filtered
+ * views can be shared and survive a reload, and derives the matching
+ * products and facet counts from them.
+ */
+import { useCallback, useMemo } from 'react';
+import {
+  DEFAULT_CATALOG_FILTERS,
+  catalogFacets,
+  filterProducts,
+  parseCatalogFilters,
+  writeCatalogFilters,
+  type CatalogFacets,
+  type CatalogFilters,
+} from '../lib/catalog';
+import type { Product } from '../lib/contentstack';
+import { useSearchParams } from './useRouter';
+
+// ============================================
+// Types
+// ============================================
+
+interface UseCatalogResult {
+  filters: CatalogFilters;
+  /** The products passing the filters, sorted */
+  products: Product[];
+  facets: CatalogFacets;
+  /** Whether any filter differs from its default */
+  filtered: boolean;
+  setFilters: (changes: Partial<CatalogFilters>) => void;
+  resetFilters: () => void;
+}
+
+// ============================================
+// Hook
+// ============================================
+
+/**
+ * Filter, sort and count the full list of products
+ */
+export function useCatalog(allProducts: Product[]): UseCatalogResult {
+  const [params, setParams] = useSearchParams();
+  const filters = useMemo(() => parseCatalogFilters(params), [params]);
+
+  const products = useMemo(
+    () => filterProducts(allProducts, filters),
+    [allProducts, filters]
+  );
+  const facets = useMemo(
+    () => catalogFacets(allProducts, filters),
+    [allProducts, filters]
+  );
+
+  const setFilters = useCallback(
+    (changes: Partial<CatalogFilters>) => {
+      setParams(writeCatalogFilters(params, { ...filters, ...changes }));
+    },
+    [params, filters, setParams]
+  );
+
+  const resetFilters = useCallback(() => {
+    setParams(writeCatalogFilters(params, DEFAULT_CATALOG_FILTERS));
+  }, [params, setParams]);
+
+  const filtered =
+    filters.categories.length > 0 ||
+    filters.minPrice !== null ||
+    filters.maxPrice !== null ||
+    filters.inStock ||
+    filters.sort !== DEFAULT_CATALOG_FILTERS.sort;
+
+  return { filters, products, facets, filtered, setFilters, resetFilters };
+}
@@ -4,8 +4,12 @@
  * These hooks provide easy-to-use interfaces for fetching
  * and managing content from Contentstack.
  */
-import { useState, useEffect, useCallback } from 'react';
-import { getEntries, getEntryByUid, getEntryByUrl } from '../lib/contentstack';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type { ContentSource, FetchOptions } from '../lib/contentstack';
+import type { CacheStatus } from '../lib/cache';
+import { useContentstack } from './useContentstack';
+import { useContentStore } from './useContentStore';
+import { useLocale } from './useLocale';
 
 // ============================================
 // Types
@@ -14,17 +18,174 @@ import { getEntries, getEntryByUid, getEntryByUrl } from '../lib/contentstack';
 interface UseContentResult<T> {
   data: T | null;
   loading: boolean;
+  /** A ContentstackError when the request failed; switch on its `kind` */
   error: Error | null;
+  /** Served from an expired cache record that is being revalidated */
+  stale: boolean;
+  /** Refetch from the network, bypassing the cache */
   refetch: () => Promise<void>;
 }
 
 interface UseEntriesResult<T> {
   data: T[];
   loading: boolean;
+  /** A ContentstackError when the request failed; switch on its `kind` */
   error: Error | null;
+  /** Served from an expired cache record that is being revalidated */
+  stale: boolean;
+  /** Refetch from the network, bypassing the cache */
   refetch: () => Promise<void>;
 }
 
+interface UsePaginatedEntriesResult<T> extends UseEntriesResult<T> {
+  page: number;
+  pageCount: number;
+  total: number;
+  setPage: (page: number) => void;
+  nextPage: () => void;
+  prevPage: () => void;
+}
+
+interface UseInfiniteEntriesResult<T> extends UseEntriesResult<T> {
+  total: number;
+  hasMore: boolean;
+  loadingMore: boolean;
+  loadMore: () => Promise<void>;
+}
+
+// How a hook's fetch was triggered
+interface FetchRequest {
+  /** Bypass the cache */
+  reload?: boolean;
+  /** Keep showing current data instead of a loading state */
+  silent?: boolean;
+  /** Aborted when the effect that started the fetch is cleaned up */
+  signal?: AbortSignal;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Read from the synced store when one is provided, else the API
+ */
+function useContentSource(): ContentSource {
+  const client = useContentstack();
+  const store = useContentStore();
+  return store ?? client;
+}
+
+/**
+ * Merge in the active locale and compare fetch options by value so
+ * that inline option objects do not trigger a refetch on every render.
+ * The signal is passed through as is, and `onCacheStatus` always calls
+ * the latest callback without counting as a change.
+ */
+function useFetchOptions(options: FetchOptions): FetchOptions {
+  const { locale } = useLocale();
+  const { signal, onCacheStatus, ...values } = options;
+  const key = JSON.stringify({ locale, ...values });
+
+  const onCacheStatusRef = useRef(onCacheStatus);
+  useEffect(() => {
+    onCacheStatusRef.current = onCacheStatus;
+  });
+  const reportsCacheStatus = onCacheStatus !== undefined;
+
+  return useMemo(
+    () => ({
+      ...(JSON.parse(key) as FetchOptions),
+      signal,
+      onCacheStatus: reportsCacheStatus
+        ? (status: CacheStatus) => onCacheStatusRef.current?.(status)
+        : undefined,
+    }),
+    [key, signal, reportsCacheStatus]
+  );
+}
+
+/**
+ * The options for one request of a hook. The caller's signal and
+ * `onCacheStatus` still apply alongside the hook's own.
+ */
+function requestOptions(
+  fetchOptions: FetchOptions,
+  signal?: AbortSignal,
+  onCacheStatus?: (status: CacheStatus) => void
+): FetchOptions {
+  const signals = [fetchOptions.signal, signal].filter(
+    (value): value is AbortSignal => value !== undefined
+  );
+  return {
+    ...fetchOptions,
+    signal: signals.length > 1 ? AbortSignal.any(signals) : signals[0],
+    onCacheStatus: (status) => {
+      onCacheStatus?.(status);
+      fetchOptions.onCacheStatus?.(status);
+    },
+  };
+}
+
+/**
+ * Collect the cache status of every request behind one fetch
+ */
+function trackStaleness() {
+  let stale = false;
+  return {
+    onCacheStatus: (status: CacheStatus) => {
+      if (status === 'stale') stale = true;
+    },
+    isStale: () => stale,
+  };
+}
+
+/**
+ * While data is stale, refresh it once the client has revalidated.
+ * Also refresh whenever a sync changes the store.
+ */
+function useRevalidation(stale: boolean, refresh: () => unknown) {
+  const client = useContentstack();
+  const store = useContentStore();
+
+  useEffect(() => {
+    if (!stale) return;
+    return client.onRevalidate(() => {
+      refresh();
+    });
+  }, [client, stale, refresh]);
+
+  useEffect(() => {
+    if (!store) return;
+    return store.subscribe(() => {
+      refresh();
+    });
+  }, [store, refresh]);
+}
+
+/**
+ * Refetch when the Live Preview editor changes an entry this hook
+ * shows: any entry of the content type, or the one entry by UID
+ */
+function useLivePreviewRefresh(
+  contentType: string,
+  uid: string | null,
+  refresh: () => unknown
+) {
+  const client = useContentstack();
+
+  useEffect(() => {
+    if (!client.livePreview) return;
+    return client.livePreview.subscribe((change) => {
+      if (change.contentTypeUid && change.contentTypeUid !== contentType) {
+        return;
+      }
+      if (uid && change.entryUid && change.entryUid !== uid) return;
+      refresh();
+    });
+  }, [client, contentType, uid, refresh]);
+}
+
 // ============================================
 // Hooks
 // ============================================
@@ -32,31 +193,300 @@ interface UseEntriesResult<T> {
 /**
  * Fetch multiple entries of a content type
  */
-export function useEntries<T>(contentType: string): UseEntriesResult<T> {
+export function useEntries<T>(
+  contentType: string,
+  options: FetchOptions = {}
+): UseEntriesResult<T> {
+  const source = useContentSource();
+  const fetchOptions = useFetchOptions(options);
+  const [data, setData] = useState<T[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+  const [stale, setStale] = useState(false);
+
+  const fetchData = useCallback(
+    async ({ reload = false, silent = false, signal }: FetchRequest = {}) => {
+      if (!silent) setLoading(true);
+      setError(null);
+      try {
+        const tracker = trackStaleness();
+        const entries = await source.getEntries<T>(contentType, {
+          ...requestOptions(fetchOptions, signal, tracker.onCacheStatus),
+          cache: reload ? 'reload' : 'default',
+        });
+        if (signal?.aborted) return;
+        setData(entries);
+        setStale(tracker.isStale());
+      } catch (err) {
+        if (signal?.aborted) return;
+        setError(
+          err instanceof Error ? err : new Error('Failed to fetch entries')
+        );
+      } finally {
+        if (!signal?.aborted) setLoading(false);
+      }
+    },
+    [source, contentType, fetchOptions]
+  );
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetchData({ signal: controller.signal });
+    return () => controller.abort();
+  }, [fetchData]);
+
+  const revalidate = useCallback(
+    () => fetchData({ silent: true }),
+    [fetchData]
+  );
+  useRevalidation(stale, revalidate);
+  useLivePreviewRefresh(contentType, null, revalidate);
+
+  const refetch = useCallback(() => fetchData({ reload: true }), [fetchData]);
+
+  return { data, loading, error, stale, refetch };
+}
+
+/**
+ * Fetch one page of entries at a time, with page navigation
+ */
+export function usePaginatedEntries<T>(
+  contentType: string,
+  pageSize = 10,
+  options: FetchOptions = {}
+): UsePaginatedEntriesResult<T> {
+  const source = useContentSource();
+  const fetchOptions = useFetchOptions(options);
+  const [page, setPageIndex] = useState(0);
   const [data, setData] = useState<T[]>([]);
+  const [total, setTotal] = useState(0);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
+  const [stale, setStale] = useState(false);
 
-  const fetchData = useCallback(async () => {
+  const fetchPage = useCallback(
+    (pageIndex: number, { reload = false, signal }: FetchRequest = {}) => {
+      const tracker = trackStaleness();
+      return source
+        .getEntriesPage<T>(contentType, {
+          ...requestOptions(fetchOptions, signal, tracker.onCacheStatus),
+          skip: pageIndex * pageSize,
+          limit: pageSize,
+          cache: reload ? 'reload' : 'default',
+        })
+        .then((result) => {
+          if (signal?.aborted) return;
+          setData(result.entries);
+          setTotal(result.count);
+          setStale(tracker.isStale());
+          setError(null);
+        })
+        .catch((err) => {
+          if (signal?.aborted) return;
+          setError(
+            err instanceof Error ? err : new Error('Failed to fetch entries')
+          );
+        })
+        .finally(() => {
+          if (!signal?.aborted) setLoading(false);
+        });
+    },
+    [source, contentType, pageSize, fetchOptions]
+  );
+
+  // A new query starts over from its first page
+  const query = useMemo(
+    () => ({ source, contentType, pageSize, fetchOptions }),
+    [source, contentType, pageSize, fetchOptions]
+  );
+  const [currentQuery, setCurrentQuery] = useState(query);
+  if (currentQuery !== query) {
+    setCurrentQuery(query);
+    setPageIndex(0);
     setLoading(true);
-    setError(null);
+  }
+
+  // Aborted when the query or page changes, dropping late responses
+  const pageSignal = useRef<AbortSignal | undefined>(undefined);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    pageSignal.current = controller.signal;
+    fetchPage(page, { signal: controller.signal });
+    return () => controller.abort();
+  }, [fetchPage, page]);
+
+  const refreshPage = useCallback(
+    () => fetchPage(page, { signal: pageSignal.current }),
+    [fetchPage, page]
+  );
+  useRevalidation(stale, refreshPage);
+  useLivePreviewRefresh(contentType, null, refreshPage);
+
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+
+  const setPage = useCallback(
+    (next: number) => {
+      const clamped = Math.min(Math.max(0, next), pageCount - 1);
+      if (clamped === page) return;
+      setLoading(true);
+      setPageIndex(clamped);
+    },
+    [page, pageCount]
+  );
+
+  const refetch = useCallback(async () => {
+    setLoading(true);
+    await fetchPage(page, { reload: true, signal: pageSignal.current });
+  }, [fetchPage, page]);
+
+  return {
+    data,
+    loading,
+    error,
+    stale,
+    refetch,
+    page,
+    pageCount,
+    total,
+    setPage,
+    nextPage: () => setPage(page + 1),
+    prevPage: () => setPage(page - 1),
+  };
+}
+
+/**
+ * Fetch entries page by page, appending each page to the list
+ */
+export function useInfiniteEntries<T>(
+  contentType: string,
+  pageSize = 10,
+  options: FetchOptions = {}
+): UseInfiniteEntriesResult<T> {
+  const source = useContentSource();
+  const fetchOptions = useFetchOptions(options);
+  const [data, setData] = useState<T[]>([]);
+  const [total, setTotal] = useState(0);
+  // Entries read so far, including any dropped by validation
+  const [offset, setOffset] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const [stale, setStale] = useState(false);
+
+  const fetchFirstPage = useCallback(
+    ({ reload = false, signal }: FetchRequest = {}) => {
+      const tracker = trackStaleness();
+      return source
+        .getEntriesPage<T>(contentType, {
+          ...requestOptions(fetchOptions, signal, tracker.onCacheStatus),
+          skip: 0,
+          limit: pageSize,
+          cache: reload ? 'reload' : 'default',
+        })
+        .then((result) => {
+          if (signal?.aborted) return;
+          setData(result.entries);
+          setTotal(result.count);
+          setOffset(Math.min(result.limit, result.count));
+          setStale(tracker.isStale());
+          setError(null);
+        })
+        .catch((err) => {
+          if (signal?.aborted) return;
+          setError(
+            err instanceof Error ? err : new Error('Failed to fetch entries')
+          );
+        })
+        .finally(() => {
+          if (!signal?.aborted) setLoading(false);
+        });
+    },
+    [source, contentType, pageSize, fetchOptions]
+  );
+
+  // A new query starts over, so no page can be loaded past the old one
+  const query = useMemo(
+    () => ({ source, contentType, pageSize, fetchOptions }),
+    [source, contentType, pageSize, fetchOptions]
+  );
+  const [currentQuery, setCurrentQuery] = useState(query);
+  if (currentQuery !== query) {
+    setCurrentQuery(query);
+    setTotal(0);
+    setOffset(0);
+    setLoading(true);
+    setLoadingMore(false);
+  }
+
+  // Aborted when the query changes, dropping responses to the old one
+  const querySignal = useRef<AbortSignal | undefined>(undefined);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    querySignal.current = controller.signal;
+    fetchFirstPage({ signal: controller.signal });
+    return () => controller.abort();
+  }, [fetchFirstPage]);
+
+  const refreshFirstPage = useCallback(
+    () => fetchFirstPage({ signal: querySignal.current }),
+    [fetchFirstPage]
+  );
+  useRevalidation(stale, refreshFirstPage);
+  useLivePreviewRefresh(contentType, null, refreshFirstPage);
+
+  const hasMore = offset < total;
+
+  const loadMore = useCallback(async () => {
+    if (!hasMore || loadingMore) return;
+
+    const signal = querySignal.current;
+    setLoadingMore(true);
     try {
-      const entries = await getEntries<T>(contentType);
-      setData(entries);
+      const result = await source.getEntriesPage<T>(contentType, {
+        ...requestOptions(fetchOptions, signal),
+        skip: offset,
+        limit: pageSize,
+      });
+      if (signal?.aborted) return;
+      setData((current) => [...current, ...result.entries]);
+      setTotal(result.count);
+      setOffset(Math.min(result.skip + result.limit, result.count));
     } catch (err) {
+      if (signal?.aborted) return;
       setError(
         err instanceof Error ? err : new Error('Failed to fetch entries')
       );
     } finally {
-      setLoading(false);
+      if (!signal?.aborted) setLoadingMore(false);
     }
-  }, [contentType]);
+  }, [
+    source,
+    contentType,
+    pageSize,
+    fetchOptions,
+    offset,
+    hasMore,
+    loadingMore,
+  ]);
 
-  useEffect(() => {
-    fetchData();
-  }, [fetchData]);
+  const refetch = useCallback(async () => {
+    setLoading(true);
+    await fetchFirstPage({ reload: true, signal: querySignal.current });
+  }, [fetchFirstPage]);
 
-  return { data, loading, error, refetch: fetchData };
+  return {
+    data,
+    loading,
+    error,
+    stale,
+    refetch,
+    total,
+    hasMore,
+    loadingMore,
+    loadMore,
+  };
 }
 
 /**
@@ -64,35 +494,62 @@ export function useEntries<T>(contentType: string): UseEntriesResult<T> {
  */
 export function useEntry<T>(
   contentType: string,
-  uid: string
+  uid: string,
+  options: FetchOptions = {}
 ): UseContentResult<T> {
+  const source = useContentSource();
+  const fetchOptions = useFetchOptions(options);
   const [data, setData] = useState<T | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
+  const [stale, setStale] = useState(false);
 
-  const fetchData = useCallback(async () => {
-    if (!uid) {
-      setLoading(false);
-      return;
-    }
+  const fetchData = useCallback(
+    async ({ reload = false, silent = false, signal }: FetchRequest = {}) => {
+      if (!uid) {
+        setLoading(false);
+        return;
+      }
 
-    setLoading(true);
-    setError(null);
-    try {
-      const entry = await getEntryByUid<T>(contentType, uid);
-      setData(entry);
-    } catch (err) {
-      setError(err instanceof Error ? err : new Error('Failed to fetch entry'));
-    } finally {
-      setLoading(false);
-    }
-  }, [contentType, uid]);
+      if (!silent) setLoading(true);
+      setError(null);
+      try {
+        const tracker = trackStaleness();
+        const entry = await source.getEntryByUid<T>(contentType, uid, {
+          ...requestOptions(fetchOptions, signal, tracker.onCacheStatus),
+          cache: reload ? 'reload' : 'default',
+        });
+        if (signal?.aborted) return;
+        setData(entry);
+        setStale(tracker.isStale());
+      } catch (err) {
+        if (signal?.aborted) return;
+        setError(
+          err instanceof Error ? err : new Error('Failed to fetch entry')
+        );
+      } finally {
+        if (!signal?.aborted) setLoading(false);
+      }
+    },
+    [source, contentType, uid, fetchOptions]
+  );
 
   useEffect(() => {
-    fetchData();
+    const controller = new AbortController();
+    fetchData({ signal: controller.signal });
+    return () => controller.abort();
   }, [fetchData]);
 
-  return { data, loading, error, refetch: fetchData };
+  const revalidate = useCallback(
+    () => fetchData({ silent: true }),
+    [fetchData]
+  );
+  useRevalidation(stale, revalidate);
+  useLivePreviewRefresh(contentType, uid, revalidate);
+
+  const refetch = useCallback(() => fetchData({ reload: true }), [fetchData]);
+
+  return { data, loading, error, stale, refetch };
 }
 
 /**
@@ -100,41 +557,73 @@ export function useEntry<T>(
  */
 export function useEntryByUrl<T>(
   contentType: string,
-  url: string
+  url: string,
+  options: FetchOptions = {}
 ): UseContentResult<T> {
+  const source = useContentSource();
+  const fetchOptions = useFetchOptions(options);
   const [data, setData] = useState<T | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
+  const [stale, setStale] = useState(false);
 
-  const fetchData = useCallback(async () => {
-    if (!url) {
-      setLoading(false);
-      return;
-    }
+  const fetchData = useCallback(
+    async ({ reload = false, silent = false, signal }: FetchRequest = {}) => {
+      if (!url) {
+        setLoading(false);
+        return;
+      }
 
-    setLoading(true);
-    setError(null);
-    try {
-      const entry = await getEntryByUrl<T>(contentType, url);
-      setData(entry);
-    } catch (err) {
-      setError(err instanceof Error ? err : new Error('Failed to fetch entry'));
-    } finally {
-      setLoading(false);
-    }
-  }, [contentType, url]);
+      if (!silent) setLoading(true);
+      setError(null);
+      try {
+        const tracker = trackStaleness();
+        const entry = await source.getEntryByUrl<T>(contentType, url, {
+          ...requestOptions(fetchOptions, signal, tracker.onCacheStatus),
+          cache: reload ? 'reload' : 'default',
+        });
+        if (signal?.aborted) return;
+        setData(entry);
+        setStale(tracker.isStale());
+      } catch (err) {
+        if (signal?.aborted) return;
+        setError(
+          err instanceof Error ? err : new Error('Failed to fetch entry')
+        );
+      } finally {
+        if (!signal?.aborted) setLoading(false);
+      }
+    },
+    [source, contentType, url, fetchOptions]
+  );
 
   useEffect(() => {
-    fetchData();
+    const controller = new AbortController();
+    fetchData({ signal: controller.signal });
+    return () => controller.abort();
   }, [fetchData]);
 
-  return { data, loading, error, refetch: fetchData };
+  const revalidate = useCallback(
+    () => fetchData({ silent: true }),
+    [fetchData]
+  );
+  useRevalidation(stale, revalidate);
+  useLivePreviewRefresh(contentType, null, revalidate);
+
+  const refetch = useCallback(() => fetchData({ reload: true }), [fetchData]);
+
+  return { data, loading, error, stale, refetch };
 }
 
 /**
  * Lazy load content on demand
  */
-export function useLazyContent<T>(contentType: string) {
+export function useLazyContent<T>(
+  contentType: string,
+  options: FetchOptions = {}
+) {
+  const source = useContentSource();
+  const fetchOptions = useFetchOptions(options);
   const [data, setData] = useState<T | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<Error | null>(null);
@@ -144,7 +633,11 @@ export function useLazyContent<T>(contentType: string) {
       setLoading(true);
       setError(null);
       try {
-        const entry = await getEntryByUid<T>(contentType, uid);
+        const entry = await source.getEntryByUid<T>(
+          contentType,
+          uid,
+          fetchOptions
+        );
         setData(entry);
         return entry;
       } catch (err) {
@@ -155,7 +648,7 @@ export function useLazyContent<T>(contentType: string) {
         setLoading(false);
       }
     },
-    [contentType]
+    [source, contentType, fetchOptions]
   );
 
   const fetchByUrl = useCallback(
@@ -163,7 +656,11 @@ export function useLazyContent<T>(contentType: string) {
       setLoading(true);
       setError(null);
       try {
-        const entry = await getEntryByUrl<T>(contentType, url);
+        const entry = await source.getEntryByUrl<T>(
+          contentType,
+          url,
+          fetchOptions
+        );
         setData(entry);
         return entry;
       } catch (err) {
@@ -174,7 +671,7 @@ export function useLazyContent<T>(contentType: string) {
         setLoading(false);
       }
     },
-    [contentType]
+    [source, contentType, fetchOptions]
   );
 
   return { data, loading, error, fetchByUid, fetchByUrl };
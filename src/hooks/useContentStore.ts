@@ -0,0 +1,25 @@
+/**
+ * Content Store Context
+ *
+ * Shares a synced ContentStore with the content hooks. When one is
+ * provided the hooks read from it instead of the Delivery API.
+ */
+import { createContext, useContext } from 'react';
+import type { ContentStore } from '../lib/sync';
+
+// ============================================
+// Context
+// ============================================
+
+export const ContentStoreContext = createContext<ContentStore | null>(null);
+
+// ============================================
+// Hooks
+// ============================================
+
+/**
+ * Get the store from the nearest ContentStoreProvider, if there is one
+ */
+export function useContentStore(): ContentStore | null {
+  return useContext(ContentStoreContext);
+}
@@ -0,0 +1,35 @@
+/**
+ * Contentstack Client Context
+ *
+ * Shares a ContentstackClient with the content hooks so that each
+ * subtree can talk to its own stack or environment.
+ */
+import { createContext, useContext } from 'react';
+import type { ContentstackClient } from '../lib/contentstack';
+
+// ============================================
+// Context
+// ============================================
+
+export const ContentstackContext = createContext<ContentstackClient | null>(
+  null
+);
+
+// ============================================
+// Hooks
+// ============================================
+
+/**
+ * Get the client from the nearest ContentstackProvider
+ */
+export function useContentstack(): ContentstackClient {
+  const client = useContext(ContentstackContext);
+
+  if (!client) {
+    throw new Error(
+      'useContentstack must be used within a ContentstackProvider'
+    );
+  }
+
+  return client;
+}
@@ -0,0 +1,41 @@
+/**
+ * Locale Context for Contentstack Content
+ *
+ * Holds the active content locale so that the content hooks
+ * fetch the right localized copy without passing it explicitly.
+ */
+import { createContext, useContext } from 'react';
+import { MASTER_LOCALE } from '../lib/locale';
+
+// ============================================
+// Types
+// ============================================
+
+export interface LocaleContextValue {
+  /** Active locale, or undefined to use the stack's master locale */
+  locale: string | undefined;
+  /** Locales tried in order when an entry is not localized */
+  fallbackChain: string[];
+  setLocale: (locale: string) => void;
+}
+
+// ============================================
+// Context
+// ============================================
+
+export const LocaleContext = createContext<LocaleContextValue>({
+  locale: undefined,
+  fallbackChain: [MASTER_LOCALE],
+  setLocale: () => {},
+});
+
+// ============================================
+// Hooks
+// ============================================
+
+/**
+ * Read the active content locale
+ */
+export function useLocale(): LocaleContextValue {
+  return useContext(LocaleContext);
+}
@@ -0,0 +1,72 @@
+/**
+ * Routing Hooks
+ *
+ * Re-render on navigation, read route params and query string
+ * parameters from the current location and title the page for each
+ * route.
+ */
+import { useCallback, useEffect, useMemo, useSyncExternalStore } from 'react';
+import {
+  getLocation,
+  matchPath,
+  navigate,
+  subscribe,
+  type RouteParams,
+  type RouterLocation,
+} from '../lib/router';
+
+// ============================================
+// Hooks
+// ============================================
+
+/**
+ * The current location, updated on every navigation
+ */
+export function useLocation(): RouterLocation {
+  return useSyncExternalStore(subscribe, getLocation);
+}
+
+/**
+ * The params of the current path if it matches `pattern`, else null
+ */
+export function useRoute(pattern: string): RouteParams | null {
+  const { pathname } = useLocation();
+  return matchPath(pattern, pathname);
+}
+
+/**
+ * The current query string parameters, and a setter that replaces
+ * them without adding a history entry or scrolling
+ */
+export function useSearchParams(): [
+  URLSearchParams,
+  (params: URLSearchParams) => void,
+] {
+  const { search } = useLocation();
+  const params = useMemo(() => new URLSearchParams(search), [search]);
+
+  const setParams = useCallback((next: URLSearchParams) => {
+    const { pathname, hash } = getLocation();
+    const query = next.toString();
+    navigate(`${pathname}${query ? `?${query}` : ''}${hash}`, {
+      replace: true,
+      scroll: false,
+    });
+  }, []);
+
+  return [params, setParams];
+}
+
+/**
+ * Set the document title while the calling route is shown
+ */
+export function useDocumentTitle(title: string | null | undefined) {
+  useEffect(() => {
+    if (!title) return;
+    const previous = document.title;
+    document.title = title;
+    return () => {
+      document.title = previous;
+    };
+  }, [title]);
+}
@@ -0,0 +1,96 @@
+/**
+ * Site Search Hook
+ *
+ * Debounces the search input, searches once typing pauses and
+ * records every query in analytics, with its result count or failure.
+ */
+import { useEffect, useState } from 'react';
+import { analytics } from '../lib/analytics';
+import { search, type SearchResult } from '../lib/search';
+import { useContentstack } from './useContentstack';
+import { useLocale } from './useLocale';
+
+// ============================================
+// Types
+// ============================================
+
+interface UseSearchOptions {
+  /** Milliseconds to wait after the last keystroke (default: 250) */
+  delay?: number;
+  /** Maximum number of results (default: 8) */
+  limit?: number;
+}
+
+interface UseSearchResult {
+  results: SearchResult[];
+  /** Waiting for typing to pause, or for the search to return */
+  loading: boolean;
+  error: Error | null;
+}
+
+// The outcome of the last completed search
+interface SearchState {
+  key: string;
+  results: SearchResult[];
+  error: Error | null;
+}
+
+// ============================================
+// Hook
+// ============================================
+
+/**
+ * Search blog posts and products as the user types
+ */
+export function useSearch(
+  input: string,
+  { delay = 250, limit = 8 }: UseSearchOptions = {}
+): UseSearchResult {
+  const client = useContentstack();
+  const { locale } = useLocale();
+  const [state, setState] = useState<SearchState>({
+    key: '',
+    results: [],
+    error: null,
+  });
+
+  const term = input.trim();
+  const key = `${locale}:${limit}:${term}`;
+
+  useEffect(() => {
+    if (!term) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      search(client, term, { locale, limit, signal: controller.signal })
+        .then((results) => {
+          if (controller.signal.aborted) return;
+          setState({ key, results, error: null });
+          analytics.trackSearch(term, results.length);
+        })
+        .catch((err) => {
+          if (controller.signal.aborted) return;
+          setState({
+            key,
+            results: [],
+            error: err instanceof Error ? err : new Error('Search failed'),
+          });
+          analytics.trackSearch(term, 0, true);
+        });
+    }, delay);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [client, term, key, locale, limit, delay]);
+
+  if (!term) return { results: [], loading: false, error: null };
+
+  // Keep showing the previous results until the new ones arrive
+  return {
+    results: state.results,
+    loading: state.key !== key,
+    error: state.key === key ? state.error : null,
+  };
+}
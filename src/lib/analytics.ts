@@ -174,12 +174,13 @@ class AnalyticsManager {
   }
 
   /**
-   * Track search query
+   * Track search query, and whether the search failed
    */
-  trackSearch(query: string, resultsCount: number): void {
+  trackSearch(query: string, resultsCount: number, failed = false): void {
     this.trackInteraction('search', 'search_bar', undefined, {
       query,
       resultsCount,
+      failed,
     });
   }
 
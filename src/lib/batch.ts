@@ -0,0 +1,81 @@
+/**
+ * Request Batching
+ *
+ * Collects the keys requested within the same tick and loads them
+ * with a single call, then fans the results back out to each caller.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Loads many keys at once, given the context each caller passed.
+ * Keys missing from the returned map resolve to null.
+ */
+export type BatchLoadFn<V, C> = (
+  keys: string[],
+  contexts: C[]
+) => Promise<Map<string, V>>;
+
+interface PendingLoad<V, C> {
+  key: string;
+  context: C;
+  resolve: (value: V | null) => void;
+  reject: (reason: unknown) => void;
+}
+
+// ============================================
+// Batcher
+// ============================================
+
+export class Batcher<V, C = void> {
+  private loadMany: BatchLoadFn<V, C>;
+  private maxBatchSize: number;
+  private pending: PendingLoad<V, C>[] = [];
+  private scheduled = false;
+
+  constructor(loadMany: BatchLoadFn<V, C>, maxBatchSize = Infinity) {
+    this.loadMany = loadMany;
+    this.maxBatchSize = maxBatchSize;
+  }
+
+  /**
+   * Queue a key for the current tick's batch
+   */
+  load(key: string, context: C): Promise<V | null> {
+    return new Promise((resolve, reject) => {
+      this.pending.push({ key, context, resolve, reject });
+
+      if (!this.scheduled) {
+        this.scheduled = true;
+        queueMicrotask(() => this.flush());
+      }
+    });
+  }
+
+  private flush(): void {
+    const pending = this.pending;
+    this.pending = [];
+    this.scheduled = false;
+
+    const keys = [...new Set(pending.map((p) => p.key))];
+
+    for (let i = 0; i < keys.length; i += this.maxBatchSize) {
+      const chunk = keys.slice(i, i + this.maxBatchSize);
+      const waiting = pending.filter((p) => chunk.includes(p.key));
+
+      this.loadMany(
+        chunk,
+        waiting.map((p) => p.context)
+      ).then(
+        (results) => {
+          waiting.forEach((p) => p.resolve(results.get(p.key) ?? null));
+        },
+        (error) => {
+          waiting.forEach((p) => p.reject(error));
+        }
+      );
+    }
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Modular Blocks
+ *
+ * Types and helpers for rendering a modular blocks field through a
+ * registry of components keyed by block UID.
+ */
+import type { ComponentType } from 'react';
+
+// ============================================
+// Types
+// ============================================
+
+/** UIDs of the blocks in a modular blocks union, e.g. `'hero' | 'cta_band'` */
+export type BlockUid<B> = B extends unknown ? keyof B & string : never;
+
+/** The fields of one block in a modular blocks union */
+export type BlockFields<B, K extends BlockUid<B>> =
+  B extends Record<K, infer F> ? F : never;
+
+/**
+ * Components for some or all of a field's blocks. Each receives its
+ * block's fields as props.
+ */
+export type BlockRegistry<B> = {
+  [K in BlockUid<B>]?: ComponentType<BlockFields<B, K>>;
+};
+
+export interface ParsedBlock {
+  uid: string;
+  /** Stable React key: the block instance UID when the API sends one */
+  key: string;
+  fields: Record<string, unknown>;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Split a delivered block `{ block_uid: { ...fields } }` into its UID
+ * and fields. Returns null for anything that is not a block.
+ */
+export function parseBlock(block: unknown, index: number): ParsedBlock | null {
+  if (typeof block !== 'object' || block === null) return null;
+
+  const [uid] = Object.keys(block);
+  const fields = uid ? (block as Record<string, unknown>)[uid] : undefined;
+  if (typeof fields !== 'object' || fields === null) return null;
+
+  const { _metadata } = fields as { _metadata?: { uid?: string } };
+  return {
+    uid,
+    key: _metadata?.uid ?? `${uid}-${index}`,
+    fields: fields as Record<string, unknown>,
+  };
+}
+
+/**
+ * Look up the component registered for a block UID
+ */
+export function blockComponent<B>(
+  registry: BlockRegistry<B>,
+  uid: string
+): ComponentType<Record<string, unknown>> | undefined {
+  return (registry as Record<string, ComponentType<Record<string, unknown>>>)[
+    uid
+  ];
+}
@@ -0,0 +1,213 @@
+/**
+ * Contentstack Delivery Response Cache
+ *
+ * Caches Delivery API responses with per-content-type TTLs and
+ * stale-while-revalidate semantics, backed by a pluggable store.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export interface CacheRecord {
+  value: unknown;
+  storedAt: number;
+}
+
+/**
+ * Where cached responses live; async so persistent stores can plug in
+ */
+export interface CacheStore {
+  get(key: string): Promise<CacheRecord | undefined>;
+  set(key: string, record: CacheRecord): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface CacheConfig {
+  /** Defaults to an in-memory store */
+  store?: CacheStore;
+  /** Milliseconds a response stays fresh (default: 60 seconds) */
+  ttl?: number;
+  /** Per-content-type overrides of `ttl`; `0` turns caching off for a type */
+  ttlByContentType?: Record<string, number>;
+  /**
+   * Milliseconds past `ttl` that a stale response is still served while
+   * it revalidates in the background (default: 5 minutes)
+   */
+  staleWhileRevalidate?: number;
+}
+
+/**
+ * How a request was answered: from a fresh or stale cache record,
+ * from the network after a miss, or from the network on purpose
+ */
+export type CacheStatus = 'fresh' | 'stale' | 'miss' | 'bypass';
+
+export interface CachedResponse<T> {
+  status: 'fresh' | 'stale';
+  value: T;
+}
+
+const DEFAULT_TTL = 60_000;
+const DEFAULT_STALE_WHILE_REVALIDATE = 5 * 60_000;
+
+// ============================================
+// Stores
+// ============================================
+
+/**
+ * Keeps responses in memory for the lifetime of the page or process
+ */
+export class MemoryCacheStore implements CacheStore {
+  private records = new Map<string, CacheRecord>();
+
+  async get(key: string): Promise<CacheRecord | undefined> {
+    return this.records.get(key);
+  }
+
+  async set(key: string, record: CacheRecord): Promise<void> {
+    this.records.set(key, record);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.records.clear();
+  }
+}
+
+/**
+ * Persists responses in IndexedDB so they survive page reloads
+ */
+export class IndexedDBCacheStore implements CacheStore {
+  private db: Promise<IDBDatabase> | null = null;
+  private dbName: string;
+  private storeName = 'responses';
+
+  constructor(dbName = 'contentstack-cache') {
+    this.dbName = dbName;
+  }
+
+  async get(key: string): Promise<CacheRecord | undefined> {
+    return this.run('readonly', (store) => store.get(key));
+  }
+
+  async set(key: string, record: CacheRecord): Promise<void> {
+    await this.run('readwrite', (store) => store.put(record, key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.run('readwrite', (store) => store.delete(key));
+  }
+
+  async clear(): Promise<void> {
+    await this.run('readwrite', (store) => store.clear());
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available'));
+          return;
+        }
+
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(this.storeName);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+
+  private async run<R>(
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<R>
+  ): Promise<R> {
+    const db = await this.open();
+
+    return new Promise((resolve, reject) => {
+      const store = db
+        .transaction(this.storeName, mode)
+        .objectStore(this.storeName);
+      const request = action(store);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+// ============================================
+// Response Cache
+// ============================================
+
+export class ResponseCache {
+  private store: CacheStore;
+  private ttl: number;
+  private ttlByContentType: Record<string, number>;
+  private staleWhileRevalidate: number;
+
+  constructor(config: CacheConfig = {}) {
+    this.store = config.store ?? new MemoryCacheStore();
+    this.ttl = config.ttl ?? DEFAULT_TTL;
+    this.ttlByContentType = config.ttlByContentType ?? {};
+    this.staleWhileRevalidate =
+      config.staleWhileRevalidate ?? DEFAULT_STALE_WHILE_REVALIDATE;
+  }
+
+  ttlFor(contentType?: string): number {
+    return (
+      (contentType ? this.ttlByContentType[contentType] : undefined) ??
+      this.ttl
+    );
+  }
+
+  /**
+   * Read a response, classifying it as fresh or stale. Expired records
+   * and store failures are treated as misses.
+   */
+  async read<T>(
+    key: string,
+    contentType?: string
+  ): Promise<CachedResponse<T> | null> {
+    try {
+      // A TTL of 0 means never cached, so not served stale either
+      const ttl = this.ttlFor(contentType);
+      if (ttl <= 0) return null;
+
+      const record = await this.store.get(key);
+      if (!record) return null;
+
+      const age = Date.now() - record.storedAt;
+
+      if (age < ttl) return { status: 'fresh', value: record.value as T };
+      if (age < ttl + this.staleWhileRevalidate) {
+        return { status: 'stale', value: record.value as T };
+      }
+
+      await this.store.delete(key);
+      return null;
+    } catch (error) {
+      console.warn('⚠️ Cache read failed:', error);
+      return null;
+    }
+  }
+
+  async write(key: string, value: unknown): Promise<void> {
+    try {
+      await this.store.set(key, { value, storedAt: Date.now() });
+    } catch (error) {
+      console.warn('⚠️ Cache write failed:', error);
+    }
+  }
+
+  async clear(): Promise<void> {
+    await this.store.clear();
+  }
+}
@@ -0,0 +1,242 @@
+/**
+ * Product Catalog Facets
+ *
+ * Filters and sorts products by category, price and stock, computes
+ * the facet counts shown next to each filter, and reads and writes
+ * the filters as URL query string parameters.
+ */
+import type { Product } from './contentstack';
+import { entrySchemas } from './entrySchemas.generated';
+
+// ============================================
+// Types
+// ============================================
+
+export type ProductCategory = Product['category'];
+
+export type CatalogSort =
+  | 'featured'
+  | 'price_asc'
+  | 'price_desc'
+  | 'title_asc'
+  | 'title_desc';
+
+export interface CatalogFilters {
+  /** Show products in any of these categories; all when empty */
+  categories: ProductCategory[];
+  minPrice: number | null;
+  maxPrice: number | null;
+  inStock: boolean;
+  sort: CatalogSort;
+}
+
+export interface FacetCount<V> {
+  value: V;
+  count: number;
+}
+
+export interface CatalogFacets {
+  categories: FacetCount<ProductCategory>[];
+  /** Products that are in stock */
+  inStock: number;
+  /** Lowest and highest price of all products, for the range inputs */
+  price: { min: number; max: number };
+}
+
+// ============================================
+// Configuration
+// ============================================
+
+const categorySpec = entrySchemas.product.category;
+
+/** Every category in the product schema, in schema order */
+export const PRODUCT_CATEGORIES = (
+  categorySpec.type === 'enum' ? categorySpec.values : []
+) as ProductCategory[];
+
+export const CATALOG_SORTS: Record<CatalogSort, string> = {
+  featured: 'Featured',
+  price_asc: 'Price: low to high',
+  price_desc: 'Price: high to low',
+  title_asc: 'Name: A to Z',
+  title_desc: 'Name: Z to A',
+};
+
+export const DEFAULT_CATALOG_FILTERS: CatalogFilters = {
+  categories: [],
+  minPrice: null,
+  maxPrice: null,
+  inStock: false,
+  sort: 'featured',
+};
+
+// Query string parameter for each filter
+const PARAMS = {
+  categories: 'category',
+  minPrice: 'min_price',
+  maxPrice: 'max_price',
+  inStock: 'in_stock',
+  sort: 'sort',
+} as const satisfies Record<keyof CatalogFilters, string>;
+
+// ============================================
+// Query String
+// ============================================
+
+function parsePrice(value: string | null): number | null {
+  if (value === null || value.trim() === '') return null;
+  const price = Number(value);
+  return Number.isFinite(price) && price >= 0 ? price : null;
+}
+
+/**
+ * Read the filters from query string parameters, ignoring values
+ * that are not valid
+ */
+export function parseCatalogFilters(params: URLSearchParams): CatalogFilters {
+  const categories = (params.get(PARAMS.categories) ?? '')
+    .split(',')
+    .filter((value): value is ProductCategory =>
+      PRODUCT_CATEGORIES.includes(value as ProductCategory)
+    );
+  const sort = params.get(PARAMS.sort);
+
+  return {
+    categories: [...new Set(categories)],
+    minPrice: parsePrice(params.get(PARAMS.minPrice)),
+    maxPrice: parsePrice(params.get(PARAMS.maxPrice)),
+    inStock: params.get(PARAMS.inStock) === '1',
+    sort: sort && sort in CATALOG_SORTS ? (sort as CatalogSort) : 'featured',
+  };
+}
+
+/**
+ * Write the filters into a copy of the parameters. Defaults are left
+ * out and unrelated parameters are kept.
+ */
+export function writeCatalogFilters(
+  params: URLSearchParams,
+  filters: CatalogFilters
+): URLSearchParams {
+  const next = new URLSearchParams(params);
+  Object.values(PARAMS).forEach((name) => next.delete(name));
+
+  if (filters.categories.length > 0) {
+    next.set(PARAMS.categories, filters.categories.join(','));
+  }
+  if (filters.minPrice !== null) {
+    next.set(PARAMS.minPrice, String(filters.minPrice));
+  }
+  if (filters.maxPrice !== null) {
+    next.set(PARAMS.maxPrice, String(filters.maxPrice));
+  }
+  if (filters.inStock) next.set(PARAMS.inStock, '1');
+  if (filters.sort !== 'featured') next.set(PARAMS.sort, filters.sort);
+  return next;
+}
+
+/**
+ * Whether the parameters set any catalog filter
+ */
+export function hasCatalogFilters(params: URLSearchParams): boolean {
+  return Object.values(PARAMS).some((name) => params.has(name));
+}
+
+// ============================================
+// Filtering
+// ============================================
+
+type Facet = 'categories' | 'price' | 'inStock';
+
+/**
+ * Whether a product passes the filters, skipping the facet being
+ * counted
+ */
+function matches(
+  product: Product,
+  filters: CatalogFilters,
+  skip?: Facet
+): boolean {
+  if (
+    skip !== 'categories' &&
+    filters.categories.length > 0 &&
+    !filters.categories.includes(product.category)
+  ) {
+    return false;
+  }
+  if (skip !== 'price') {
+    if (filters.minPrice !== null && product.price < filters.minPrice) {
+      return false;
+    }
+    if (filters.maxPrice !== null && product.price > filters.maxPrice) {
+      return false;
+    }
+  }
+  if (skip !== 'inStock' && filters.inStock && !product.in_stock) {
+    return false;
+  }
+  return true;
+}
+
+const comparators: Record<
+  Exclude<CatalogSort, 'featured'>,
+  (a: Product, b: Product) => number
+> = {
+  price_asc: (a, b) => a.price - b.price,
+  price_desc: (a, b) => b.price - a.price,
+  title_asc: (a, b) => a.title.localeCompare(b.title),
+  title_desc: (a, b) => b.title.localeCompare(a.title),
+};
+
+/**
+ * The products passing every filter, in the chosen order. `featured`
+ * keeps the order they were delivered in.
+ */
+export function filterProducts(
+  products: Product[],
+  filters: CatalogFilters
+): Product[] {
+  const matching = products.filter((product) => matches(product, filters));
+  if (filters.sort === 'featured') return matching;
+  return matching.sort(comparators[filters.sort]);
+}
+
+/**
+ * Count the full product list for each facet. Every facet applies
+ * all the other active filters but not its own, so choosing one
+ * category still shows how many products the others would add.
+ */
+export function catalogFacets(
+  products: Product[],
+  filters: CatalogFilters
+): CatalogFacets {
+  const categoryCounts = new Map<ProductCategory, number>(
+    PRODUCT_CATEGORIES.map((category) => [category, 0])
+  );
+  let inStock = 0;
+
+  for (const product of products) {
+    if (matches(product, filters, 'categories')) {
+      categoryCounts.set(
+        product.category,
+        (categoryCounts.get(product.category) ?? 0) + 1
+      );
+    }
+    if (product.in_stock && matches(product, filters, 'inStock')) {
+      inStock += 1;
+    }
+  }
+
+  const prices = products.map((product) => product.price);
+  return {
+    categories: [...categoryCounts].map(([value, count]) => ({
+      value,
+      count,
+    })),
+    inStock,
+    price: {
+      min: prices.length > 0 ? Math.min(...prices) : 0,
+      max: prices.length > 0 ? Math.max(...prices) : 0,
+    },
+  };
+}
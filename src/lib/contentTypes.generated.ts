@@ -0,0 +1,135 @@
+/**
+ * Contentstack Content Types
+ *
+ * Generated by `npm run codegen` from the stack's content type and
+ * global field schemas. Do not edit by hand; run the command again.
+ */
+import type { Asset, JsonRteDocument, Link, Reference } from './fields';
+
+// ============================================
+// Global Fields
+// ============================================
+
+/** Search engine metadata */
+export interface Seo {
+  meta_title?: string;
+  meta_description?: string;
+  no_index?: boolean;
+}
+
+// ============================================
+// Content Types
+// ============================================
+
+/** People who write blog posts */
+export interface Author {
+  uid: string;
+  title: string;
+  bio?: string;
+  avatar?: Asset;
+}
+
+/** Articles shown in the blog */
+export interface BlogPost {
+  uid: string;
+  title: string;
+  url: string;
+  summary: string;
+  reading_time?: number;
+  featured_image?: Asset;
+  body: JsonRteDocument;
+  author_name: string;
+  publish_date: string;
+  author?: Reference<Author>[];
+  category?: Reference<Category>[];
+  related_products?: Reference<Product>[];
+  seo?: Seo;
+}
+
+/** Blog post categories */
+export interface Category {
+  uid: string;
+  title: string;
+  slug: string;
+}
+
+/** Personalized hero banners, one per variant */
+export interface HeroBanner {
+  uid: string;
+  title: string;
+  subtitle: string;
+  cta_text: string;
+  cta_link: string;
+  background_image?: Asset;
+  variant_id?: string;
+}
+
+export interface PageSectionsHero {
+  experience?: string;
+}
+
+export interface PageSectionsProductGrid {
+  title: string;
+  subtitle?: string;
+  category?: 'Electronics' | 'Apparel' | 'Home' | 'Books' | 'Accessories';
+  limit?: number;
+}
+
+export interface PageSectionsBlogList {
+  title: string;
+  limit?: number;
+}
+
+export interface PageSectionsCtaBand {
+  title: string;
+  text?: string;
+  cta: Link;
+}
+
+export interface PageSectionsAnalyticsTeaser {
+  title?: string;
+}
+
+export type PageSectionsBlock =
+  | { hero: PageSectionsHero }
+  | { product_grid: PageSectionsProductGrid }
+  | { blog_list: PageSectionsBlogList }
+  | { cta_band: PageSectionsCtaBand }
+  | { analytics_teaser: PageSectionsAnalyticsTeaser };
+
+/** Landing pages assembled from modular blocks */
+export interface Page {
+  uid: string;
+  title: string;
+  url: string;
+  sections?: PageSectionsBlock[];
+  seo?: Seo;
+}
+
+export interface ProductSpecifications {
+  label: string;
+  value: string;
+}
+
+/** Products in the catalog */
+export interface Product {
+  uid: string;
+  title: string;
+  slug: string;
+  description: string;
+  price: number;
+  image?: Asset;
+  category: 'Electronics' | 'Apparel' | 'Home' | 'Books' | 'Accessories';
+  in_stock: boolean;
+  specifications?: ProductSpecifications[];
+}
+
+// Maps content type UIDs to their entry interfaces
+export interface ContentTypeMap {
+  author: Author;
+  blog_post: BlogPost;
+  category: Category;
+  hero_banner: HeroBanner;
+  page: Page;
+  product: Product;
+}
@@ -4,243 +4,1289 @@
  * This module sets up the connection to Contentstack's headless CMS
  * for fetching and managing content across your application.
  */
-
-// Get configuration from environment
-const apiKey = import.meta.env.VITE_CONTENTSTACK_API_KEY || '';
-const deliveryToken = import.meta.env.VITE_CONTENTSTACK_DELIVERY_TOKEN || '';
-const environment =
-  import.meta.env.VITE_CONTENTSTACK_ENVIRONMENT || 'production';
-const customHost =
-  import.meta.env.VITE_CONTENTSTACK_HOST || 'cdn.contentstack.io';
-
-// Log configuration (without sensitive data)
-console.log('📦 Contentstack Config:', {
-  apiKey: apiKey ? `${apiKey.slice(0, 10)}...` : 'NOT SET',
-  deliveryToken: deliveryToken ? `${deliveryToken.slice(0, 10)}...` : 'NOT SET',
-  environment,
-  host: customHost,
-});
+import { query, type EntryQuery } from './query';
+import {
+  resolveIncludePaths,
+  toIncludeParams,
+  type IncludeOption,
+} from './references';
+import { normalizeLocale, toLocaleParams } from './locale';
+import { ResponseCache, type CacheConfig, type CacheStatus } from './cache';
+import { Batcher } from './batch';
+import { ConcurrencyLimiter } from './limiter';
+import {
+  InvalidResponseError,
+  MissingConfigError,
+  NetworkError,
+  NotFoundError,
+  errorFromStatus,
+} from './errors';
+import {
+  DEFAULT_RETRY,
+  abortable,
+  allAborted,
+  backoffDelay,
+  isRetryableStatus,
+  parseRetryAfter,
+  sleep,
+  withTimeout,
+  type RetryConfig,
+} from './retry';
+import type { SyncItem, SyncItemType } from './sync';
+import type { HeroBanner } from './contentTypes.generated';
+import {
+  DEFAULT_PREVIEW_GRAPHQL_HOST,
+  DEFAULT_PREVIEW_HOST,
+  LivePreview,
+  type LivePreviewConfig,
+} from './livePreview';
+import {
+  InvalidEntryError,
+  ValidationReport,
+  validateEntry,
+  type ValidationFailure,
+  type ValidationMode,
+} from './validation';
+import {
+  DEFAULT_GRAPHQL_HOST,
+  graphqlOperations,
+  hasGraphQLOperations,
+  toGraphQLOrder,
+  toGraphQLWhere,
+  toRestEntry,
+  type Collection,
+  type CollectionVariables,
+  type EntryVariables,
+  type GraphQLEntry,
+  type GraphQLOperation,
+  type GraphQLResponse,
+  type Transport,
+} from './graphql';
+import { FixtureBackend, type FixtureSource } from './fixtures';
 
 // ============================================
-// Direct API Fetch (Works with custom hosts like dev14)
+// Configuration
 // ============================================
 
-const baseUrl = `https://${customHost}/v3`;
+export interface ContentstackConfig {
+  apiKey: string;
+  deliveryToken: string;
+  environment: string;
+  /**
+   * Delivery host, e.g. `cdn.contentstack.io` or a custom host like
+   * dev14, or a URL such as a local mock server's
+   */
+  host?: string;
+  /** Response caching; pass `false` to always hit the network */
+  cache?: CacheConfig | false;
+  /** Coalesce `getEntryByUid` calls made in the same tick (default: true) */
+  batch?: boolean;
+  /** Retry network errors, 5xx and 429 responses; `false` to fail fast */
+  retry?: RetryConfig | false;
+  /** Per-attempt timeout in milliseconds (default: 10 seconds) */
+  timeout?: number;
+  /** Maximum requests in flight at once (default: 6) */
+  maxConcurrency?: number;
+  /** Default transport for entry reads (default: `rest`) */
+  transport?: Transport;
+  /** GraphQL host, e.g. `graphql.contentstack.com` or a regional host */
+  graphqlHost?: string;
+  /** Read drafts from the preview host while the entry editor is open */
+  livePreview?: LivePreviewConfig;
+  /** Check entries against their content type schemas (default: `off`) */
+  validation?: ValidationMode;
+  /**
+   * Answer reads from local fixtures instead of the Delivery API, so
+   * no stack or credentials are needed. REST only; uncached.
+   */
+  fixtures?: FixtureSource;
+}
 
-async function fetchFromAPI<T>(endpoint: string): Promise<T | null> {
-  if (!apiKey || !deliveryToken) {
-    console.error('❌ Missing API key or delivery token');
-    return null;
-  }
+export const DEFAULT_HOST = 'cdn.contentstack.io';
+const DEFAULT_TIMEOUT = 10_000;
+const DEFAULT_MAX_CONCURRENCY = 6;
 
-  try {
-    const url = `${baseUrl}${endpoint}`;
-    console.log('🔍 Fetching:', url);
-
-    const response = await fetch(url, {
-      headers: {
-        api_key: apiKey,
-        access_token: deliveryToken,
-        'Content-Type': 'application/json',
-      },
-    });
+/**
+ * The variables the client is configured from. Under Vite, name each
+ * one (`import.meta.env.VITE_CONTENTSTACK_API_KEY`, …) rather than
+ * passing `import.meta.env`, which inlines every `VITE_` variable into
+ * the bundle. Under Node, pass `process.env`.
+ */
+export interface ContentstackEnv {
+  VITE_CONTENTSTACK_API_KEY?: string;
+  VITE_CONTENTSTACK_DELIVERY_TOKEN?: string;
+  VITE_CONTENTSTACK_ENVIRONMENT?: string;
+  VITE_CONTENTSTACK_HOST?: string;
+  VITE_CONTENTSTACK_GRAPHQL_HOST?: string;
+  VITE_CONTENTSTACK_LIVE_PREVIEW?: string;
+  VITE_CONTENTSTACK_PREVIEW_TOKEN?: string;
+  VITE_CONTENTSTACK_PREVIEW_HOST?: string;
+  VITE_CONTENTSTACK_FIXTURES?: string;
+  /** Set by Vite in development */
+  DEV?: boolean;
+}
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`❌ API Error ${response.status}:`, errorText);
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-    }
+/**
+ * Build a config from `VITE_CONTENTSTACK_*` variables
+ */
+export function configFromEnv(env: ContentstackEnv): ContentstackConfig {
+  const read = (key: Exclude<keyof ContentstackEnv, 'DEV'>) => env[key] ?? '';
 
-    const data = await response.json();
-    return data as T;
-  } catch (error) {
-    console.error('❌ Fetch error:', error);
-    return null;
-  }
+  return {
+    apiKey: read('VITE_CONTENTSTACK_API_KEY'),
+    deliveryToken: read('VITE_CONTENTSTACK_DELIVERY_TOKEN'),
+    environment: read('VITE_CONTENTSTACK_ENVIRONMENT') || 'production',
+    host: read('VITE_CONTENTSTACK_HOST') || DEFAULT_HOST,
+    graphqlHost: read('VITE_CONTENTSTACK_GRAPHQL_HOST') || DEFAULT_GRAPHQL_HOST,
+    livePreview: {
+      enable: read('VITE_CONTENTSTACK_LIVE_PREVIEW') === 'true',
+      previewToken: read('VITE_CONTENTSTACK_PREVIEW_TOKEN'),
+      host: read('VITE_CONTENTSTACK_PREVIEW_HOST') || DEFAULT_PREVIEW_HOST,
+    },
+  };
+}
+
+/**
+ * Whether to read from local fixtures: when `VITE_CONTENTSTACK_FIXTURES`
+ * is `true`, or in development when no credentials are set and it is
+ * not `false`. A production build without credentials fails with a
+ * `missing_config` error rather than serving demo content.
+ */
+export function fixturesEnabled(env: ContentstackEnv): boolean {
+  const setting = String(env.VITE_CONTENTSTACK_FIXTURES ?? '');
+  if (setting === 'true') return true;
+  if (setting === 'false' || env.DEV !== true) return false;
+  return (
+    !env.VITE_CONTENTSTACK_API_KEY || !env.VITE_CONTENTSTACK_DELIVERY_TOKEN
+  );
 }
 
 // ============================================
 // Content Types - Define your content structure
 // ============================================
 
-export interface BlogPost {
-  uid: string;
-  title: string;
-  url: string;
-  summary: string;
-  featured_image?: {
-    url: string;
-    title: string;
-  };
-  body: string;
-  author_name: string;
-  publish_date: string;
-}
-
-export interface Product {
-  uid: string;
-  title: string;
-  slug: string;
-  description: string;
-  price: number;
-  image?: {
-    url: string;
-    title: string;
-  };
-  category: string;
-  in_stock: boolean;
-}
-
-export interface HeroBanner {
-  uid: string;
-  title: string;
-  subtitle: string;
-  cta_text: string;
-  cta_link: string;
-  background_image?: {
-    url: string;
-  };
-  variant_id?: string;
-}
+// Entry interfaces are generated from the stack's schemas by
+// `npm run codegen`; see contentTypes.generated.ts
+export type {
+  Author,
+  BlogPost,
+  Category,
+  ContentTypeMap,
+  HeroBanner,
+  Page,
+  PageSectionsAnalyticsTeaser,
+  PageSectionsBlock,
+  PageSectionsBlogList,
+  PageSectionsCtaBand,
+  PageSectionsHero,
+  PageSectionsProductGrid,
+  Product,
+} from './contentTypes.generated';
+export type { Asset, EntryReference, Reference } from './fields';
 
 // API Response types
 interface EntriesResponse<T> {
   entries: T[];
+  count?: number;
 }
 
 interface EntryResponse<T> {
   entry: T;
 }
 
+// Options shared by the fetch functions
+export interface FetchOptions {
+  /** Reference fields to resolve: a depth, or explicit `include[]` paths */
+  include?: IncludeOption;
+  /** Locale code to fetch, e.g. `fr-ca`; defaults to the master locale */
+  locale?: string;
+  /** Fall back along the locale's fallback chain (default: true) */
+  includeFallback?: boolean;
+  /**
+   * Return the entries and assets embedded in JSON RTE fields under
+   * `_embedded_items`. REST only.
+   */
+  includeEmbeddedItems?: boolean;
+  /** `reload` skips the cache read and refreshes it from the network */
+  cache?: 'default' | 'reload';
+  /** Reports how each underlying request was answered */
+  onCacheStatus?: (status: CacheStatus) => void;
+  /** Cancels the request, including any pending retries */
+  signal?: AbortSignal;
+  /** Per-attempt timeout in milliseconds, overriding the client's */
+  timeout?: number;
+  /**
+   * Read over REST or GraphQL, overriding the client's transport.
+   * Content types without GraphQL operations always use REST.
+   */
+  transport?: Transport;
+  /**
+   * `warn` drops invalid entries from lists, `strict` throws an
+   * InvalidEntryError; overrides the client's mode
+   */
+  validation?: ValidationMode;
+}
+
+// Coalesces getEntryByUid calls into `$in` queries
+type EntryBatcher = Batcher<{ uid: string }, FetchOptions>;
+
+// A Delivery API call: a REST GET, or a GraphQL POST with a body
+interface ApiRequest {
+  url: string;
+  body?: string;
+  /** Extra headers, e.g. the Live Preview session */
+  headers?: Record<string, string>;
+}
+
+// A network request shared by every identical call made while it runs
+interface SharedRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  /** Callers still waiting for the response */
+  subscribers: number;
+}
+
+// What fetchFromAPI needs to know to cache a request
+interface RequestContext
+  extends Pick<
+    FetchOptions,
+    'cache' | 'onCacheStatus' | 'signal' | 'timeout'
+  > {
+  contentType?: string;
+}
+
+// Pagination types
+export interface PageOptions {
+  skip?: number;
+  limit?: number;
+}
+
+export interface EntriesPage<T> {
+  entries: T[];
+  count: number;
+  skip: number;
+  limit: number;
+}
+
+// The Delivery API returns at most 100 entries per request
+export const MAX_PAGE_SIZE = 100;
+
+// The field `getEntryByUrl` matches, for content types that route by
+// something other than their `url` field
+export const urlFields: Partial<Record<string, string>> = {
+  product: 'slug',
+};
+
+/**
+ * The field an entry's URL or slug is stored in
+ */
+export function urlField(contentType: string): string {
+  return urlFields[contentType] ?? 'url';
+}
+
+// What the content hooks read from: the client, or a synced ContentStore
+export interface ContentSource {
+  getEntries<T>(contentType: string, options?: FetchOptions): Promise<T[]>;
+  getEntriesPage<T>(
+    contentType: string,
+    options?: PageOptions & FetchOptions
+  ): Promise<EntriesPage<T>>;
+  getEntryByUid<T>(
+    contentType: string,
+    uid: string,
+    options?: FetchOptions
+  ): Promise<T>;
+  getEntryByUrl<T>(
+    contentType: string,
+    url: string,
+    options?: FetchOptions
+  ): Promise<T | null>;
+}
+
+// Sync API types
+export interface SyncOptions {
+  /** Continue from a previous sync; omit for an initial sync */
+  syncToken?: string;
+  /** Initial sync only: limit to one content type */
+  contentType?: string;
+  /** Initial sync only: limit to one locale */
+  locale?: string;
+  /** Initial sync only: ISO date to sync changes from */
+  startFrom?: string;
+  /** Initial sync only: limit to one kind of change */
+  type?: SyncItemType;
+  signal?: AbortSignal;
+}
+
+export interface SyncResult {
+  items: SyncItem[];
+  /** Pass to the next sync to fetch only what changed since this one */
+  syncToken: string;
+}
+
+interface SyncResponse {
+  items: SyncItem[];
+  pagination_token?: string;
+  sync_token?: string;
+}
+
 // ============================================
-// Content Fetching Functions (Using Direct API)
+// Contentstack Client
 // ============================================
 
 /**
- * Fetch all entries of a specific content type
+ * Pull `error_message` out of a Delivery API error body, if it has one
  */
-export async function getEntries<T>(contentType: string): Promise<T[]> {
+function apiErrorMessage(body: string): string | null {
   try {
-    const response = await fetchFromAPI<EntriesResponse<T>>(
-      `/content_types/${contentType}/entries?environment=${environment}`
-    );
+    const { error_message } = JSON.parse(body) as { error_message?: string };
+    return error_message || null;
+  } catch {
+    return null;
+  }
+}
 
-    if (response?.entries) {
-      console.log(
-        `✅ Fetched ${response.entries.length} ${contentType} entries`
-      );
-      return response.entries;
-    }
+/**
+ * Identify a request for caching and de-duplication
+ */
+function requestKey({ url, body, headers }: ApiRequest): string {
+  return [url, body, headers && JSON.stringify(headers)]
+    .filter(Boolean)
+    .join(' ');
+}
 
-    return [];
-  } catch (error) {
-    console.error(`Error fetching ${contentType}:`, error);
-    return [];
+/**
+ * Compile the filters of an initial sync into URL parameters
+ */
+function initialSyncParams(environment: string, options: SyncOptions): string {
+  const params = new URLSearchParams({ init: 'true', environment });
+  if (options.contentType) {
+    params.set('content_type_uid', options.contentType);
   }
+  if (options.locale) params.set('locale', normalizeLocale(options.locale));
+  if (options.startFrom) params.set('start_from', options.startFrom);
+  if (options.type) params.set('type', options.type);
+  return params.toString();
 }
 
 /**
- * Fetch a single entry by UID
+ * Apply the shared fetch options to a query
  */
-export async function getEntryByUid<T>(
-  contentType: string,
-  uid: string
-): Promise<T | null> {
-  try {
-    const response = await fetchFromAPI<EntryResponse<T>>(
-      `/content_types/${contentType}/entries/${uid}?environment=${environment}`
+function withFetchOptions<T>(
+  entryQuery: EntryQuery<T>,
+  options: FetchOptions
+): EntryQuery<T> {
+  if (options.include !== undefined) entryQuery.include(options.include);
+  if (options.includeEmbeddedItems) entryQuery.includeEmbeddedItems();
+  if (options.locale) {
+    entryQuery.locale(options.locale, options.includeFallback ?? true);
+  }
+  return entryQuery;
+}
+
+export class ContentstackClient implements ContentSource {
+  readonly config: ContentstackConfig & { host: string };
+  /** The Live Preview session, when Live Preview is enabled */
+  readonly livePreview: LivePreview | null;
+  /** Every entry that failed validation, and why */
+  readonly validationReport = new ValidationReport();
+  private baseUrl: string;
+  private cache: ResponseCache | null;
+  private revalidating = new Set<string>();
+  private revalidateListeners = new Set<() => void>();
+  private inflight = new Map<string, SharedRequest>();
+  private entryBatchers = new Map<string, EntryBatcher>();
+  private retry: Required<RetryConfig> | null;
+  private limiter: ConcurrencyLimiter;
+  private fixtures: FixtureBackend | null;
+
+  constructor(config: ContentstackConfig) {
+    this.config = { ...config, host: config.host || DEFAULT_HOST };
+    this.baseUrl = /^https?:\/\//.test(this.config.host)
+      ? `${this.config.host.replace(/\/$/, '')}/v3`
+      : `https://${this.config.host}/v3`;
+    this.livePreview = config.livePreview?.enable
+      ? new LivePreview(config.livePreview)
+      : null;
+    this.fixtures = config.fixtures
+      ? new FixtureBackend(config.fixtures)
+      : null;
+    // Fixtures are already local, and a cache would hide edits to them
+    this.cache =
+      config.cache === false || this.fixtures
+        ? null
+        : new ResponseCache(config.cache);
+    this.retry =
+      config.retry === false ? null : { ...DEFAULT_RETRY, ...config.retry };
+    this.limiter = new ConcurrencyLimiter(
+      config.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY
     );
 
-    if (response?.entry) {
-      return response.entry;
+    const { apiKey, deliveryToken, environment, host } = this.config;
+
+    // Log configuration (without sensitive data)
+    console.log('📦 Contentstack Config:', {
+      apiKey: apiKey ? `${apiKey.slice(0, 10)}...` : 'NOT SET',
+      deliveryToken: deliveryToken
+        ? `${deliveryToken.slice(0, 10)}...`
+        : 'NOT SET',
+      environment,
+      host,
+      livePreview: this.livePreview?.active ?? false,
+      fixtures: this.fixtures !== null,
+    });
+  }
+
+  // ============================================
+  // Caching
+  // ============================================
+
+  /**
+   * Get notified whenever a stale response has been revalidated
+   */
+  onRevalidate(listener: () => void): () => void {
+    this.revalidateListeners.add(listener);
+    return () => {
+      this.revalidateListeners.delete(listener);
+    };
+  }
+
+  async clearCache(): Promise<void> {
+    await this.cache?.clear();
+  }
+
+  /**
+   * Serve a REST request from the cache when possible. During a Live
+   * Preview session it goes to the preview host instead.
+   */
+  private fetchFromAPI<T>(
+    endpoint: string,
+    context: RequestContext = {}
+  ): Promise<T> {
+    const headers = this.previewHeaders();
+    if (!headers) {
+      return this.fetchCached<T>(
+        { url: `${this.baseUrl}${endpoint}` },
+        context
+      );
     }
 
-    return null;
-  } catch (error) {
-    console.error(`Error fetching ${contentType}/${uid}:`, error);
-    return null;
+    const host = this.livePreview?.config.host || DEFAULT_PREVIEW_HOST;
+    return this.fetchCached<T>(
+      { url: `https://${host}/v3${endpoint}`, headers },
+      context
+    );
   }
-}
 
-/**
- * Fetch entries with a query filter
- */
-export async function queryEntries<T>(
-  contentType: string,
-  query?: Record<string, unknown>
-): Promise<T[]> {
-  try {
-    let endpoint = `/content_types/${contentType}/entries?environment=${environment}`;
+  /**
+   * During a Live Preview session, read the locale the editor shows
+   */
+  private withPreviewLocale(options: FetchOptions): FetchOptions {
+    const locale = this.livePreview?.params?.locale;
+    return locale ? { ...options, locale } : options;
+  }
+
+  /**
+   * Headers identifying the Live Preview session, if one is active
+   */
+  private previewHeaders(): Record<string, string> | undefined {
+    const params = this.livePreview?.params;
+    if (!params) return undefined;
+
+    return {
+      preview_token: this.livePreview?.config.previewToken ?? '',
+      live_preview: params.hash,
+    };
+  }
 
-    if (query) {
-      endpoint += `&query=${encodeURIComponent(JSON.stringify(query))}`;
+  /**
+   * Serve a request from the cache when possible. Stale responses are
+   * returned immediately and refreshed in the background.
+   */
+  private async fetchCached<T>(
+    apiRequest: ApiRequest,
+    context: RequestContext = {}
+  ): Promise<T> {
+    // Drafts from a preview session must never be served as published
+    if (!this.cache || apiRequest.headers) {
+      return this.request<T>(apiRequest, context);
     }
 
-    const response = await fetchFromAPI<EntriesResponse<T>>(endpoint);
+    const key = `${this.config.apiKey}:${requestKey(apiRequest)}`;
 
-    if (response?.entries) {
-      return response.entries;
+    if (context.cache !== 'reload') {
+      const cached = await this.cache.read<T>(key, context.contentType);
+      if (cached) {
+        context.onCacheStatus?.(cached.status);
+        if (cached.status === 'stale') this.revalidate(key, apiRequest);
+        return cached.value;
+      }
     }
 
-    return [];
-  } catch (error) {
-    console.error(`Error querying ${contentType}:`, error);
-    return [];
+    context.onCacheStatus?.(context.cache === 'reload' ? 'bypass' : 'miss');
+    const data = await this.request<T>(apiRequest, context);
+    await this.cache.write(key, data);
+    return data;
   }
-}
 
-/**
- * Fetch entry by URL/slug
- */
-export async function getEntryByUrl<T>(
-  contentType: string,
-  url: string
-): Promise<T | null> {
-  try {
-    const entries = await queryEntries<T>(contentType, { url });
-    return entries[0] || null;
-  } catch (error) {
-    console.error(`Error fetching ${contentType} by url ${url}:`, error);
-    return null;
+  private revalidate(key: string, apiRequest: ApiRequest): void {
+    if (!this.cache || this.revalidating.has(key)) return;
+    this.revalidating.add(key);
+
+    // On failure the stale record keeps being served until it expires
+    this.request(apiRequest)
+      .then(async (data) => {
+        await this.cache?.write(key, data);
+        this.revalidateListeners.forEach((listener) => listener());
+      })
+      .catch((error) => console.warn('⚠️ Revalidation failed:', error))
+      .finally(() => this.revalidating.delete(key));
   }
-}
 
-/**
- * Fetch hero banners by variant ID
- */
-export async function getHeroBannerByVariant(
-  variantId: string
-): Promise<HeroBanner | null> {
-  try {
-    const allBanners = await getEntries<HeroBanner>('hero_banner');
-    return allBanners.find((b) => b.variant_id === variantId) || null;
-  } catch (error) {
-    console.error(
-      `Error fetching hero_banner for variant ${variantId}:`,
-      error
+  // ============================================
+  // Direct API Fetch (Works with custom hosts like dev14)
+  // ============================================
+
+  /**
+   * Share one network request between concurrent identical calls. Each
+   * caller's signal only stops that caller waiting; the request itself
+   * is aborted once every caller waiting on it has left.
+   */
+  private request<T>(
+    apiRequest: ApiRequest,
+    { signal, timeout }: RequestContext = {}
+  ): Promise<T> {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+
+    const key = requestKey(apiRequest);
+    let shared = this.inflight.get(key);
+    if (!shared) {
+      const controller = new AbortController();
+      const created: SharedRequest = {
+        controller,
+        subscribers: 0,
+        promise: this.send(apiRequest, {
+          signal: controller.signal,
+          timeout,
+        }).finally(() => {
+          if (this.inflight.get(key) === created) this.inflight.delete(key);
+        }),
+      };
+      this.inflight.set(key, created);
+      shared = created;
+    }
+
+    const request = shared;
+    request.subscribers++;
+    let left = false;
+    const leave = () => {
+      if (left) return;
+      left = true;
+      request.subscribers--;
+    };
+
+    return abortable(request.promise as Promise<T>, signal, () => {
+      leave();
+      if (request.subscribers > 0) return;
+      request.controller.abort(signal?.reason);
+      if (this.inflight.get(key) === request) this.inflight.delete(key);
+    }).finally(leave);
+  }
+
+  /**
+   * Send a request, retrying network errors, 5xx and 429 responses
+   * with backoff. Waits out a `Retry-After` up to `maxDelay`, and fails
+   * on a longer one. An abort by the caller is rethrown as is.
+   */
+  private async send<T>(
+    { url, body, headers }: ApiRequest,
+    { signal, timeout }: RequestContext = {}
+  ): Promise<T> {
+    const { apiKey, deliveryToken, environment } = this.config;
+    const endpoint = url.replace(/^https?:\/\/[^/]+/, '');
+
+    if (this.fixtures) {
+      if (body) {
+        throw new NotFoundError('Fixtures only answer REST requests', {
+          endpoint,
+        });
+      }
+      console.log('📦 Fixture:', endpoint);
+      const data = await this.fixtures.respond<T>(url);
+      signal?.throwIfAborted();
+      return data;
+    }
+
+    const missing = Object.entries({ apiKey, deliveryToken, environment })
+      .filter(([, value]) => !value)
+      .map(([key]) => key);
+    if (missing.length > 0) {
+      console.error('❌ Missing Contentstack config:', missing.join(', '));
+      throw new MissingConfigError(missing);
+    }
+
+    const retry = this.retry ?? { ...DEFAULT_RETRY, retries: 0 };
+    const attempts = retry.retries + 1;
+
+    for (let attempt = 1; ; attempt++) {
+      let response: Response;
+
+      try {
+        response = await this.limiter.run(() => {
+          console.log('🔍 Fetching:', url);
+          return fetch(url, {
+            method: body ? 'POST' : 'GET',
+            body,
+            headers: {
+              api_key: apiKey,
+              access_token: deliveryToken,
+              'Content-Type': 'application/json',
+              ...headers,
+            },
+            signal: withTimeout(
+              signal,
+              timeout ?? this.config.timeout ?? DEFAULT_TIMEOUT
+            ),
+          });
+        });
+      } catch (error) {
+        // Network failure or timeout; give up if the caller aborted
+        if (signal?.aborted) throw signal.reason;
+        if (attempt >= attempts) {
+          console.error('❌ Fetch error:', error);
+          throw new NetworkError(`Could not reach ${this.config.host}`, {
+            endpoint,
+            cause: error,
+          });
+        }
+        console.warn(
+          `⏳ Network error, retrying (${attempt}/${retry.retries})`
+        );
+        await sleep(backoffDelay(attempt - 1, retry), signal);
+        continue;
+      }
+
+      if (response.ok) return this.parseBody<T>(response, endpoint);
+
+      const errorText = await response.text();
+      console.error(`❌ API Error ${response.status}:`, errorText);
+
+      const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+
+      if (
+        !isRetryableStatus(response.status) ||
+        attempt >= attempts ||
+        (retryAfter !== null && retryAfter > retry.maxDelay)
+      ) {
+        throw errorFromStatus(
+          response.status,
+          apiErrorMessage(errorText) ??
+            `HTTP ${response.status}: ${response.statusText}`,
+          { endpoint, retryAfter }
+        );
+      }
+
+      const delay = retryAfter ?? backoffDelay(attempt - 1, retry);
+      console.warn(
+        `⏳ HTTP ${response.status}, retrying in ${delay}ms (${attempt}/${retry.retries})`
+      );
+      await sleep(delay, signal);
+    }
+  }
+
+  private async parseBody<T>(
+    response: Response,
+    endpoint: string
+  ): Promise<T> {
+    try {
+      return (await response.json()) as T;
+    } catch (error) {
+      throw new InvalidResponseError('Response body is not valid JSON', {
+        status: response.status,
+        endpoint,
+        cause: error,
+      });
+    }
+  }
+
+  // ============================================
+  // Content Fetching Methods (Using Direct API)
+  // ============================================
+
+  /**
+   * Run a query and return one page of results with the total entry count
+   */
+  async queryEntriesPage<T>(
+    entryQuery: EntryQuery<T>,
+    options: FetchOptions = {}
+  ): Promise<EntriesPage<T>> {
+    options = this.withPreviewLocale(options);
+    // Per-call options go on a copy, so the caller can reuse the query
+    const pageQuery = withFetchOptions(entryQuery.clone(), options);
+
+    const { contentType } = pageQuery;
+    const skip = Math.max(0, pageQuery.getSkip() ?? 0);
+    const limit = Math.min(
+      Math.max(1, pageQuery.getLimit() ?? MAX_PAGE_SIZE),
+      MAX_PAGE_SIZE
     );
-    return null;
+    pageQuery.skip(skip).limit(limit);
+
+    const page = this.usesGraphQL(contentType, options)
+      ? await this.queryEntriesPageOverGraphQL(pageQuery, options)
+      : await this.queryEntriesPageOverREST(pageQuery, options);
+
+    // Projected entries leave out fields on purpose
+    if (pageQuery.hasProjection()) return page;
+    return {
+      ...page,
+      entries: this.validateEntries(contentType, page.entries, options),
+    };
   }
-}
 
-// Export a dummy Stack for backward compatibility with hooks
-export default {
-  ContentType: () => ({
-    Query: () => ({
-      toJSON: () => ({
-        find: async () => [[]],
-        findOne: async () => null,
-      }),
-      where: () => ({
-        toJSON: () => ({
-          findOne: async () => null,
-        }),
-      }),
-    }),
-    Entry: () => ({
-      toJSON: () => ({
-        fetch: async () => null,
-      }),
-    }),
-  }),
-};
+  private async queryEntriesPageOverREST<T>(
+    entryQuery: EntryQuery<T>,
+    options: FetchOptions
+  ): Promise<EntriesPage<T>> {
+    const { contentType } = entryQuery;
+    const skip = entryQuery.getSkip() ?? 0;
+    const limit = entryQuery.getLimit() ?? MAX_PAGE_SIZE;
+
+    const endpoint = `/content_types/${contentType}/entries?environment=${this.config.environment}&include_count=true&${entryQuery.toQueryString()}`;
+    const response = await this.fetchFromAPI<EntriesResponse<T>>(endpoint, {
+      ...options,
+      contentType,
+    });
+
+    if (!Array.isArray(response?.entries)) {
+      throw new InvalidResponseError('Response is missing `entries`', {
+        endpoint,
+      });
+    }
+
+    return {
+      entries: response.entries,
+      count: response.count ?? response.entries.length,
+      skip,
+      limit,
+    };
+  }
+
+  /**
+   * Fetch one page of entries along with the total entry count
+   */
+  async getEntriesPage<T>(
+    contentType: string,
+    options: PageOptions & FetchOptions = {}
+  ): Promise<EntriesPage<T>> {
+    return this.queryEntriesPage(
+      query<T>(contentType)
+        .skip(options.skip ?? 0)
+        .limit(options.limit ?? MAX_PAGE_SIZE),
+      options
+    );
+  }
+
+  /**
+   * Walk every page of a content type, yielding one page at a time
+   */
+  async *iterateEntries<T>(
+    contentType: string,
+    pageSize: number = MAX_PAGE_SIZE,
+    options: FetchOptions = {}
+  ): AsyncGenerator<EntriesPage<T>> {
+    let skip = 0;
+
+    while (true) {
+      const page = await this.getEntriesPage<T>(contentType, {
+        ...options,
+        skip,
+        limit: pageSize,
+      });
+
+      if (page.entries.length > 0) yield page;
+
+      // Advance by the page size: validation may have dropped entries
+      skip += page.limit;
+      if (skip >= page.count) return;
+    }
+  }
+
+  /**
+   * Fetch all entries of a specific content type
+   */
+  async getEntries<T>(
+    contentType: string,
+    options: FetchOptions = {}
+  ): Promise<T[]> {
+    const entries: T[] = [];
+
+    for await (const page of this.iterateEntries<T>(
+      contentType,
+      MAX_PAGE_SIZE,
+      options
+    )) {
+      entries.push(...page.entries);
+    }
+
+    console.log(`✅ Fetched ${entries.length} ${contentType} entries`);
+    return entries;
+  }
+
+  /**
+   * Fetch a single entry by UID. Calls made in the same tick with the
+   * same options are coalesced into one `$in` query. Throws a
+   * NotFoundError when the entry does not exist, and an
+   * InvalidEntryError when validation is on and the entry fails it.
+   */
+  async getEntryByUid<T>(
+    contentType: string,
+    uid: string,
+    options: FetchOptions = {}
+  ): Promise<T> {
+    options = this.withPreviewLocale(options);
+    let entry: T;
+
+    if (this.usesGraphQL(contentType, options)) {
+      entry = await this.fetchEntryOverGraphQL<T>(contentType, uid, options);
+    } else if (this.config.batch === false) {
+      entry = await this.fetchEntryByUid<T>(contentType, uid, options);
+    } else {
+      // A caller's signal stops it waiting, not the rest of the batch
+      const loaded = await abortable(
+        this.entryBatcher(contentType, options).load(uid, options),
+        options.signal
+      );
+      if (!loaded) {
+        throw new NotFoundError(`No ${contentType} entry with UID ${uid}`);
+      }
+      entry = loaded as unknown as T;
+    }
+
+    return this.validateEntry(contentType, entry, options);
+  }
+
+  /**
+   * The batcher for a content type and set of request options
+   */
+  private entryBatcher(
+    contentType: string,
+    options: FetchOptions
+  ): EntryBatcher {
+    const {
+      include,
+      locale,
+      includeFallback,
+      includeEmbeddedItems,
+      cache,
+      timeout,
+    } = options;
+    const shared: FetchOptions = {
+      include,
+      locale,
+      includeFallback,
+      includeEmbeddedItems,
+      cache,
+      timeout,
+      // Each caller validates its own entry in its own mode
+      validation: 'off',
+    };
+    const key = JSON.stringify([contentType, shared]);
+
+    let batcher = this.entryBatchers.get(key);
+    if (!batcher) {
+      batcher = new Batcher(
+        (uids, callers) =>
+          this.loadEntryBatch(contentType, uids, { ...shared }, callers),
+        MAX_PAGE_SIZE
+      );
+      this.entryBatchers.set(key, batcher);
+    }
+    return batcher;
+  }
+
+  /**
+   * Load a batch of entries, reporting cache status to every caller
+   */
+  private async loadEntryBatch(
+    contentType: string,
+    uids: string[],
+    options: FetchOptions,
+    callers: FetchOptions[]
+  ): Promise<Map<string, { uid: string }>> {
+    options.onCacheStatus = (status) =>
+      callers.forEach((caller) => caller.onCacheStatus?.(status));
+    // The batch is only abandoned once every caller has left
+    options.signal = allAborted(callers.map((caller) => caller.signal));
+
+    if (uids.length === 1) {
+      const entry = await this.fetchEntryByUid<{ uid: string }>(
+        contentType,
+        uids[0],
+        options
+      );
+      return new Map([[entry.uid, entry]]);
+    }
+
+    const entries = await this.queryEntries(
+      query<{ uid: string }>(contentType)
+        .containedIn('uid', uids)
+        .limit(uids.length),
+      options
+    );
+    return new Map(entries.map((entry) => [entry.uid, entry]));
+  }
+
+  private async fetchEntryByUid<T>(
+    contentType: string,
+    uid: string,
+    options: FetchOptions
+  ): Promise<T> {
+    let endpoint = `/content_types/${contentType}/entries/${uid}?environment=${this.config.environment}`;
+
+    const includePaths = resolveIncludePaths(contentType, options.include);
+    if (includePaths.length > 0) {
+      endpoint += `&${toIncludeParams(includePaths)}`;
+    }
+    if (options.includeEmbeddedItems) {
+      endpoint += '&include_embedded_items[]=BASE';
+    }
+    if (options.locale) {
+      endpoint += `&${toLocaleParams(options.locale, options.includeFallback)}`;
+    }
+
+    const response = await this.fetchFromAPI<EntryResponse<T>>(endpoint, {
+      ...options,
+      contentType,
+    });
+
+    if (!response?.entry) {
+      throw new InvalidResponseError('Response is missing `entry`', {
+        endpoint,
+      });
+    }
+    return response.entry;
+  }
+
+  /**
+   * Fetch the entries matching a query built with `query()`. Without a
+   * `limit()`, every page is read, like `getEntries`.
+   */
+  async queryEntries<T>(
+    entryQuery: EntryQuery<T>,
+    options: FetchOptions = {}
+  ): Promise<T[]> {
+    if (entryQuery.getLimit() !== null) {
+      const { entries } = await this.queryEntriesPage(entryQuery, options);
+      return entries;
+    }
+
+    const entries: T[] = [];
+    let skip = Math.max(0, entryQuery.getSkip() ?? 0);
+
+    while (true) {
+      const page = await this.queryEntriesPage(
+        entryQuery.clone().skip(skip).limit(MAX_PAGE_SIZE),
+        options
+      );
+      entries.push(...page.entries);
+
+      // Advance by the page size: validation may have dropped entries
+      skip += page.limit;
+      if (skip >= page.count) return entries;
+    }
+  }
+
+  /**
+   * Fetch the first entry matching a query built with `query()`
+   */
+  async findEntry<T>(
+    entryQuery: EntryQuery<T>,
+    options: FetchOptions = {}
+  ): Promise<T | null> {
+    const [entry] = await this.queryEntries(
+      entryQuery.clone().limit(1),
+      options
+    );
+    return entry ?? null;
+  }
+
+  /**
+   * Fetch entry by URL/slug, matched against the content type's
+   * `urlField`
+   */
+  async getEntryByUrl<T>(
+    contentType: string,
+    url: string,
+    options: FetchOptions = {}
+  ): Promise<T | null> {
+    const entry = await this.findEntry(
+      query<Record<string, string>>(contentType).where(
+        urlField(contentType),
+        url
+      ),
+      options
+    );
+    return entry as T | null;
+  }
+
+  /**
+   * Fetch hero banners by variant ID
+   */
+  async getHeroBannerByVariant(
+    variantId: string,
+    options: FetchOptions = {}
+  ): Promise<HeroBanner | null> {
+    return this.findEntry(
+      query('hero_banner').where('variant_id', variantId),
+      options
+    );
+  }
+
+  // ============================================
+  // Validation
+  // ============================================
+
+  private validationMode(options: FetchOptions): ValidationMode {
+    return options.validation ?? this.config.validation ?? 'off';
+  }
+
+  /**
+   * Check each entry against its content type schema and record the
+   * result in `validationReport`; null for entries that passed
+   */
+  private check<T>(
+    contentType: string,
+    entries: T[]
+  ): (ValidationFailure | null)[] {
+    return entries.map((entry) => {
+      const uid = String((entry as { uid?: unknown })?.uid ?? '(no uid)');
+      const issues = validateEntry(contentType, entry);
+      if (issues.length === 0) {
+        this.validationReport.pass(contentType, uid);
+        return null;
+      }
+
+      const failure = { contentType, uid, issues };
+      this.validationReport.record(failure);
+      return failure;
+    });
+  }
+
+  /**
+   * Validate a list of entries. In `warn` mode invalid entries are
+   * dropped with a warning; in `strict` mode any failure throws an
+   * InvalidEntryError.
+   */
+  validateEntries<T>(
+    contentType: string,
+    entries: T[],
+    options: FetchOptions = {}
+  ): T[] {
+    const mode = this.validationMode(options);
+    if (mode === 'off') return entries;
+
+    const results = this.check(contentType, entries);
+    const failures = results.filter(
+      (result): result is ValidationFailure => result !== null
+    );
+    if (failures.length === 0) return entries;
+    if (mode === 'strict') throw new InvalidEntryError(failures);
+
+    console.warn(
+      `⚠️ Dropped ${failures.length} invalid ${contentType} entries:`,
+      failures
+    );
+    return entries.filter((_, index) => results[index] === null);
+  }
+
+  /**
+   * Validate a single requested entry. There is nothing to fall back
+   * to, so an invalid entry throws in both `warn` and `strict` modes.
+   */
+  validateEntry<T>(
+    contentType: string,
+    entry: T,
+    options: FetchOptions = {}
+  ): T {
+    if (this.validationMode(options) === 'off') return entry;
+
+    const [failure] = this.check(contentType, [entry]);
+    if (failure) throw new InvalidEntryError([failure]);
+    return entry;
+  }
+
+  // ============================================
+  // GraphQL
+  // ============================================
+
+  /**
+   * Run a typed GraphQL operation against the GraphQL Content Delivery
+   * API. Responses are cached and retried like REST responses.
+   */
+  async graphql<TData, TVariables>(
+    operation: GraphQLOperation<TData, TVariables>,
+    variables: TVariables,
+    options: FetchOptions & { contentType?: string } = {}
+  ): Promise<TData> {
+    const { apiKey, environment, graphqlHost } = this.config;
+    const headers = this.previewHeaders();
+    const host = headers
+      ? this.livePreview?.config.graphqlHost || DEFAULT_PREVIEW_GRAPHQL_HOST
+      : graphqlHost || DEFAULT_GRAPHQL_HOST;
+    const url = `https://${host}/stacks/${apiKey}?environment=${environment}`;
+
+    const response = await this.fetchCached<GraphQLResponse<TData>>(
+      {
+        url,
+        body: JSON.stringify({ query: operation.document, variables }),
+        headers,
+      },
+      options
+    );
+
+    if (response?.errors?.length) {
+      throw new InvalidResponseError(
+        response.errors.map((error) => error.message).join('; '),
+        { endpoint: '/graphql' }
+      );
+    }
+    if (!response?.data) {
+      throw new InvalidResponseError('Response is missing `data`', {
+        endpoint: '/graphql',
+      });
+    }
+    return response.data;
+  }
+
+  private usesGraphQL(contentType: string, options: FetchOptions): boolean {
+    // Fixtures are shaped like REST responses
+    if (this.fixtures) return false;
+    const transport = options.transport ?? this.config.transport ?? 'rest';
+    return transport === 'graphql' && hasGraphQLOperations(contentType);
+  }
+
+  private async queryEntriesPageOverGraphQL<T>(
+    entryQuery: EntryQuery<T>,
+    options: FetchOptions
+  ): Promise<EntriesPage<T>> {
+    const contentType =
+      entryQuery.contentType as keyof typeof graphqlOperations;
+    const filter = entryQuery.toFilter();
+    const locale = entryQuery.getLocale();
+    const skip = entryQuery.getSkip() ?? 0;
+    const limit = entryQuery.getLimit() ?? MAX_PAGE_SIZE;
+
+    const variables: CollectionVariables = {
+      skip,
+      limit,
+      locale: locale ? normalizeLocale(locale.code) : undefined,
+      fallback: locale?.includeFallback,
+      where:
+        Object.keys(filter).length > 0 ? toGraphQLWhere(filter) : undefined,
+      order_by: toGraphQLOrder(entryQuery.getSort()),
+    };
+
+    const operation = graphqlOperations[contentType]
+      .collection as GraphQLOperation<
+      Record<string, Collection<GraphQLEntry>>,
+      CollectionVariables
+    >;
+    const data = await this.graphql(operation, variables, {
+      ...options,
+      contentType,
+    });
+
+    const collection = data[`all_${contentType}`];
+    if (!Array.isArray(collection?.items)) {
+      throw new InvalidResponseError('Response is missing `items`', {
+        endpoint: '/graphql',
+      });
+    }
+
+    const includePaths = entryQuery.getIncludePaths();
+    return {
+      entries: collection.items.map((item) =>
+        toRestEntry<T>(item, includePaths)
+      ),
+      count: collection.total ?? collection.items.length,
+      skip,
+      limit,
+    };
+  }
+
+  private async fetchEntryOverGraphQL<T>(
+    contentType: string,
+    uid: string,
+    options: FetchOptions
+  ): Promise<T> {
+    const operation = graphqlOperations[
+      contentType as keyof typeof graphqlOperations
+    ].entry as GraphQLOperation<
+      Record<string, GraphQLEntry | null>,
+      EntryVariables
+    >;
+
+    const data = await this.graphql(
+      operation,
+      {
+        uid,
+        locale: options.locale ? normalizeLocale(options.locale) : undefined,
+        fallback: options.locale
+          ? (options.includeFallback ?? true)
+          : undefined,
+      },
+      { ...options, contentType }
+    );
+
+    const entry = data[contentType];
+    if (!entry) {
+      throw new NotFoundError(`No ${contentType} entry with UID ${uid}`);
+    }
+    return toRestEntry<T>(
+      entry,
+      resolveIncludePaths(contentType, options.include)
+    );
+  }
+
+  // ============================================
+  // Sync API
+  // ============================================
+
+  /**
+   * Fetch every change since `syncToken`, or everything published when
+   * there is no token, following pagination tokens to the end
+   */
+  async sync(options: SyncOptions = {}): Promise<SyncResult> {
+    const items: SyncItem[] = [];
+    let params = options.syncToken
+      ? `sync_token=${encodeURIComponent(options.syncToken)}`
+      : initialSyncParams(this.config.environment, options);
+
+    while (true) {
+      const endpoint = `/stack/sync?${params}`;
+      const response = await this.request<SyncResponse>(
+        { url: `${this.baseUrl}${endpoint}` },
+        { signal: options.signal }
+      );
+
+      if (!Array.isArray(response?.items)) {
+        throw new InvalidResponseError('Response is missing `items`', {
+          endpoint,
+        });
+      }
+      items.push(...response.items);
+
+      if (response.pagination_token) {
+        params = `pagination_token=${encodeURIComponent(response.pagination_token)}`;
+      } else if (response.sync_token) {
+        console.log(`✅ Synced ${items.length} changes`);
+        return { items, syncToken: response.sync_token };
+      } else {
+        throw new InvalidResponseError('Response is missing `sync_token`', {
+          endpoint,
+        });
+      }
+    }
+  }
+}
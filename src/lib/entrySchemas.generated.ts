@@ -0,0 +1,107 @@
+/**
+ * Contentstack Entry Schemas
+ *
+ * Generated by `npm run codegen` alongside the entry interfaces, for
+ * runtime validation. Do not edit by hand; run the command again.
+ */
+import type { ContentTypeMap } from './contentTypes.generated';
+import type { EntrySchema } from './validation';
+
+// ============================================
+// Global Fields
+// ============================================
+
+const seoFields: EntrySchema = {
+  meta_title: { type: 'string' },
+  meta_description: { type: 'string' },
+  no_index: { type: 'boolean' },
+};
+
+// ============================================
+// Content Types
+// ============================================
+
+export const entrySchemas: Record<keyof ContentTypeMap, EntrySchema> = {
+  author: {
+    title: { type: 'string', required: true },
+    bio: { type: 'string' },
+    avatar: { type: 'file' },
+  },
+  blog_post: {
+    title: { type: 'string', required: true },
+    url: { type: 'string', required: true },
+    summary: { type: 'string', required: true },
+    reading_time: { type: 'number' },
+    featured_image: { type: 'file' },
+    body: { type: 'json_rte', required: true },
+    author_name: { type: 'string', required: true },
+    publish_date: { type: 'date', required: true },
+    author: { type: 'reference' },
+    category: { type: 'reference' },
+    related_products: { type: 'reference' },
+    seo: { type: 'group', fields: seoFields },
+  },
+  category: {
+    title: { type: 'string', required: true },
+    slug: { type: 'string', required: true },
+  },
+  hero_banner: {
+    title: { type: 'string', required: true },
+    subtitle: { type: 'string', required: true },
+    cta_text: { type: 'string', required: true },
+    cta_link: { type: 'string', required: true },
+    background_image: { type: 'file' },
+    variant_id: { type: 'string' },
+  },
+  page: {
+    title: { type: 'string', required: true },
+    url: { type: 'string', required: true },
+    sections: {
+      type: 'blocks',
+      blocks: {
+        hero: { experience: { type: 'string' } },
+        product_grid: {
+          title: { type: 'string', required: true },
+          subtitle: { type: 'string' },
+          category: {
+            type: 'enum',
+            values: ['Electronics', 'Apparel', 'Home', 'Books', 'Accessories'],
+          },
+          limit: { type: 'number' },
+        },
+        blog_list: {
+          title: { type: 'string', required: true },
+          limit: { type: 'number' },
+        },
+        cta_band: {
+          title: { type: 'string', required: true },
+          text: { type: 'string' },
+          cta: { type: 'link', required: true },
+        },
+        analytics_teaser: { title: { type: 'string' } },
+      },
+    },
+    seo: { type: 'group', fields: seoFields },
+  },
+  product: {
+    title: { type: 'string', required: true },
+    slug: { type: 'string', required: true },
+    description: { type: 'string', required: true },
+    price: { type: 'number', required: true },
+    image: { type: 'file' },
+    category: {
+      type: 'enum',
+      values: ['Electronics', 'Apparel', 'Home', 'Books', 'Accessories'],
+      required: true,
+    },
+    in_stock: { type: 'boolean', required: true },
+    specifications: {
+      type: 'group',
+      fields: {
+        label: { type: 'string', required: true },
+        value: { type: 'string', required: true },
+      },
+      multiple: true,
+    },
+  },
+};
@@ -0,0 +1,149 @@
+/**
+ * Contentstack Error Model
+ *
+ * Every failure in the delivery client surfaces as a ContentstackError
+ * subclass whose `kind` tells callers what went wrong.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export type ContentstackErrorKind =
+  | 'missing_config'
+  | 'unauthorized'
+  | 'not_found'
+  | 'rate_limited'
+  | 'network'
+  | 'invalid_response';
+
+interface ErrorDetails {
+  status?: number;
+  endpoint?: string;
+  cause?: unknown;
+}
+
+// ============================================
+// Error Classes
+// ============================================
+
+export abstract class ContentstackError extends Error {
+  abstract readonly kind: ContentstackErrorKind;
+  readonly status?: number;
+  readonly endpoint?: string;
+
+  constructor(message: string, details: ErrorDetails = {}) {
+    super(message, { cause: details.cause });
+    this.name = new.target.name;
+    this.status = details.status;
+    this.endpoint = details.endpoint;
+  }
+}
+
+/**
+ * The API key, delivery token or environment is not set
+ */
+export class MissingConfigError extends ContentstackError {
+  readonly kind = 'missing_config';
+  readonly missing: string[];
+
+  constructor(missing: string[]) {
+    super(`Missing Contentstack config: ${missing.join(', ')}`);
+    this.missing = missing;
+  }
+}
+
+/**
+ * The credentials were rejected (401, 403, or 412 for an unknown API key)
+ */
+export class UnauthorizedError extends ContentstackError {
+  readonly kind = 'unauthorized';
+}
+
+/**
+ * The content type or entry does not exist (404, or Contentstack's 422)
+ */
+export class NotFoundError extends ContentstackError {
+  readonly kind = 'not_found';
+}
+
+/**
+ * Still rate limited (429) after every retry
+ */
+export class RateLimitedError extends ContentstackError {
+  readonly kind = 'rate_limited';
+  /** Milliseconds the API asked us to wait, if it said */
+  readonly retryAfter: number | null;
+
+  constructor(
+    message: string,
+    retryAfter: number | null,
+    details: ErrorDetails = {}
+  ) {
+    super(message, details);
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * The request never got a usable answer: a connection failure, a
+ * timeout, or a server error (5xx) that outlasted the retries
+ */
+export class NetworkError extends ContentstackError {
+  readonly kind = 'network';
+}
+
+/**
+ * The API rejected the request or returned a body we could not read.
+ * Also thrown for a query the GraphQL transport cannot express.
+ */
+export class InvalidResponseError extends ContentstackError {
+  readonly kind = 'invalid_response';
+}
+
+export type AnyContentstackError =
+  | MissingConfigError
+  | UnauthorizedError
+  | NotFoundError
+  | RateLimitedError
+  | NetworkError
+  | InvalidResponseError;
+
+// ============================================
+// Helpers
+// ============================================
+
+export function isContentstackError(
+  error: unknown
+): error is AnyContentstackError {
+  return error instanceof ContentstackError;
+}
+
+/**
+ * Map a failed HTTP response onto the error hierarchy
+ */
+export function errorFromStatus(
+  status: number,
+  message: string,
+  details: ErrorDetails & { retryAfter?: number | null } = {}
+): ContentstackError {
+  const withStatus = { ...details, status };
+
+  if (status === 401 || status === 403 || status === 412) {
+    return new UnauthorizedError(message, withStatus);
+  }
+  if (status === 404 || status === 422) {
+    return new NotFoundError(message, withStatus);
+  }
+  if (status === 429) {
+    return new RateLimitedError(
+      message,
+      details.retryAfter ?? null,
+      withStatus
+    );
+  }
+  if (status >= 500) {
+    return new NetworkError(message, withStatus);
+  }
+  return new InvalidResponseError(message, withStatus);
+}
@@ -0,0 +1,74 @@
+/**
+ * Contentstack Field Types
+ *
+ * The shapes the Delivery API returns for built-in field types, used
+ * by the generated entry interfaces.
+ */
+
+// ============================================
+// References
+// ============================================
+
+// Reference fields hold these stubs until resolved with `include`
+export interface EntryReference {
+  uid: string;
+  _content_type_uid: string;
+}
+
+export type Reference<T> =
+  | EntryReference
+  | (T & { _content_type_uid: string });
+
+// ============================================
+// Files and Links
+// ============================================
+
+export interface Asset {
+  uid: string;
+  url: string;
+  title: string;
+  filename?: string;
+  content_type?: string;
+  file_size?: string;
+  description?: string;
+  dimension?: { width: number; height: number };
+  [field: string]: unknown;
+}
+
+export interface Link {
+  title: string;
+  href: string;
+}
+
+export interface TaxonomyTerm {
+  taxonomy_uid: string;
+  term_uid: string;
+}
+
+// ============================================
+// JSON Rich Text
+// ============================================
+
+export interface JsonRteText {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strikethrough?: boolean;
+  inlineCode?: boolean;
+  subscript?: boolean;
+  superscript?: boolean;
+}
+
+export interface JsonRteElement {
+  uid?: string;
+  type: string;
+  attrs?: Record<string, unknown>;
+  children: JsonRteNode[];
+}
+
+export type JsonRteNode = JsonRteElement | JsonRteText;
+
+export interface JsonRteDocument extends JsonRteElement {
+  type: 'doc';
+}
@@ -0,0 +1,452 @@
+/**
+ * Offline Fixture Backend
+ *
+ * Answers Delivery API requests from local JSON fixtures shaped like
+ * Delivery API responses, so the app and its tests run without a stack
+ * or credentials. Queries, sorting, `only`/`except`, `include[]`,
+ * embedded items, locale fallback and pagination are evaluated the
+ * way the Delivery API evaluates them.
+ */
+import type { EntryReference, JsonRteElement } from './fields';
+import { errorFromStatus } from './errors';
+import { MASTER_LOCALE, getFallbackChain, normalizeLocale } from './locale';
+import { groupPaths } from './references';
+import {
+  attr,
+  isJsonRteDocument,
+  referenceKind,
+  referenceNodes,
+  type EmbeddedItem,
+} from './jsonRte';
+import type { SyncItem } from './sync';
+
+// ============================================
+// Types
+// ============================================
+
+/** An entry as the Delivery API returns it */
+export interface FixtureEntry {
+  uid: string;
+  locale?: string;
+  created_at?: string;
+  updated_at?: string;
+  [field: string]: unknown;
+}
+
+/**
+ * Entries by content type UID, each shaped like a `GET …/entries`
+ * response. An entry localized into several locales appears once per
+ * locale, with the same UID.
+ */
+export type FixtureSet = Record<string, { entries: FixtureEntry[] }>;
+
+/** The fixtures, or a function that loads them on first use */
+export type FixtureSource = FixtureSet | (() => Promise<FixtureSet>);
+
+type Filter = Record<string, unknown>;
+
+// What a request reads from: the fixtures, in these locales
+interface ReadContext {
+  fixtures: Map<string, FixtureEntry[]>;
+  locales: string[];
+}
+
+// The token every fixture sync ends with; nothing changes after it
+const SYNC_TOKEN = 'fixtures';
+
+// ============================================
+// Query Evaluation
+// ============================================
+
+/**
+ * The values at a dot path, flattening arrays along the way so that
+ * a condition matches if any value does, as on the Delivery API
+ */
+function valuesAt(value: unknown, path: string[]): unknown[] {
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => valuesAt(item, path));
+  }
+  if (path.length === 0) return value === undefined ? [] : [value];
+  if (typeof value !== 'object' || value === null) return [];
+
+  const [key, ...rest] = path;
+  return valuesAt((value as Record<string, unknown>)[key], rest);
+}
+
+function compare(a: unknown, b: unknown): number | null {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'string' && typeof b === 'string') {
+    return a.localeCompare(b);
+  }
+  return null;
+}
+
+function isOperators(condition: unknown): condition is Filter {
+  return (
+    typeof condition === 'object' &&
+    condition !== null &&
+    !Array.isArray(condition) &&
+    Object.keys(condition).every((key) => key.startsWith('$'))
+  );
+}
+
+/**
+ * Whether the values at a field satisfy one operator
+ */
+function matchesOperator(
+  values: unknown[],
+  operator: string,
+  operand: unknown,
+  options: string
+): boolean {
+  const some = (test: (value: unknown) => boolean) => values.some(test);
+  const ordered = (test: (order: number) => boolean) =>
+    some((value) => {
+      const order = compare(value, operand);
+      return order !== null && test(order);
+    });
+
+  switch (operator) {
+    case '$in':
+      return some((value) => (operand as unknown[]).includes(value));
+    case '$nin':
+      return !some((value) => (operand as unknown[]).includes(value));
+    case '$ne':
+      return !some((value) => value === operand);
+    case '$gt':
+      return ordered((order) => order > 0);
+    case '$gte':
+      return ordered((order) => order >= 0);
+    case '$lt':
+      return ordered((order) => order < 0);
+    case '$lte':
+      return ordered((order) => order <= 0);
+    case '$exists':
+      return (values.length > 0) === operand;
+    case '$regex': {
+      const pattern = new RegExp(
+        String(operand),
+        options.replace(/[^imsu]/g, '')
+      );
+      return some((value) => typeof value === 'string' && pattern.test(value));
+    }
+    case '$options':
+      return true;
+    default:
+      throw errorFromStatus(400, `Unsupported query operator ${operator}`);
+  }
+}
+
+/**
+ * Evaluate a Delivery API `query` filter against an entry
+ */
+function matchesFilter(entry: unknown, filter: Filter): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    if (key === '$and') {
+      return (condition as Filter[]).every((sub) => matchesFilter(entry, sub));
+    }
+    if (key === '$or') {
+      return (condition as Filter[]).some((sub) => matchesFilter(entry, sub));
+    }
+
+    const values = valuesAt(entry, key.split('.'));
+    if (!isOperators(condition)) {
+      return values.some(
+        (value) => JSON.stringify(value) === JSON.stringify(condition)
+      );
+    }
+    return Object.entries(condition).every(([operator, operand]) =>
+      matchesOperator(
+        values,
+        operator,
+        operand,
+        String(condition.$options ?? '')
+      )
+    );
+  });
+}
+
+function isReference(value: unknown): value is EntryReference {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'uid' in value &&
+    '_content_type_uid' in value
+  );
+}
+
+// ============================================
+// Fixture Backend
+// ============================================
+
+export class FixtureBackend {
+  private source: FixtureSource;
+  private loaded: Promise<Map<string, FixtureEntry[]>> | null = null;
+
+  constructor(source: FixtureSource) {
+    this.source = source;
+  }
+
+  /**
+   * Answer a Delivery API GET request. Failures are thrown as the same
+   * ContentstackError subclasses the API's error responses map to.
+   */
+  async respond<T>(url: string): Promise<T> {
+    const { pathname, searchParams } = new URL(url, 'https://fixtures');
+    const endpoint = url.replace(/^https?:\/\/[^/]+/, '');
+    const path = pathname.replace(/^\/v3/, '');
+    const fixtures = await this.load();
+
+    if (path === '/stack/sync') {
+      return this.sync(fixtures, searchParams) as T;
+    }
+
+    const match = /^\/content_types\/([^/]+)\/entries(?:\/([^/]+))?$/.exec(
+      path
+    );
+    if (!match) {
+      throw errorFromStatus(404, `No fixture answers ${path}`, { endpoint });
+    }
+
+    const contentType = decodeURIComponent(match[1]);
+    const entries = fixtures.get(contentType);
+    if (!entries) {
+      throw errorFromStatus(
+        422,
+        `The Content Type '${contentType}' was not found. Please try again.`,
+        { endpoint }
+      );
+    }
+
+    const context: ReadContext = {
+      fixtures,
+      locales: this.locales(searchParams),
+    };
+    if (match[2]) {
+      const entry = this.lookup(
+        entries,
+        decodeURIComponent(match[2]),
+        context.locales
+      );
+      if (!entry) {
+        throw errorFromStatus(422, "The requested entry doesn't exist.", {
+          endpoint,
+        });
+      }
+      return { entry: this.expand(entry, searchParams, context) } as T;
+    }
+    return this.query(entries, searchParams, context) as T;
+  }
+
+  private load(): Promise<Map<string, FixtureEntry[]>> {
+    if (!this.loaded) {
+      const source = this.source;
+      this.loaded = Promise.resolve(
+        typeof source === 'function' ? source() : source
+      ).then(
+        (set) =>
+          new Map(
+            Object.entries(set).map(([contentType, { entries }]) => [
+              contentType,
+              entries,
+            ])
+          )
+      );
+    }
+    return this.loaded;
+  }
+
+  /**
+   * The locales a request reads, most specific first
+   */
+  private locales(params: URLSearchParams): string[] {
+    const locale = normalizeLocale(params.get('locale') ?? MASTER_LOCALE);
+    return params.get('include_fallback') === 'true'
+      ? getFallbackChain(locale)
+      : [locale];
+  }
+
+  private lookup(
+    entries: FixtureEntry[],
+    uid: string,
+    locales: string[]
+  ): FixtureEntry | null {
+    for (const locale of locales) {
+      const entry = entries.find(
+        (candidate) =>
+          candidate.uid === uid &&
+          normalizeLocale(candidate.locale ?? MASTER_LOCALE) === locale
+      );
+      if (entry) return entry;
+    }
+    return null;
+  }
+
+  /**
+   * Filter, sort and page a content type's entries
+   */
+  private query(
+    entries: FixtureEntry[],
+    params: URLSearchParams,
+    context: ReadContext
+  ): { entries: FixtureEntry[]; count?: number } {
+    const filter = JSON.parse(params.get('query') ?? '{}') as Filter;
+    const uids = [...new Set(entries.map(({ uid }) => uid))];
+    const matching = uids
+      .map((uid) => this.lookup(entries, uid, context.locales))
+      .filter(
+        (entry): entry is FixtureEntry =>
+          entry !== null && matchesFilter(entry, filter)
+      );
+
+    const ascending = params.get('asc');
+    const descending = params.get('desc');
+    if (ascending || descending) {
+      const field = (ascending ?? descending)!;
+      const direction = ascending ? 1 : -1;
+      matching.sort(
+        (a, b) => direction * (compare(a[field], b[field]) ?? 0)
+      );
+    } else {
+      // Newest first, like the Delivery API
+      matching.sort((a, b) =>
+        String(b.created_at ?? '').localeCompare(String(a.created_at ?? ''))
+      );
+    }
+
+    const skip = Number(params.get('skip') ?? 0);
+    const limit = Number(params.get('limit') ?? 100);
+    return {
+      entries: matching
+        .slice(skip, skip + limit)
+        .map((entry) =>
+          this.project(this.expand(entry, params, context), params)
+        ),
+      ...(params.get('include_count') === 'true' && {
+        count: matching.length,
+      }),
+    };
+  }
+
+  /**
+   * Resolve `include[]` references and embedded items into a copy
+   */
+  private expand(
+    entry: FixtureEntry,
+    params: URLSearchParams,
+    context: ReadContext
+  ): FixtureEntry {
+    const resolved = this.resolvePaths(
+      structuredClone(entry),
+      params.getAll('include[]'),
+      context
+    );
+    if (!params.has('include_embedded_items[]')) return resolved;
+
+    const embedded: Record<string, EmbeddedItem[]> = {};
+    for (const [field, value] of Object.entries(resolved)) {
+      if (!isJsonRteDocument(value)) continue;
+      embedded[field] = referenceNodes(value)
+        .map((node) => this.embeddedItem(node, context))
+        .filter((item): item is EmbeddedItem => item !== null);
+    }
+    return { ...resolved, _embedded_items: embedded };
+  }
+
+  private embeddedItem(
+    node: JsonRteElement,
+    context: ReadContext
+  ): EmbeddedItem | null {
+    // Fixtures hold entries only; embedded assets are left out
+    if (referenceKind(node) === 'asset') return null;
+
+    const contentType = attr(node, 'content-type-uid') ?? '';
+    const target = this.lookup(
+      context.fixtures.get(contentType) ?? [],
+      attr(node, 'entry-uid') ?? '',
+      context.locales
+    );
+    return target
+      ? { ...structuredClone(target), _content_type_uid: contentType }
+      : null;
+  }
+
+  private resolvePaths(
+    entry: FixtureEntry,
+    paths: string[],
+    context: ReadContext
+  ): FixtureEntry {
+    for (const [field, nested] of groupPaths(paths)) {
+      const refs = entry[field];
+      if (!Array.isArray(refs)) continue;
+
+      entry[field] = refs.map((ref) => {
+        if (!isReference(ref)) return ref;
+        const target = this.lookup(
+          context.fixtures.get(ref._content_type_uid) ?? [],
+          ref.uid,
+          context.locales
+        );
+        if (!target) return ref;
+        return {
+          ...this.resolvePaths(structuredClone(target), nested, context),
+          _content_type_uid: ref._content_type_uid,
+        };
+      });
+    }
+    return entry;
+  }
+
+  /**
+   * Apply `only[BASE][]` and `except[BASE][]`
+   */
+  private project(entry: FixtureEntry, params: URLSearchParams): FixtureEntry {
+    const only = params.getAll('only[BASE][]');
+    const except = params.getAll('except[BASE][]');
+    return Object.fromEntries(
+      Object.entries(entry).filter(
+        ([field]) =>
+          field === 'uid' ||
+          ((only.length === 0 || only.includes(field)) &&
+            !except.includes(field))
+      )
+    ) as FixtureEntry;
+  }
+
+  /**
+   * An initial sync publishes every fixture entry; later syncs find
+   * nothing new
+   */
+  private sync(
+    fixtures: Map<string, FixtureEntry[]>,
+    params: URLSearchParams
+  ): { items: SyncItem[]; sync_token: string } {
+    const type = params.get('type');
+    if (params.has('sync_token') || (type && type !== 'entry_published')) {
+      return { items: [], sync_token: SYNC_TOKEN };
+    }
+
+    const onlyType = params.get('content_type_uid');
+    const onlyLocale = params.get('locale');
+    const items: SyncItem[] = [];
+    for (const [contentType, entries] of fixtures) {
+      if (onlyType && contentType !== onlyType) continue;
+
+      for (const entry of entries) {
+        const locale = normalizeLocale(entry.locale ?? MASTER_LOCALE);
+        if (onlyLocale && locale !== normalizeLocale(onlyLocale)) continue;
+        items.push({
+          type: 'entry_published',
+          content_type_uid: contentType,
+          event_at: entry.updated_at ?? entry.created_at ?? '',
+          data: {
+            ...structuredClone(entry),
+            locale,
+            publish_details: { locale },
+          },
+        });
+      }
+    }
+    return { items, sync_token: SYNC_TOKEN };
+  }
+}
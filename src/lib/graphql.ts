@@ -0,0 +1,433 @@
+/**
+ * Contentstack GraphQL Content Delivery
+ *
+ * Typed operations and fragments for the GraphQL Content Delivery API,
+ * plus the translation between REST-style queries and entries and
+ * their GraphQL counterparts.
+ */
+import type { ContentTypeMap } from './contentstack';
+import { InvalidResponseError } from './errors';
+import type { FieldOperators, QueryFilter, SortDirection } from './query';
+
+// ============================================
+// Types
+// ============================================
+
+export const DEFAULT_GRAPHQL_HOST = 'graphql.contentstack.com';
+
+/** How the client talks to Contentstack */
+export type Transport = 'rest' | 'graphql';
+
+export interface GraphQLFragment {
+  name: string;
+  document: string;
+  /** Fragments this one spreads */
+  uses: GraphQLFragment[];
+}
+
+/**
+ * A GraphQL document whose result and variables are typed
+ */
+export interface GraphQLOperation<TData, TVariables> {
+  document: string;
+  /** Type-only marker carrying TData and TVariables; never set */
+  readonly __types?: { data: TData; variables: TVariables };
+}
+
+export interface SystemFields {
+  uid: string;
+  content_type_uid: string;
+  locale?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/** An entry as the GraphQL API returns it */
+export interface GraphQLEntry {
+  system: SystemFields;
+  [field: string]: unknown;
+}
+
+export interface Connection<T> {
+  totalCount?: number;
+  edges: { node: T }[];
+}
+
+export interface Collection<T> {
+  total: number;
+  items: T[];
+}
+
+export type GraphQLWhere = Record<string, unknown>;
+
+export interface CollectionVariables {
+  skip?: number;
+  limit?: number;
+  locale?: string;
+  fallback?: boolean;
+  where?: GraphQLWhere;
+  order_by?: string[];
+}
+
+export interface EntryVariables {
+  uid: string;
+  locale?: string;
+  fallback?: boolean;
+}
+
+export interface GraphQLResponse<T> {
+  data?: T | null;
+  errors?: { message: string }[];
+}
+
+// ============================================
+// Fragments
+// ============================================
+
+function fragment(
+  name: string,
+  document: string,
+  uses: GraphQLFragment[] = []
+): GraphQLFragment {
+  return { name, document, uses };
+}
+
+export const SystemFieldsFragment = fragment(
+  'SystemFields',
+  `fragment SystemFields on EntrySystemField {
+  uid
+  content_type_uid
+  locale
+  created_at
+  updated_at
+}`
+);
+
+export const AssetFieldsFragment = fragment(
+  'AssetFields',
+  `fragment AssetFields on SysAsset {
+  url
+  title
+}`
+);
+
+export const AuthorFieldsFragment = fragment(
+  'AuthorFields',
+  `fragment AuthorFields on Author {
+  system { ...SystemFields }
+  title
+  bio
+  avatarConnection { edges { node { ...AssetFields } } }
+}`,
+  [SystemFieldsFragment, AssetFieldsFragment]
+);
+
+export const CategoryFieldsFragment = fragment(
+  'CategoryFields',
+  `fragment CategoryFields on Category {
+  system { ...SystemFields }
+  title
+  slug
+}`,
+  [SystemFieldsFragment]
+);
+
+export const ProductFieldsFragment = fragment(
+  'ProductFields',
+  `fragment ProductFields on Product {
+  system { ...SystemFields }
+  title
+  slug
+  description
+  price
+  category
+  in_stock
+  imageConnection { edges { node { ...AssetFields } } }
+}`,
+  [SystemFieldsFragment, AssetFieldsFragment]
+);
+
+export const BlogPostFieldsFragment = fragment(
+  'BlogPostFields',
+  `fragment BlogPostFields on BlogPost {
+  system { ...SystemFields }
+  title
+  url
+  summary
+  reading_time
+  body { json }
+  author_name
+  publish_date
+  seo { meta_title meta_description no_index }
+  featured_imageConnection { edges { node { ...AssetFields } } }
+  authorConnection {
+    totalCount
+    edges { node { ... on Author { ...AuthorFields } } }
+  }
+  categoryConnection {
+    totalCount
+    edges { node { ... on Category { ...CategoryFields } } }
+  }
+  related_productsConnection {
+    totalCount
+    edges { node { ... on Product { ...ProductFields } } }
+  }
+}`,
+  [
+    SystemFieldsFragment,
+    AssetFieldsFragment,
+    AuthorFieldsFragment,
+    CategoryFieldsFragment,
+    ProductFieldsFragment,
+  ]
+);
+
+export const HeroBannerFieldsFragment = fragment(
+  'HeroBannerFields',
+  `fragment HeroBannerFields on HeroBanner {
+  system { ...SystemFields }
+  title
+  subtitle
+  cta_text
+  cta_link
+  variant_id
+  background_imageConnection { edges { node { ...AssetFields } } }
+}`,
+  [SystemFieldsFragment, AssetFieldsFragment]
+);
+
+// ============================================
+// Operations
+// ============================================
+
+/**
+ * Build a typed operation, appending every fragment it uses
+ */
+export function operation<TData, TVariables>(
+  document: string,
+  ...fragments: GraphQLFragment[]
+): GraphQLOperation<TData, TVariables> {
+  const collected = new Map<string, string>();
+
+  const collect = (f: GraphQLFragment) => {
+    if (collected.has(f.name)) return;
+    collected.set(f.name, f.document);
+    f.uses.forEach(collect);
+  };
+  fragments.forEach(collect);
+
+  return { document: [document, ...collected.values()].join('\n\n') };
+}
+
+type GraphQLContentType = 'blog_post' | 'product' | 'hero_banner';
+
+// GraphQL type name and fields fragment of each queryable content type
+const graphqlTypes: Record<
+  GraphQLContentType,
+  { typename: string; fields: GraphQLFragment }
+> = {
+  blog_post: { typename: 'BlogPost', fields: BlogPostFieldsFragment },
+  product: { typename: 'Product', fields: ProductFieldsFragment },
+  hero_banner: { typename: 'HeroBanner', fields: HeroBannerFieldsFragment },
+};
+
+// JSON RTE fields the fragments select as `{ json }`, by content type
+const jsonRteFields: Record<string, string[]> = {
+  blog_post: ['body'],
+};
+
+function collectionOperation<K extends GraphQLContentType>(contentType: K) {
+  const { typename, fields } = graphqlTypes[contentType];
+
+  return operation<
+    { [P in `all_${K}`]: Collection<GraphQLEntry> },
+    CollectionVariables
+  >(
+    `query ${typename}Collection($skip: Int, $limit: Int, $locale: String, $fallback: Boolean, $where: ${typename}Where, $order_by: [EvalReferenceEnum]) {
+  all_${contentType}(skip: $skip, limit: $limit, locale: $locale, fallback_locale: $fallback, where: $where, order_by: $order_by) {
+    total
+    items { ...${fields.name} }
+  }
+}`,
+    fields
+  );
+}
+
+function entryOperation<K extends GraphQLContentType>(contentType: K) {
+  const { typename, fields } = graphqlTypes[contentType];
+
+  return operation<{ [P in K]: GraphQLEntry | null }, EntryVariables>(
+    `query ${typename}Entry($uid: String!, $locale: String, $fallback: Boolean) {
+  ${contentType}(uid: $uid, locale: $locale, fallback_locale: $fallback) {
+    ...${fields.name}
+  }
+}`,
+    fields
+  );
+}
+
+export const BlogPostsQuery = collectionOperation('blog_post');
+export const BlogPostQuery = entryOperation('blog_post');
+export const ProductsQuery = collectionOperation('product');
+export const ProductQuery = entryOperation('product');
+export const HeroBannersQuery = collectionOperation('hero_banner');
+export const HeroBannerQuery = entryOperation('hero_banner');
+
+// The built-in operations the client uses for each content type
+export const graphqlOperations = {
+  blog_post: { collection: BlogPostsQuery, entry: BlogPostQuery },
+  product: { collection: ProductsQuery, entry: ProductQuery },
+  hero_banner: { collection: HeroBannersQuery, entry: HeroBannerQuery },
+} satisfies Record<GraphQLContentType, unknown> &
+  Partial<Record<keyof ContentTypeMap, unknown>>;
+
+export function hasGraphQLOperations(
+  contentType: string
+): contentType is GraphQLContentType {
+  return contentType in graphqlOperations;
+}
+
+// ============================================
+// Query Translation
+// ============================================
+
+// REST query operators and their GraphQL `where` suffixes
+const operatorSuffixes: Partial<Record<keyof FieldOperators<unknown>, string>> =
+  {
+    $in: '_in',
+    $nin: '_nin',
+    $ne: '_ne',
+    $gt: '_gt',
+    $gte: '_gte',
+    $lt: '_lt',
+    $lte: '_lte',
+    $exists: '_exists',
+  };
+
+function isOperators(value: unknown): value is FieldOperators<unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.keys(value).every((key) => key.startsWith('$'))
+  );
+}
+
+/**
+ * Translate a Delivery API `query` filter into a GraphQL `where` input.
+ * `$regex` has no GraphQL equivalent and is rejected with an
+ * InvalidResponseError, as the REST API rejects a query it cannot run.
+ */
+export function toGraphQLWhere<T>(filter: QueryFilter<T>): GraphQLWhere {
+  const where: GraphQLWhere = {};
+
+  for (const [field, condition] of Object.entries(filter)) {
+    if (field === '$and' || field === '$or') {
+      where[field === '$and' ? 'AND' : 'OR'] = (
+        condition as QueryFilter<T>[]
+      ).map(toGraphQLWhere);
+      continue;
+    }
+
+    if (!isOperators(condition)) {
+      where[field] = condition;
+      continue;
+    }
+
+    for (const [operator, value] of Object.entries(condition)) {
+      const suffix =
+        operatorSuffixes[operator as keyof FieldOperators<unknown>];
+      if (!suffix) {
+        throw new InvalidResponseError(
+          `${operator} is not supported over GraphQL`
+        );
+      }
+      where[`${field}${suffix}`] = value;
+    }
+  }
+
+  return where;
+}
+
+/**
+ * Translate a sort into a GraphQL `order_by` value. GraphQL can only
+ * sort on the system dates.
+ */
+export function toGraphQLOrder(
+  sort: { field: string; direction: SortDirection } | null
+): string[] | undefined {
+  if (!sort) return undefined;
+  if (sort.field !== 'created_at' && sort.field !== 'updated_at') {
+    throw new InvalidResponseError(
+      `Sorting by ${sort.field} is not supported over GraphQL`
+    );
+  }
+  return [`${sort.field}_${sort.direction.toUpperCase()}`];
+}
+
+// ============================================
+// Response Normalization
+// ============================================
+
+function isEntry(node: unknown): node is GraphQLEntry {
+  return typeof node === 'object' && node !== null && 'system' in node;
+}
+
+/**
+ * Reshape a GraphQL entry into the entry the REST API returns:
+ * system fields move to the top level, JSON RTE fields are unwrapped
+ * from `{ json }`, asset connections become file fields, and reference
+ * connections become reference arrays. References outside
+ * `includePaths` are reduced to stubs, as REST leaves them.
+ */
+export function toRestEntry<T>(
+  node: GraphQLEntry,
+  includePaths: string[] = []
+): T {
+  const { system, ...fields } = node;
+  const entry: Record<string, unknown> = { ...system };
+  delete entry.content_type_uid;
+  const richTextFields = jsonRteFields[system.content_type_uid] ?? [];
+
+  for (const [key, value] of Object.entries(fields)) {
+    if (key === '__typename') continue;
+    if (richTextFields.includes(key)) {
+      entry[key] = (value as { json?: unknown } | null)?.json ?? undefined;
+      continue;
+    }
+    if (!key.endsWith('Connection')) {
+      entry[key] = value;
+      continue;
+    }
+
+    const field = key.slice(0, -'Connection'.length);
+    const connection = value as Connection<unknown> | null;
+    const nodes = (connection?.edges ?? []).map((edge) => edge.node);
+
+    // The fragments select `totalCount` on reference connections only
+    if (connection?.totalCount === undefined && !nodes.some(isEntry)) {
+      // Asset fields hold a single file, like REST
+      entry[field] = nodes[0] ?? undefined;
+      continue;
+    }
+
+    const nested = includePaths
+      .filter((path) => path.startsWith(`${field}.`))
+      .map((path) => path.slice(field.length + 1));
+    const included = includePaths.includes(field);
+
+    entry[field] = nodes.filter(isEntry).map((ref) =>
+      included
+        ? {
+            ...toRestEntry<object>(ref, nested),
+            _content_type_uid: ref.system.content_type_uid,
+          }
+        : {
+            uid: ref.system.uid,
+            _content_type_uid: ref.system.content_type_uid,
+          }
+    );
+  }
+
+  return entry as T;
+}
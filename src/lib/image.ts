@@ -0,0 +1,183 @@
+/**
+ * Contentstack Image Delivery API
+ *
+ * Builds image transformation URLs (resize, crop, format, quality,
+ * device pixel ratio) for assets served from Contentstack's image
+ * hosts, plus the `srcset` and placeholder URLs responsive images need.
+ */
+import type { Asset } from './fields';
+
+// ============================================
+// Types
+// ============================================
+
+export type ImageFormat =
+  | 'webp'
+  | 'avif'
+  | 'jpg'
+  | 'pjpg'
+  | 'png'
+  | 'gif'
+  | 'webply';
+
+/** `bounds` fits inside width × height; `crop` fills it exactly */
+export type ImageFit = 'bounds' | 'crop';
+
+export type ImageCrop =
+  /** An aspect ratio such as `16:9` */
+  | string
+  | {
+      width: number;
+      height: number;
+      /** Offset from the left; centered when omitted */
+      x?: number;
+      /** Offset from the top; centered when omitted */
+      y?: number;
+      /** Keep faces and other salient content in frame */
+      smart?: boolean;
+    };
+
+export interface ImageTransform {
+  width?: number;
+  height?: number;
+  fit?: ImageFit;
+  crop?: ImageCrop;
+  format?: ImageFormat;
+  /** Serve this format to browsers that accept it, the original otherwise */
+  auto?: 'webp' | 'avif';
+  /** 1–100; applies to lossy formats */
+  quality?: number;
+  /** 1–10; needs a width or height to scale */
+  dpr?: number;
+  /** 1–1000 */
+  blur?: number;
+}
+
+type ImageSource = string | Pick<Asset, 'url'>;
+
+/** Widths for `srcset` when none are given */
+export const DEFAULT_WIDTHS = [320, 640, 960, 1280, 1920];
+
+const PLACEHOLDER_TRANSFORM: ImageTransform = {
+  width: 32,
+  quality: 30,
+  blur: 10,
+};
+
+// ============================================
+// URLs
+// ============================================
+
+function sourceUrl(source: ImageSource): string {
+  return typeof source === 'string' ? source : source.url;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, Math.round(value)));
+}
+
+/**
+ * Whether a URL is served by a Contentstack image host, e.g.
+ * `images.contentstack.io` or `eu-images.contentstack.com`
+ */
+export function isImageDeliveryUrl(url: string): boolean {
+  try {
+    const { hostname } = new URL(url);
+    return /(^|[.-])images\.contentstack\.(io|com)$/.test(hostname);
+  } catch {
+    return false;
+  }
+}
+
+function cropParam(crop: ImageCrop): string {
+  if (typeof crop === 'string') return crop;
+
+  const parts = [String(crop.width), String(crop.height)];
+  if (crop.x !== undefined) parts.push(`x${crop.x}`);
+  if (crop.y !== undefined) parts.push(`y${crop.y}`);
+  if (crop.smart) parts.push('smart');
+  return parts.join(',');
+}
+
+/**
+ * The URL of an image with transformations applied. URLs that are not
+ * on a Contentstack image host are returned unchanged.
+ */
+export function imageUrl(
+  source: ImageSource,
+  transform: ImageTransform = {}
+): string {
+  const url = sourceUrl(source);
+  if (!isImageDeliveryUrl(url)) return url;
+
+  const parsed = new URL(url);
+  const params = parsed.searchParams;
+  const set = (key: string, value: string | number | undefined) => {
+    if (value !== undefined) params.set(key, String(value));
+  };
+
+  const bounded = (value: number | undefined, min: number, max: number) =>
+    value === undefined ? undefined : clamp(value, min, max);
+
+  set('width', bounded(transform.width, 1, 8192));
+  set('height', bounded(transform.height, 1, 8192));
+  set('fit', transform.fit);
+  set('crop', transform.crop && cropParam(transform.crop));
+  set('format', transform.format);
+  set('auto', transform.auto);
+  set('quality', bounded(transform.quality, 1, 100));
+  if (transform.width || transform.height) {
+    set('dpr', bounded(transform.dpr, 1, 10));
+  }
+  set('blur', bounded(transform.blur, 1, 1000));
+
+  return parsed.toString();
+}
+
+/**
+ * A `srcset` with one candidate per width. Heights scale with the
+ * width so the aspect ratio is kept; `dpr` is left to the browser.
+ */
+export function imageSrcSet(
+  source: ImageSource,
+  widths: number[] = DEFAULT_WIDTHS,
+  transform: ImageTransform = {}
+): string {
+  const { width, height } = transform;
+  const ratio = width && height ? height / width : null;
+
+  return [...new Set(widths)]
+    .sort((a, b) => a - b)
+    .map((candidate) => {
+      const url = imageUrl(source, {
+        ...transform,
+        width: candidate,
+        height: ratio ? Math.round(candidate * ratio) : undefined,
+        dpr: undefined,
+      });
+      return `${url} ${candidate}w`;
+    })
+    .join(', ');
+}
+
+/**
+ * A tiny, blurred version of an image to show while it loads. Null
+ * when the image cannot be transformed.
+ */
+export function placeholderUrl(
+  source: ImageSource,
+  transform: ImageTransform = {}
+): string | null {
+  if (!isImageDeliveryUrl(sourceUrl(source))) return null;
+
+  const { width, height, crop, fit } = transform;
+  const ratio = width && height ? height / width : null;
+  return imageUrl(source, {
+    ...PLACEHOLDER_TRANSFORM,
+    height: ratio
+      ? Math.round(PLACEHOLDER_TRANSFORM.width! * ratio)
+      : undefined,
+    crop,
+    fit,
+  });
+}
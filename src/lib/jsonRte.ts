@@ -0,0 +1,333 @@
+/**
+ * JSON Rich Text
+ *
+ * Helpers for walking JSON RTE documents, resolving the entries and
+ * assets embedded in them, and serializing them to HTML outside React.
+ */
+import type {
+  Asset,
+  EntryReference,
+  JsonRteDocument,
+  JsonRteElement,
+  JsonRteNode,
+  JsonRteText,
+} from './fields';
+
+// ============================================
+// Types
+// ============================================
+
+/** Entries and assets returned with `include_embedded_items[]` */
+export type EmbeddedItem =
+  | (EntryReference & Record<string, unknown>)
+  | (Asset & { _content_type_uid: 'sys_assets' });
+
+/** How a `reference` node embeds its item */
+export type ReferenceKind =
+  | 'entry-block'
+  | 'entry-inline'
+  | 'entry-link'
+  | 'asset';
+
+export type Mark = Exclude<keyof JsonRteText, 'text'>;
+
+/** Marks in the order they wrap text, outermost first */
+export const MARKS: Mark[] = [
+  'bold',
+  'italic',
+  'underline',
+  'strikethrough',
+  'inlineCode',
+  'subscript',
+  'superscript',
+];
+
+// ============================================
+// Nodes
+// ============================================
+
+export function isText(node: JsonRteNode): node is JsonRteText {
+  return 'text' in node;
+}
+
+export function isJsonRteDocument(value: unknown): value is JsonRteDocument {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as JsonRteNode & { type?: unknown }).type === 'doc' &&
+    Array.isArray((value as JsonRteElement).children)
+  );
+}
+
+/**
+ * Every `reference` node in a document, in document order
+ */
+export function referenceNodes(node: JsonRteNode): JsonRteElement[] {
+  if (isText(node)) return [];
+  const nested = node.children.flatMap(referenceNodes);
+  return node.type === 'reference' ? [node, ...nested] : nested;
+}
+
+/**
+ * Read a string attribute, e.g. `url` on links or `entry-uid` on
+ * references
+ */
+export function attr(node: JsonRteElement, name: string): string | undefined {
+  const value = node.attrs?.[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Classify a `reference` node by what it embeds and how it is displayed
+ */
+export function referenceKind(node: JsonRteElement): ReferenceKind {
+  if (attr(node, 'type') === 'asset') return 'asset';
+
+  switch (attr(node, 'display-type')) {
+    case 'inline':
+      return 'entry-inline';
+    case 'link':
+      return 'entry-link';
+    default:
+      return 'entry-block';
+  }
+}
+
+/**
+ * Find the item a `reference` node points at among the entry's
+ * embedded items. Returns null when it was not included.
+ */
+export function findEmbeddedItem(
+  node: JsonRteElement,
+  items: EmbeddedItem[] = []
+): EmbeddedItem | null {
+  if (referenceKind(node) === 'asset') {
+    const uid = attr(node, 'asset-uid');
+    return (
+      items.find(
+        (item) => item._content_type_uid === 'sys_assets' && item.uid === uid
+      ) ?? null
+    );
+  }
+
+  const uid = attr(node, 'entry-uid');
+  const contentType = attr(node, 'content-type-uid');
+  return (
+    items.find(
+      (item) =>
+        item.uid === uid &&
+        (!contentType || item._content_type_uid === contentType)
+    ) ?? null
+  );
+}
+
+/**
+ * The embedded items of one JSON RTE field, fetched with the
+ * `includeEmbeddedItems` option
+ */
+export function embeddedItemsOf(
+  entry: object,
+  field: string
+): EmbeddedItem[] {
+  const { _embedded_items } = entry as {
+    _embedded_items?: Record<string, EmbeddedItem[]>;
+  };
+  return _embedded_items?.[field] ?? [];
+}
+
+/**
+ * Plain text of a node and its descendants, e.g. for excerpts
+ */
+export function textContent(node: JsonRteNode): string {
+  if (isText(node)) return node.text;
+  return node.children.map(textContent).join('');
+}
+
+// ============================================
+// HTML Serializer
+// ============================================
+
+export interface HtmlContext {
+  /** The embedded item behind a `reference` node, if it was included */
+  item: EmbeddedItem | null;
+}
+
+export type HtmlNodeRenderer = (
+  node: JsonRteElement,
+  children: string,
+  context: HtmlContext
+) => string;
+
+export interface HtmlOptions {
+  /** The field's embedded items, e.g. `entry._embedded_items.body` */
+  embeddedItems?: EmbeddedItem[];
+  /**
+   * Override renderers by node type, or by reference kind such as
+   * `entry-block` or `asset`
+   */
+  renderers?: Partial<Record<string, HtmlNodeRenderer>>;
+  /** Override how each mark wraps text */
+  marks?: Partial<Record<Mark, (children: string) => string>>;
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// Schemes content may link to or embed; relative URLs are allowed too
+const SAFE_SCHEMES = ['http', 'https', 'mailto'];
+
+/**
+ * The URL when it is http(s), mailto or relative, else undefined, so
+ * that `javascript:` and `data:` URLs from content never render
+ */
+export function safeUrl(url: string | undefined): string | undefined {
+  if (url === undefined) return undefined;
+
+  // Browsers ignore leading spaces and controls, and tabs or newlines
+  // anywhere, so `java\tscript:` still runs; dropping them all is safe
+  const normalized = [...url].filter((char) => char > ' ').join('');
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(normalized)?.[1];
+  if (!scheme) return url;
+  return SAFE_SCHEMES.includes(scheme.toLowerCase()) ? url : undefined;
+}
+
+/**
+ * An HTML element; void elements like `img` have no children
+ */
+function tag(
+  name: string,
+  attrs: Record<string, string | undefined>,
+  children?: string
+): string {
+  const attributes = Object.entries(attrs)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ` ${key}="${escapeHtml(value!)}"`)
+    .join('');
+  return children === undefined
+    ? `<${name}${attributes} />`
+    : `<${name}${attributes}>${children}</${name}>`;
+}
+
+const htmlMarks: Record<Mark, (children: string) => string> = {
+  bold: (children) => `<strong>${children}</strong>`,
+  italic: (children) => `<em>${children}</em>`,
+  underline: (children) => `<u>${children}</u>`,
+  strikethrough: (children) => `<s>${children}</s>`,
+  inlineCode: (children) => `<code>${children}</code>`,
+  subscript: (children) => `<sub>${children}</sub>`,
+  superscript: (children) => `<sup>${children}</sup>`,
+};
+
+// Wraps children in a tag of the same name
+const wrap =
+  (name: string): HtmlNodeRenderer =>
+  (_node, children) =>
+    `<${name}>${children}</${name}>`;
+
+/**
+ * A string field of an embedded item, e.g. its `title` or `url`
+ */
+export function itemField(
+  item: EmbeddedItem | null,
+  field: string
+): string | undefined {
+  const value = item?.[field];
+  return typeof value === 'string' ? value : undefined;
+}
+
+// Embedded entries render as their title unless overridden
+const embeddedEntry =
+  (name: string): HtmlNodeRenderer =>
+  (node, _children, { item }) =>
+    tag(
+      name,
+      { 'data-entry-uid': attr(node, 'entry-uid') },
+      escapeHtml(itemField(item, 'title') ?? attr(node, 'entry-uid') ?? '')
+    );
+
+const htmlRenderers: Record<string, HtmlNodeRenderer> = {
+  doc: (_node, children) => children,
+  fragment: (_node, children) => children,
+  p: wrap('p'),
+  h1: wrap('h1'),
+  h2: wrap('h2'),
+  h3: wrap('h3'),
+  h4: wrap('h4'),
+  h5: wrap('h5'),
+  h6: wrap('h6'),
+  blockquote: wrap('blockquote'),
+  code: (_node, children) => `<pre><code>${children}</code></pre>`,
+  hr: () => '<hr />',
+  ol: wrap('ol'),
+  ul: wrap('ul'),
+  li: wrap('li'),
+  span: wrap('span'),
+  table: wrap('table'),
+  thead: wrap('thead'),
+  tbody: wrap('tbody'),
+  tr: wrap('tr'),
+  th: wrap('th'),
+  td: wrap('td'),
+  a: (node, children) =>
+    tag(
+      'a',
+      { href: safeUrl(attr(node, 'url')), target: attr(node, 'target') },
+      children
+    ),
+  img: (node) => tag('img', { src: attr(node, 'url'), alt: attr(node, 'alt') }),
+  embed: (node) => tag('iframe', { src: safeUrl(attr(node, 'src')) }, ''),
+  'social-embeds': (node) =>
+    tag('iframe', { src: safeUrl(attr(node, 'src')) }, ''),
+  'entry-block': embeddedEntry('div'),
+  'entry-inline': embeddedEntry('span'),
+  'entry-link': (node, children, { item }) =>
+    tag(
+      'a',
+      { href: safeUrl(attr(node, 'href') ?? itemField(item, 'url')) },
+      children
+    ),
+  asset: (node, _children, { item }) =>
+    tag('img', {
+      src: itemField(item, 'url') ?? attr(node, 'asset-link'),
+      alt: attr(node, 'asset-alt') ?? attr(node, 'asset-name') ?? '',
+    }),
+};
+
+/**
+ * Serialize a JSON RTE document to an HTML string. Unknown node
+ * types render their children.
+ */
+export function jsonRteToHtml(
+  document: JsonRteDocument | JsonRteNode,
+  options: HtmlOptions = {}
+): string {
+  const marks = { ...htmlMarks, ...options.marks };
+  const renderers = { ...htmlRenderers, ...options.renderers };
+
+  const render = (node: JsonRteNode): string => {
+    if (isText(node)) {
+      let html = escapeHtml(node.text).replace(/\n/g, '<br />');
+      for (const mark of [...MARKS].reverse()) {
+        if (node[mark]) html = marks[mark]!(html);
+      }
+      return html;
+    }
+
+    const children = node.children.map(render).join('');
+    if (node.type === 'reference') {
+      const item = findEmbeddedItem(node, options.embeddedItems);
+      return renderers[referenceKind(node)]!(node, children, { item });
+    }
+
+    const renderer = renderers[node.type];
+    return renderer ? renderer(node, children, { item: null }) : children;
+  };
+
+  return render(document);
+}
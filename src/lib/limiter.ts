@@ -0,0 +1,46 @@
+/**
+ * Concurrency Limiter
+ *
+ * Caps how many requests run at once so that a page full of content
+ * hooks does not trip the stack's rate limit.
+ */
+
+export class ConcurrencyLimiter {
+  private maxConcurrency: number;
+  private active = 0;
+  private queue: (() => void)[] = [];
+
+  constructor(maxConcurrency: number) {
+    this.maxConcurrency = Math.max(1, maxConcurrency);
+  }
+
+  /**
+   * Run a task once a slot is free
+   */
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(): Promise<void> {
+    if (this.active < this.maxConcurrency) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.queue.push(resolve));
+  }
+
+  private release(): void {
+    const next = this.queue.shift();
+    if (next) {
+      // Hand the slot straight to the next task
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * Contentstack Live Preview
+ *
+ * Reads the preview session from the URL the entry editor opens the
+ * app with, and listens for the editor's change messages while the app
+ * runs inside its preview iframe.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export interface LivePreviewConfig {
+  enable: boolean;
+  previewToken: string;
+  /** Preview REST host (default: `rest-preview.contentstack.com`) */
+  host?: string;
+  /** Preview GraphQL host (default: `graphql-preview.contentstack.com`) */
+  graphqlHost?: string;
+  /**
+   * Origins allowed to send change messages (default: the Contentstack
+   * app in every region)
+   */
+  editorOrigins?: string[];
+}
+
+export const DEFAULT_PREVIEW_HOST = 'rest-preview.contentstack.com';
+export const DEFAULT_PREVIEW_GRAPHQL_HOST = 'graphql-preview.contentstack.com';
+export const DEFAULT_EDITOR_ORIGINS = [
+  'https://app.contentstack.com',
+  'https://eu-app.contentstack.com',
+  'https://au-app.contentstack.com',
+  'https://azure-na-app.contentstack.com',
+  'https://azure-eu-app.contentstack.com',
+  'https://gcp-na-app.contentstack.com',
+  'https://gcp-eu-app.contentstack.com',
+];
+
+/**
+ * The entry being previewed, identified by the editor's session hash
+ */
+export interface LivePreviewParams {
+  hash: string;
+  contentTypeUid?: string;
+  entryUid?: string;
+  locale?: string;
+}
+
+// The message the editor posts whenever the entry changes
+interface EditorMessage {
+  from: 'live-preview';
+  type: string;
+  data?: {
+    hash?: string;
+    content_type_uid?: string;
+    entry_uid?: string;
+    locale?: string;
+  };
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Read the preview session from `?live_preview=…&content_type_uid=…`
+ */
+export function readLivePreviewParams(
+  search = typeof window === 'undefined' ? '' : window.location.search
+): LivePreviewParams | null {
+  const params = new URLSearchParams(search);
+  const hash = params.get('live_preview');
+  if (!hash) return null;
+
+  return {
+    hash,
+    contentTypeUid: params.get('content_type_uid') ?? undefined,
+    entryUid: params.get('entry_uid') ?? undefined,
+    locale: params.get('locale') ?? undefined,
+  };
+}
+
+/**
+ * Whether the app is running inside another page, e.g. the editor
+ */
+export function isInEditor(): boolean {
+  if (typeof window === 'undefined') return false;
+  try {
+    return window.self !== window.top;
+  } catch {
+    // Cross-origin access to window.top throws, which means framed
+    return true;
+  }
+}
+
+function isEditorMessage(data: unknown): data is EditorMessage {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    (data as EditorMessage).from === 'live-preview'
+  );
+}
+
+// ============================================
+// Live Preview
+// ============================================
+
+export class LivePreview {
+  readonly config: LivePreviewConfig;
+  private current: LivePreviewParams | null;
+  private listeners = new Set<(change: LivePreviewParams) => void>();
+
+  constructor(config: LivePreviewConfig) {
+    this.config = config;
+    this.current = config.enable ? readLivePreviewParams() : null;
+  }
+
+  /**
+   * The active preview session, or null when showing published content
+   */
+  get params(): LivePreviewParams | null {
+    return this.current;
+  }
+
+  get active(): boolean {
+    return this.current !== null;
+  }
+
+  /**
+   * Get notified when the editor reports a change. The editor is only
+   * listened to while someone is subscribed.
+   */
+  subscribe(listener: (change: LivePreviewParams) => void): () => void {
+    if (this.listeners.size === 0) this.connect();
+    this.listeners.add(listener);
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) this.disconnect();
+    };
+  }
+
+  private connect(): void {
+    if (!this.config.enable || !isInEditor()) return;
+
+    window.addEventListener('message', this.handleMessage);
+    // Tell the editor we can refresh in place instead of reloading
+    window.parent.postMessage(
+      {
+        from: 'live-preview',
+        type: 'init',
+        data: { config: { shouldReload: false, href: window.location.href } },
+      },
+      '*'
+    );
+  }
+
+  private disconnect(): void {
+    if (typeof window === 'undefined') return;
+    window.removeEventListener('message', this.handleMessage);
+  }
+
+  private handleMessage = (event: MessageEvent): void => {
+    if (event.source !== window.parent) return;
+    const origins = this.config.editorOrigins ?? DEFAULT_EDITOR_ORIGINS;
+    if (!origins.includes(event.origin)) return;
+
+    const message = event.data;
+    if (!isEditorMessage(message) || message.type !== 'client-data-send') {
+      return;
+    }
+
+    const hash = message.data?.hash ?? this.current?.hash;
+    if (!hash) return;
+
+    this.current = {
+      hash,
+      contentTypeUid:
+        message.data?.content_type_uid ?? this.current?.contentTypeUid,
+      entryUid: message.data?.entry_uid ?? this.current?.entryUid,
+      locale: message.data?.locale ?? this.current?.locale,
+    };
+
+    console.log('✏️ Live Preview change:', this.current);
+    const change = this.current;
+    this.listeners.forEach((listener) => listener(change));
+  };
+}
@@ -0,0 +1,93 @@
+/**
+ * Contentstack Locale Configuration
+ *
+ * Defines the locales published on the stack, the fallback chain for
+ * each one, and how a browser language maps onto a supported locale.
+ */
+
+// ============================================
+// Locales
+// ============================================
+
+/** The stack's master locale; every fallback chain ends here */
+export const MASTER_LOCALE = 'en-us';
+
+/**
+ * Each locale's next fallback. Mirrors the fallback languages configured
+ * on the stack so that `include_fallback` resolves the same way.
+ */
+export const localeFallbacks: Record<string, string> = {
+  'en-gb': MASTER_LOCALE,
+  'fr-fr': MASTER_LOCALE,
+  'fr-ca': 'fr-fr',
+  'de-de': MASTER_LOCALE,
+  'es-es': MASTER_LOCALE,
+  'ja-jp': MASTER_LOCALE,
+  'en-au': 'en-gb',
+};
+
+export const SUPPORTED_LOCALES = [
+  MASTER_LOCALE,
+  ...Object.keys(localeFallbacks),
+];
+
+// ============================================
+// Fallback Chains
+// ============================================
+
+/**
+ * The full chain a locale falls back through, e.g. fr-ca → fr-fr → en-us
+ */
+export function getFallbackChain(locale: string): string[] {
+  const chain: string[] = [];
+  let current: string | undefined = normalizeLocale(locale);
+
+  while (current && !chain.includes(current)) {
+    chain.push(current);
+    current = localeFallbacks[current];
+  }
+
+  if (chain[chain.length - 1] !== MASTER_LOCALE) chain.push(MASTER_LOCALE);
+  return chain;
+}
+
+/**
+ * Contentstack locale codes are lower case (`fr-ca`, not `fr-CA`)
+ */
+export function normalizeLocale(locale: string): string {
+  return locale.trim().toLowerCase().replace('_', '-');
+}
+
+/**
+ * Map a browser language onto the closest supported locale: an exact
+ * match, then any locale sharing the language, then the master locale
+ */
+export function resolveLocale(language?: string): string {
+  if (!language) return MASTER_LOCALE;
+
+  const locale = normalizeLocale(language);
+  if (SUPPORTED_LOCALES.includes(locale)) return locale;
+
+  const [lang] = locale.split('-');
+  const sameLanguage = SUPPORTED_LOCALES.filter((l) =>
+    l.startsWith(`${lang}-`)
+  );
+
+  // Prefer the locale the others in this language fall back to
+  return (
+    sameLanguage.find((l) => !sameLanguage.includes(localeFallbacks[l])) ??
+    MASTER_LOCALE
+  );
+}
+
+/**
+ * Compile a locale into Delivery API URL parameters
+ */
+export function toLocaleParams(
+  locale: string,
+  includeFallback = true
+): string {
+  const params = [`locale=${encodeURIComponent(normalizeLocale(locale))}`];
+  if (includeFallback) params.push('include_fallback=true');
+  return params.join('&');
+}
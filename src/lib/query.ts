@@ -0,0 +1,330 @@
+/**
+ * Typed Query Builder for the Contentstack Delivery API
+ *
+ * Builds entry queries against the entry interfaces so that field
+ * names and value types are checked at compile time, then compiles
+ * them into Delivery API URL parameters.
+ */
+import type { ContentTypeMap } from './contentstack';
+import {
+  resolveIncludePaths,
+  toIncludeParams,
+  type IncludeOption,
+} from './references';
+import { toLocaleParams } from './locale';
+
+// ============================================
+// Types
+// ============================================
+
+/** Field names of an entry type */
+export type Field<T> = Extract<keyof T, string>;
+
+/** Field names whose values are strings (usable with $regex) */
+export type StringField<T> = {
+  [K in Field<T>]: NonNullable<T[K]> extends string ? K : never;
+}[Field<T>];
+
+type Value<T, K extends Field<T>> = NonNullable<T[K]>;
+
+export interface FieldOperators<V> {
+  $in?: V[];
+  $nin?: V[];
+  $ne?: V;
+  $gt?: V;
+  $gte?: V;
+  $lt?: V;
+  $lte?: V;
+  $regex?: string;
+  $options?: string;
+  $exists?: boolean;
+}
+
+export type FieldCondition<V> = V | FieldOperators<V>;
+
+export type QueryFilter<T> = {
+  [K in Field<T>]?: FieldCondition<Value<T, K>>;
+} & {
+  $and?: QueryFilter<T>[];
+  $or?: QueryFilter<T>[];
+};
+
+export type SortDirection = 'asc' | 'desc';
+
+type SubQuery<T> = (query: EntryQuery<T>) => EntryQuery<T>;
+
+// ============================================
+// Query Builder
+// ============================================
+
+export class EntryQuery<T> {
+  readonly contentType: string;
+  private conditions: QueryFilter<T>[] = [];
+  private sortField: { field: Field<T>; direction: SortDirection } | null =
+    null;
+  private onlyFields: Field<T>[] = [];
+  private exceptFields: Field<T>[] = [];
+  private includePaths: string[] = [];
+  private embeddedItems = false;
+  private localeCode: { code: string; includeFallback: boolean } | null =
+    null;
+  private limitValue: number | null = null;
+  private skipValue: number | null = null;
+
+  constructor(contentType: string) {
+    this.contentType = contentType;
+  }
+
+  /**
+   * Match entries whose field equals the value
+   */
+  where<K extends Field<T>>(field: K, value: Value<T, K>): this {
+    return this.addCondition(field, value);
+  }
+
+  notEqualTo<K extends Field<T>>(field: K, value: Value<T, K>): this {
+    return this.addCondition(field, { $ne: value });
+  }
+
+  containedIn<K extends Field<T>>(field: K, values: Value<T, K>[]): this {
+    return this.addCondition(field, { $in: values });
+  }
+
+  notContainedIn<K extends Field<T>>(field: K, values: Value<T, K>[]): this {
+    return this.addCondition(field, { $nin: values });
+  }
+
+  greaterThan<K extends Field<T>>(field: K, value: Value<T, K>): this {
+    return this.addCondition(field, { $gt: value });
+  }
+
+  greaterThanOrEqualTo<K extends Field<T>>(
+    field: K,
+    value: Value<T, K>
+  ): this {
+    return this.addCondition(field, { $gte: value });
+  }
+
+  lessThan<K extends Field<T>>(field: K, value: Value<T, K>): this {
+    return this.addCondition(field, { $lt: value });
+  }
+
+  lessThanOrEqualTo<K extends Field<T>>(field: K, value: Value<T, K>): this {
+    return this.addCondition(field, { $lte: value });
+  }
+
+  /**
+   * Match string fields against a regular expression
+   */
+  regex(field: StringField<T>, pattern: string, options?: string): this {
+    const condition: FieldOperators<string> = { $regex: pattern };
+    if (options) condition.$options = options;
+    return this.addCondition(field, condition);
+  }
+
+  exists(field: Field<T>): this {
+    return this.addCondition(field, { $exists: true });
+  }
+
+  notExists(field: Field<T>): this {
+    return this.addCondition(field, { $exists: false });
+  }
+
+  /**
+   * Match entries satisfying every sub-query
+   */
+  and(...queries: SubQuery<T>[]): this {
+    this.conditions.push({
+      $and: this.buildSubQueries(queries),
+    } as QueryFilter<T>);
+    return this;
+  }
+
+  /**
+   * Match entries satisfying at least one sub-query
+   */
+  or(...queries: SubQuery<T>[]): this {
+    this.conditions.push({
+      $or: this.buildSubQueries(queries),
+    } as QueryFilter<T>);
+    return this;
+  }
+
+  ascending(field: Field<T>): this {
+    this.sortField = { field, direction: 'asc' };
+    return this;
+  }
+
+  descending(field: Field<T>): this {
+    this.sortField = { field, direction: 'desc' };
+    return this;
+  }
+
+  /**
+   * Return only the given fields (uid is always included)
+   */
+  only(...fields: Field<T>[]): this {
+    this.onlyFields.push(...fields);
+    return this;
+  }
+
+  /**
+   * Return every field except the given ones
+   */
+  except(...fields: Field<T>[]): this {
+    this.exceptFields.push(...fields);
+    return this;
+  }
+
+  /**
+   * Resolve reference fields, either to a depth or by explicit paths
+   */
+  include(include: IncludeOption): this {
+    const paths = resolveIncludePaths(this.contentType, include);
+    this.includePaths = [...new Set([...this.includePaths, ...paths])];
+    return this;
+  }
+
+  /**
+   * Return the entries and assets embedded in JSON RTE fields
+   */
+  includeEmbeddedItems(): this {
+    this.embeddedItems = true;
+    return this;
+  }
+
+  /**
+   * Fetch a locale, falling back along the stack's fallback chain
+   * for entries that are not localized
+   */
+  locale(code: string, includeFallback = true): this {
+    this.localeCode = { code, includeFallback };
+    return this;
+  }
+
+  /**
+   * Copy the query, so that changes to the copy leave this one as is
+   */
+  clone(): EntryQuery<T> {
+    const copy = new EntryQuery<T>(this.contentType);
+    copy.conditions = [...this.conditions];
+    copy.sortField = this.sortField;
+    copy.onlyFields = [...this.onlyFields];
+    copy.exceptFields = [...this.exceptFields];
+    copy.includePaths = [...this.includePaths];
+    copy.embeddedItems = this.embeddedItems;
+    copy.localeCode = this.localeCode;
+    copy.limitValue = this.limitValue;
+    copy.skipValue = this.skipValue;
+    return copy;
+  }
+
+  limit(count: number): this {
+    this.limitValue = count;
+    return this;
+  }
+
+  skip(count: number): this {
+    this.skipValue = count;
+    return this;
+  }
+
+  getLimit(): number | null {
+    return this.limitValue;
+  }
+
+  getSkip(): number | null {
+    return this.skipValue;
+  }
+
+  getSort(): { field: Field<T>; direction: SortDirection } | null {
+    return this.sortField;
+  }
+
+  getIncludePaths(): string[] {
+    return [...this.includePaths];
+  }
+
+  getLocale(): { code: string; includeFallback: boolean } | null {
+    return this.localeCode;
+  }
+
+  /**
+   * Whether `only()` or `except()` trims the returned fields
+   */
+  hasProjection(): boolean {
+    return this.onlyFields.length > 0 || this.exceptFields.length > 0;
+  }
+
+  /**
+   * Compile the conditions into a Delivery API `query` object
+   */
+  toFilter(): QueryFilter<T> {
+    if (this.conditions.length === 0) return {} as QueryFilter<T>;
+    if (this.conditions.length === 1) return this.conditions[0];
+    return { $and: [...this.conditions] } as QueryFilter<T>;
+  }
+
+  /**
+   * Compile the query into Delivery API URL parameters
+   */
+  toQueryString(): string {
+    const params: string[] = [];
+    const filter = this.toFilter();
+
+    if (Object.keys(filter).length > 0) {
+      params.push(`query=${encodeURIComponent(JSON.stringify(filter))}`);
+    }
+    if (this.sortField) {
+      params.push(
+        `${this.sortField.direction}=${encodeURIComponent(this.sortField.field)}`
+      );
+    }
+    for (const field of this.onlyFields) {
+      params.push(`only[BASE][]=${encodeURIComponent(field)}`);
+    }
+    for (const field of this.exceptFields) {
+      params.push(`except[BASE][]=${encodeURIComponent(field)}`);
+    }
+    if (this.includePaths.length > 0) {
+      params.push(toIncludeParams(this.includePaths));
+    }
+    if (this.embeddedItems) params.push('include_embedded_items[]=BASE');
+    if (this.localeCode) {
+      params.push(
+        toLocaleParams(this.localeCode.code, this.localeCode.includeFallback)
+      );
+    }
+    if (this.skipValue !== null) params.push(`skip=${this.skipValue}`);
+    if (this.limitValue !== null) params.push(`limit=${this.limitValue}`);
+
+    return params.join('&');
+  }
+
+  private addCondition(field: Field<T>, condition: unknown): this {
+    this.conditions.push({ [field]: condition } as QueryFilter<T>);
+    return this;
+  }
+
+  private buildSubQueries(queries: SubQuery<T>[]): QueryFilter<T>[] {
+    return queries.map((build) =>
+      build(new EntryQuery<T>(this.contentType)).toFilter()
+    );
+  }
+}
+
+// ============================================
+// Factory
+// ============================================
+
+/**
+ * Start a query for a content type. Known content types are typed
+ * from their entry interface; others take an explicit type argument.
+ */
+export function query<K extends keyof ContentTypeMap>(
+  contentType: K
+): EntryQuery<ContentTypeMap[K]>;
+export function query<T>(contentType: string): EntryQuery<T>;
+export function query<T>(contentType: string): EntryQuery<T> {
+  return new EntryQuery<T>(contentType);
+}
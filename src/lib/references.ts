@@ -0,0 +1,138 @@
+/**
+ * Contentstack Reference Field Resolution
+ *
+ * Describes which fields reference other content types and expands
+ * them into Delivery API `include[]` paths to a chosen depth.
+ */
+import type { ContentTypeMap, EntryReference } from './contentstack';
+import type { Field } from './query';
+
+// ============================================
+// Reference Field Registry
+// ============================================
+
+type ReferenceFieldMap = {
+  [K in keyof ContentTypeMap]?: Partial<
+    Record<Field<ContentTypeMap[K]>, keyof ContentTypeMap>
+  >;
+};
+
+/**
+ * Reference fields per content type, mapped to the content type they point to
+ */
+export const referenceFields: ReferenceFieldMap = {
+  blog_post: {
+    author: 'author',
+    category: 'category',
+    related_products: 'product',
+  },
+};
+
+/**
+ * Which references to resolve: a depth, or explicit `include[]` paths
+ */
+export type IncludeOption = number | string[];
+
+// ============================================
+// Include Path Expansion
+// ============================================
+
+function referencesOf(
+  contentType: string
+): [string, keyof ContentTypeMap][] {
+  const fields = referenceFields[contentType as keyof ContentTypeMap] ?? {};
+  return Object.entries(fields) as [string, keyof ContentTypeMap][];
+}
+
+/**
+ * Expand the reference fields of a content type into `include[]` paths,
+ * following nested references up to `depth` levels. A content type is
+ * never expanded twice along the same path, so cyclic references
+ * (e.g. product → blog_post → product) stop instead of recursing.
+ */
+export function expandIncludePaths(
+  contentType: string,
+  depth: number
+): string[] {
+  const paths: string[] = [];
+
+  const walk = (
+    type: string,
+    prefix: string,
+    level: number,
+    seen: string[]
+  ) => {
+    if (level > depth) return;
+
+    for (const [field, target] of referencesOf(type)) {
+      const path = prefix ? `${prefix}.${field}` : field;
+      paths.push(path);
+
+      if (!seen.includes(target)) {
+        walk(target, path, level + 1, [...seen, target]);
+      }
+    }
+  };
+
+  walk(contentType, '', 1, [contentType]);
+  return paths;
+}
+
+/**
+ * Normalize an include option into a list of `include[]` paths
+ */
+export function resolveIncludePaths(
+  contentType: string,
+  include?: IncludeOption
+): string[] {
+  if (include === undefined) return [];
+  if (typeof include === 'number') {
+    return expandIncludePaths(contentType, include);
+  }
+  return [...new Set(include)];
+}
+
+/**
+ * Group `include[]` paths by their first field, e.g.
+ * [`author`, `related_products.category`] →
+ * { author: [], related_products: [`category`] }
+ */
+export function groupPaths(paths: string[]): Map<string, string[]> {
+  const groups = new Map<string, string[]>();
+  for (const path of paths) {
+    const [field, ...rest] = path.split('.');
+    const nested = groups.get(field) ?? [];
+    if (rest.length > 0) nested.push(rest.join('.'));
+    groups.set(field, nested);
+  }
+  return groups;
+}
+
+/**
+ * Compile `include[]` paths into Delivery API URL parameters
+ */
+export function toIncludeParams(paths: string[]): string {
+  return paths
+    .map((path) => `include[]=${encodeURIComponent(path)}`)
+    .join('&');
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Whether a reference has been resolved into a full entry
+ */
+export function isResolved<T>(ref: EntryReference | T): ref is T {
+  return Object.keys(ref as object).some(
+    (key) => key !== 'uid' && key !== '_content_type_uid'
+  );
+}
+
+/**
+ * Keep only the references that were resolved into full entries
+ */
+export function resolvedEntries<T>(refs?: (EntryReference | T)[]): T[] {
+  return (refs ?? []).filter(isResolved<T>);
+}
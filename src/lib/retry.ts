@@ -0,0 +1,166 @@
+/**
+ * Retry and Backoff Helpers
+ *
+ * Decides which Delivery API failures are worth retrying and how long
+ * to wait between attempts.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export interface RetryConfig {
+  /** Retries after the first attempt (default: 3) */
+  retries?: number;
+  /** Delay before the first retry in milliseconds (default: 300) */
+  baseDelay?: number;
+  /**
+   * Upper bound for any single delay in milliseconds (default: 10
+   * seconds). A longer `Retry-After` fails instead of waiting.
+   */
+  maxDelay?: number;
+}
+
+export const DEFAULT_RETRY: Required<RetryConfig> = {
+  retries: 3,
+  baseDelay: 300,
+  maxDelay: 10_000,
+};
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Rate limits and server errors are transient; other statuses are not
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay between zero and
+ * `baseDelay * 2^attempt`, capped at `maxDelay`
+ */
+export function backoffDelay(
+  attempt: number,
+  config: Required<RetryConfig>
+): number {
+  const ceiling = Math.min(config.maxDelay, config.baseDelay * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Parse a `Retry-After` header given in seconds or as an HTTP date
+ */
+export function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, date - Date.now());
+}
+
+/**
+ * Wait for a delay, rejecting early if the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Combine a caller's signal with a per-attempt timeout
+ */
+export function withTimeout(
+  signal?: AbortSignal,
+  timeout?: number
+): AbortSignal | undefined {
+  const signals = [
+    signal,
+    timeout ? AbortSignal.timeout(timeout) : undefined,
+  ].filter((s): s is AbortSignal => s !== undefined);
+
+  if (signals.length <= 1) return signals[0];
+  return AbortSignal.any(signals);
+}
+
+/**
+ * Settle with a promise, or reject as soon as the signal aborts. The
+ * promise itself keeps running; `onAbort` lets the caller clean up.
+ */
+export function abortable<T>(
+  promise: Promise<T>,
+  signal?: AbortSignal,
+  onAbort?: () => void
+): Promise<T> {
+  if (!signal) return promise;
+
+  return new Promise((resolve, reject) => {
+    const abort = () => {
+      onAbort?.();
+      reject(signal.reason);
+    };
+    if (signal.aborted) {
+      // Nobody waits on the promise now, so let it fail quietly
+      promise.catch(() => {});
+      abort();
+      return;
+    }
+
+    signal.addEventListener('abort', abort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', abort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', abort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * A signal that aborts once every given signal has aborted. A caller
+ * without a signal never leaves, so then there is no signal at all.
+ */
+export function allAborted(
+  signals: (AbortSignal | undefined)[]
+): AbortSignal | undefined {
+  if (signals.length === 0 || signals.some((signal) => !signal)) {
+    return undefined;
+  }
+
+  const controller = new AbortController();
+  const check = (reason: unknown) => {
+    if (signals.every((signal) => signal!.aborted)) controller.abort(reason);
+  };
+  for (const signal of signals as AbortSignal[]) {
+    if (signal.aborted) continue;
+    signal.addEventListener('abort', () => check(signal.reason), {
+      once: true,
+    });
+  }
+  check(signals[0]!.reason);
+  return controller.signal;
+}
@@ -0,0 +1,170 @@
+/**
+ * Client-Side Routing
+ *
+ * A small History API router: navigate without reloading, notify
+ * subscribers on every location change (including back and forward),
+ * and match paths against patterns like `/blog/:url`.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export interface RouterLocation {
+  pathname: string;
+  search: string;
+  hash: string;
+}
+
+export interface NavigateOptions {
+  /** Replace the current history entry instead of pushing a new one */
+  replace?: boolean;
+  /** Scroll to the hash target or the top afterwards (default: true) */
+  scroll?: boolean;
+}
+
+export type RouteParams = Record<string, string>;
+
+// ============================================
+// History
+// ============================================
+
+// How long to keep looking for a hash target on a new page
+const HASH_TARGET_TIMEOUT = 3000;
+
+const listeners = new Set<() => void>();
+let current: RouterLocation | null = null;
+
+function readLocation(): RouterLocation {
+  const { pathname, search, hash } = window.location;
+  return { pathname, search, hash };
+}
+
+function notify(): void {
+  current = readLocation();
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * The current location. Returns the same object until it changes, as
+ * `useSyncExternalStore` requires.
+ */
+export function getLocation(): RouterLocation {
+  if (!current) current = readLocation();
+  return current;
+}
+
+/**
+ * Get notified whenever the location changes
+ */
+export function subscribe(listener: () => void): () => void {
+  if (listeners.size === 0) window.addEventListener('popstate', notify);
+  listeners.add(listener);
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) window.removeEventListener('popstate', notify);
+  };
+}
+
+/**
+ * Scroll to the element a hash names, or to the top of the page
+ */
+function scrollToTarget(hash: string): void {
+  const target = hash ? document.getElementById(hash.slice(1)) : null;
+  if (target) {
+    target.scrollIntoView();
+  } else {
+    window.scrollTo(0, 0);
+  }
+}
+
+/**
+ * Scroll to a hash target once the new route renders it. Pages that
+ * load their content first render the target late, so keep looking
+ * each frame for a while, starting from the top of the page.
+ */
+function scrollWhenRendered(hash: string): void {
+  const href = window.location.href;
+  const started = performance.now();
+
+  const attempt = (first: boolean) => {
+    // Stop if the user has navigated on in the meantime
+    if (window.location.href !== href) return;
+
+    const target = hash ? document.getElementById(hash.slice(1)) : null;
+    if (target) {
+      target.scrollIntoView();
+      return;
+    }
+    if (first) window.scrollTo(0, 0);
+    if (hash && performance.now() - started < HASH_TARGET_TIMEOUT) {
+      requestAnimationFrame(() => attempt(false));
+    }
+  };
+  requestAnimationFrame(() => attempt(true));
+}
+
+/**
+ * Go to a path within the app. External URLs fall through to a full
+ * page load.
+ */
+export function navigate(to: string, options: NavigateOptions = {}): void {
+  const url = new URL(to, window.location.href);
+  if (url.origin !== window.location.origin) {
+    window.location.assign(url.href);
+    return;
+  }
+
+  const path = `${url.pathname}${url.search}${url.hash}`;
+  const samePage =
+    url.pathname === window.location.pathname &&
+    url.search === window.location.search;
+
+  if (options.replace) {
+    window.history.replaceState(null, '', path);
+  } else {
+    window.history.pushState(null, '', path);
+  }
+  notify();
+  if (options.scroll === false) return;
+
+  // Wait for the new route to render before scrolling to it
+  if (samePage) {
+    scrollToTarget(url.hash);
+  } else {
+    scrollWhenRendered(url.hash);
+  }
+}
+
+// ============================================
+// Matching
+// ============================================
+
+/**
+ * Match a pathname against a pattern such as `/products/:slug`.
+ * Returns the decoded params, or null when the path does not match.
+ */
+export function matchPath(
+  pattern: string,
+  pathname: string
+): RouteParams | null {
+  const patternParts = pattern.split('/').filter(Boolean);
+  const pathParts = pathname.split('/').filter(Boolean);
+  if (patternParts.length !== pathParts.length) return null;
+
+  const params: RouteParams = {};
+  for (const [index, part] of patternParts.entries()) {
+    const segment = pathParts[index];
+    if (part.startsWith(':')) {
+      try {
+        params[part.slice(1)] = decodeURIComponent(segment);
+      } catch {
+        return null;
+      }
+    } else if (part !== segment) {
+      return null;
+    }
+  }
+  return params;
+}
@@ -0,0 +1,260 @@
+/**
+ * Site Search
+ *
+ * Searches blog posts and products with Delivery API `$regex`
+ * queries, ranks the matches by where the terms appear and splits
+ * text into highlighted segments for display.
+ */
+import type {
+  ContentstackClient,
+  ContentTypeMap,
+  FetchOptions,
+} from './contentstack';
+import {
+  query,
+  type EntryQuery,
+  type Field,
+  type StringField,
+} from './query';
+
+// ============================================
+// Types
+// ============================================
+
+export type SearchableType = 'blog_post' | 'product';
+
+export interface SearchResult {
+  contentType: SearchableType;
+  uid: string;
+  title: string;
+  /** Route of the entry's detail page */
+  url: string;
+  /** The part of the entry's text around the first match */
+  excerpt: string;
+  score: number;
+}
+
+export interface SearchOptions
+  extends Pick<FetchOptions, 'locale' | 'signal'> {
+  /** Maximum number of results across all content types (default: 10) */
+  limit?: number;
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+interface SearchTarget<T> {
+  /** String fields to match, with their weight in the ranking */
+  fields: Partial<Record<StringField<T>, number>>;
+  /** The field the excerpt is taken from */
+  excerptField: StringField<T>;
+  /** Fields the detail route needs besides the searched ones */
+  routeFields: Field<T>[];
+  route: (entry: T) => string;
+}
+
+// ============================================
+// Configuration
+// ============================================
+
+export const SEARCHABLE_TYPES: SearchableType[] = ['blog_post', 'product'];
+
+const searchTargets: {
+  [K in SearchableType]: SearchTarget<ContentTypeMap[K]>;
+} = {
+  blog_post: {
+    fields: { title: 3, summary: 1 },
+    excerptField: 'summary',
+    routeFields: ['url'],
+    route: (post) => post.url,
+  },
+  product: {
+    fields: { title: 3, description: 1 },
+    excerptField: 'description',
+    routeFields: ['slug'],
+    route: (product) => `/products/${encodeURIComponent(product.slug)}`,
+  },
+};
+
+// Terms beyond this are ignored to keep query URLs short
+const MAX_TERMS = 5;
+
+// Candidates fetched per content type before ranking
+const CANDIDATE_LIMIT = 50;
+
+const EXCERPT_LENGTH = 160;
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Escape a string for literal use in a regular expression
+ */
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Split a search input into unique, lowercased terms
+ */
+export function searchTerms(input: string): string[] {
+  const terms = input.toLowerCase().split(/\s+/).filter(Boolean);
+  return [...new Set(terms)].slice(0, MAX_TERMS);
+}
+
+/**
+ * Score one field's text: the whole phrase counts most, then terms
+ * that start a word, then terms inside a word
+ */
+function scoreText(text: string, terms: string[]): number {
+  const lower = text.toLowerCase();
+  const phrase = terms.join(' ');
+  let score = 0;
+
+  if (lower === phrase) score += 4;
+  else if (lower.startsWith(phrase)) score += 3;
+  else if (terms.length > 1 && lower.includes(phrase)) score += 2;
+
+  for (const term of terms) {
+    if (new RegExp(`\\b${escapeRegex(term)}`).test(lower)) score += 1;
+    else if (lower.includes(term)) score += 0.5;
+  }
+  return score;
+}
+
+/**
+ * Split text into matching and non-matching segments
+ */
+export function highlight(text: string, terms: string[]): HighlightSegment[] {
+  if (terms.length === 0 || !text) return [{ text, match: false }];
+
+  // Longest first, so "cloud" wins over "c" where both match
+  const pattern = [...terms]
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegex)
+    .join('|');
+
+  return text
+    .split(new RegExp(`(${pattern})`, 'gi'))
+    .filter(Boolean)
+    .map((segment) => ({
+      text: segment,
+      match: terms.includes(segment.toLowerCase()),
+    }));
+}
+
+/**
+ * Cut text down to the passage around the first matching term
+ */
+export function excerpt(
+  text: string,
+  terms: string[],
+  length = EXCERPT_LENGTH
+): string {
+  if (text.length <= length) return text;
+
+  const lower = text.toLowerCase();
+  const hits = terms.map((term) => lower.indexOf(term)).filter((i) => i >= 0);
+  const first = hits.length > 0 ? Math.min(...hits) : 0;
+
+  // Lead in with some context, cutting on word boundaries
+  let start = Math.max(0, first - Math.floor(length / 4));
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    if (space !== -1 && space < first) start = space + 1;
+  }
+  let end = Math.min(text.length, start + length);
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    if (space > first) end = space;
+  }
+
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${
+    end < text.length ? '…' : ''
+  }`;
+}
+
+// ============================================
+// Search
+// ============================================
+
+/**
+ * Fetch and rank the entries of one content type that contain every
+ * term in at least one searchable field
+ */
+async function searchType<K extends SearchableType>(
+  client: ContentstackClient,
+  contentType: K,
+  terms: string[],
+  options: SearchOptions
+): Promise<SearchResult[]> {
+  type T = ContentTypeMap[K];
+  const target: SearchTarget<T> = searchTargets[contentType];
+  const fields = Object.keys(target.fields) as StringField<T>[];
+
+  const entryQuery = query<T>(contentType)
+    .and(
+      ...terms.map(
+        (term) => (q: EntryQuery<T>) =>
+          q.or(
+            ...fields.map(
+              (field) => (sub: EntryQuery<T>) =>
+                sub.regex(field, escapeRegex(term), 'i')
+            )
+          )
+      )
+    )
+    .only('uid' as Field<T>, ...fields, ...target.routeFields)
+    .limit(CANDIDATE_LIMIT);
+
+  const entries = await client.queryEntries(entryQuery, {
+    locale: options.locale,
+    signal: options.signal,
+    // $regex has no GraphQL equivalent
+    transport: 'rest',
+  });
+
+  return entries.map((entry) => {
+    const text = (field: StringField<T>) => String(entry[field] ?? '');
+    const score = fields.reduce(
+      (total, field) =>
+        total + (target.fields[field] ?? 0) * scoreText(text(field), terms),
+      0
+    );
+
+    return {
+      contentType,
+      uid: String(entry['uid' as Field<T>]),
+      title: text('title' as StringField<T>),
+      url: target.route(entry),
+      excerpt: excerpt(text(target.excerptField), terms),
+      score,
+    };
+  });
+}
+
+/**
+ * Search blog posts and products, best matches first
+ */
+export async function search(
+  client: ContentstackClient,
+  input: string,
+  options: SearchOptions = {}
+): Promise<SearchResult[]> {
+  const terms = searchTerms(input);
+  if (terms.length === 0) return [];
+
+  const results = await Promise.all(
+    SEARCHABLE_TYPES.map((contentType) =>
+      searchType(client, contentType, terms, options)
+    )
+  );
+
+  return results
+    .flat()
+    .sort((a, b) => b.score - a.score || a.title.localeCompare(b.title))
+    .slice(0, options.limit ?? 10);
+}
@@ -0,0 +1,491 @@
+/**
+ * Contentstack Sync and Local Content Store
+ *
+ * Mirrors published entries and assets into a local store using the
+ * Sync API: one initial sync, then delta syncs from the saved
+ * `sync_token`. The store answers the same reads as the client, so
+ * content keeps working offline once it has synced.
+ */
+import {
+  urlField,
+  type ContentSource,
+  type ContentstackClient,
+  type EntriesPage,
+  type FetchOptions,
+  type PageOptions,
+} from './contentstack';
+import type { Asset, EntryReference, JsonRteElement } from './fields';
+import { MemoryCacheStore, type CacheStore } from './cache';
+import { MASTER_LOCALE, getFallbackChain, normalizeLocale } from './locale';
+import { groupPaths, resolveIncludePaths } from './references';
+import {
+  attr,
+  isJsonRteDocument,
+  referenceKind,
+  referenceNodes,
+  type EmbeddedItem,
+} from './jsonRte';
+import { NotFoundError, isContentstackError } from './errors';
+
+// ============================================
+// Types
+// ============================================
+
+export type SyncItemType =
+  | 'entry_published'
+  | 'entry_unpublished'
+  | 'entry_deleted'
+  | 'asset_published'
+  | 'asset_unpublished'
+  | 'asset_deleted'
+  | 'content_type_deleted';
+
+export interface SyncItem {
+  type: SyncItemType;
+  content_type_uid?: string;
+  event_at: string;
+  data: SyncedRecord;
+}
+
+// The fields of a synced entry or asset the store relies on
+interface SyncedRecord {
+  uid: string;
+  locale?: string;
+  created_at?: string;
+  publish_details?: { locale?: string };
+  [field: string]: unknown;
+}
+
+interface StoredEntry {
+  contentType: string;
+  locale: string;
+  data: SyncedRecord;
+}
+
+interface StoreSnapshot {
+  entries: StoredEntry[];
+  assets: Asset[];
+  syncToken: string | null;
+}
+
+export interface ContentStoreOptions {
+  /** Where the synced content is persisted (default: in memory) */
+  persist?: CacheStore;
+}
+
+const SNAPSHOT_KEY = 'snapshot';
+
+// ============================================
+// Helpers
+// ============================================
+
+function recordLocale(data: SyncedRecord): string | undefined {
+  const locale = data.publish_details?.locale ?? data.locale;
+  return locale ? normalizeLocale(locale) : undefined;
+}
+
+function entryKey(contentType: string, uid: string, locale: string): string {
+  return `${contentType}:${uid}:${locale}`;
+}
+
+function isReference(value: unknown): value is EntryReference {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'uid' in value &&
+    '_content_type_uid' in value
+  );
+}
+
+// ============================================
+// Content Store
+// ============================================
+
+export class ContentStore implements ContentSource {
+  private client: ContentstackClient;
+  private persist: CacheStore;
+  private entries = new Map<string, StoredEntry>();
+  private assets = new Map<string, Asset>();
+  private listeners = new Set<() => void>();
+  private syncing: Promise<void> | null = null;
+  private hydrated: Promise<void>;
+  syncToken: string | null = null;
+
+  constructor(client: ContentstackClient, options: ContentStoreOptions = {}) {
+    this.client = client;
+    this.persist = options.persist ?? new MemoryCacheStore();
+    this.hydrated = this.hydrate();
+  }
+
+  /**
+   * Whether the store has synced at least once and can answer reads.
+   * Until then, reads go to the network through the client.
+   */
+  get synced(): boolean {
+    return this.syncToken !== null;
+  }
+
+  /**
+   * Reads are answered locally once synced, except during a Live
+   * Preview session, whose drafts only the preview host has
+   */
+  private get readsLocally(): boolean {
+    return this.synced && !this.client.livePreview?.active;
+  }
+
+  /**
+   * Get notified whenever a sync changed the store
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // ============================================
+  // Syncing
+  // ============================================
+
+  /**
+   * Bring the store up to date: an initial sync the first time, a delta
+   * sync from the saved token after that. Concurrent calls share one sync.
+   */
+  sync(): Promise<void> {
+    if (!this.syncing) {
+      this.syncing = this.runSync().finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  private async runSync(): Promise<void> {
+    await this.hydrated;
+    const previousToken = this.syncToken;
+
+    let result;
+    try {
+      result = await this.client.sync({
+        syncToken: previousToken ?? undefined,
+      });
+    } catch (error) {
+      // An expired sync token is rejected; start over with a full sync
+      if (!previousToken || !isContentstackError(error)) throw error;
+      if (error.kind !== 'not_found' && error.kind !== 'invalid_response') {
+        throw error;
+      }
+      console.warn('⚠️ Sync token rejected, running an initial sync');
+      result = await this.client.sync();
+      this.entries.clear();
+      this.assets.clear();
+    }
+
+    this.apply(result.items);
+    this.syncToken = result.syncToken;
+    await this.save();
+
+    if (result.items.length > 0 || !previousToken) {
+      this.listeners.forEach((listener) => listener());
+    }
+  }
+
+  /**
+   * Apply sync items in order: publishes upsert, unpublishes and
+   * deletes remove the record in that locale (or every locale)
+   */
+  apply(items: SyncItem[]): void {
+    for (const { type, content_type_uid, data } of items) {
+      const locale = recordLocale(data);
+
+      switch (type) {
+        case 'entry_published': {
+          if (!content_type_uid) break;
+          const entryLocale = locale ?? MASTER_LOCALE;
+          this.entries.set(entryKey(content_type_uid, data.uid, entryLocale), {
+            contentType: content_type_uid,
+            locale: entryLocale,
+            data,
+          });
+          break;
+        }
+        case 'entry_unpublished':
+        case 'entry_deleted':
+          this.removeEntries(
+            (entry) =>
+              entry.data.uid === data.uid &&
+              (!locale || entry.locale === locale)
+          );
+          break;
+        case 'asset_published':
+          this.assets.set(data.uid, data as Asset);
+          break;
+        case 'asset_unpublished':
+        case 'asset_deleted':
+          this.assets.delete(data.uid);
+          break;
+        case 'content_type_deleted':
+          this.removeEntries((entry) => entry.contentType === data.uid);
+          break;
+      }
+    }
+  }
+
+  private removeEntries(match: (entry: StoredEntry) => boolean): void {
+    for (const [key, entry] of this.entries) {
+      if (match(entry)) this.entries.delete(key);
+    }
+  }
+
+  /**
+   * Forget everything synced, including the sync token
+   */
+  async clear(): Promise<void> {
+    await this.hydrated;
+    this.entries.clear();
+    this.assets.clear();
+    this.syncToken = null;
+    await this.persist.delete(SNAPSHOT_KEY);
+    this.listeners.forEach((listener) => listener());
+  }
+
+  // ============================================
+  // Persistence
+  // ============================================
+
+  private async hydrate(): Promise<void> {
+    try {
+      const record = await this.persist.get(SNAPSHOT_KEY);
+      if (!record) return;
+
+      const snapshot = record.value as StoreSnapshot;
+      for (const entry of snapshot.entries) {
+        this.entries.set(
+          entryKey(entry.contentType, entry.data.uid, entry.locale),
+          entry
+        );
+      }
+      for (const asset of snapshot.assets) this.assets.set(asset.uid, asset);
+      this.syncToken = snapshot.syncToken;
+    } catch (error) {
+      console.warn('⚠️ Could not restore synced content:', error);
+    }
+  }
+
+  private async save(): Promise<void> {
+    const snapshot: StoreSnapshot = {
+      entries: [...this.entries.values()],
+      assets: [...this.assets.values()],
+      syncToken: this.syncToken,
+    };
+
+    try {
+      await this.persist.set(SNAPSHOT_KEY, {
+        value: snapshot,
+        storedAt: Date.now(),
+      });
+    } catch (error) {
+      console.warn('⚠️ Could not persist synced content:', error);
+    }
+  }
+
+  // ============================================
+  // Reading
+  // ============================================
+
+  async getEntries<T>(
+    contentType: string,
+    options: FetchOptions = {}
+  ): Promise<T[]> {
+    await this.hydrated;
+    if (!this.readsLocally) {
+      return this.client.getEntries<T>(contentType, options);
+    }
+
+    const locales = this.localesFor(options);
+    const uids = new Set<string>();
+    for (const entry of this.entries.values()) {
+      if (entry.contentType === contentType) uids.add(entry.data.uid);
+    }
+
+    // Newest first, like the Delivery API
+    const entries = [...uids]
+      .map((uid) => this.lookup(contentType, uid, locales))
+      .filter((entry): entry is SyncedRecord => entry !== null)
+      .sort((a, b) =>
+        String(b.created_at ?? '').localeCompare(String(a.created_at ?? ''))
+      )
+      .map((entry) => this.withReferences(contentType, entry, options) as T);
+    return this.client.validateEntries(contentType, entries, options);
+  }
+
+  async getEntriesPage<T>(
+    contentType: string,
+    options: PageOptions & FetchOptions = {}
+  ): Promise<EntriesPage<T>> {
+    await this.hydrated;
+    if (!this.readsLocally) {
+      return this.client.getEntriesPage<T>(contentType, options);
+    }
+
+    const entries = await this.getEntries<T>(contentType, options);
+    const skip = Math.max(0, options.skip ?? 0);
+    const limit = Math.max(1, options.limit ?? entries.length);
+
+    return {
+      entries: entries.slice(skip, skip + limit),
+      count: entries.length,
+      skip,
+      limit,
+    };
+  }
+
+  async getEntryByUid<T>(
+    contentType: string,
+    uid: string,
+    options: FetchOptions = {}
+  ): Promise<T> {
+    await this.hydrated;
+    if (!this.readsLocally) {
+      return this.client.getEntryByUid<T>(contentType, uid, options);
+    }
+
+    const entry = this.lookup(contentType, uid, this.localesFor(options));
+    if (!entry) {
+      throw new NotFoundError(`No ${contentType} entry with UID ${uid}`);
+    }
+    return this.client.validateEntry(
+      contentType,
+      this.withReferences(contentType, entry, options) as T,
+      options
+    );
+  }
+
+  async getEntryByUrl<T>(
+    contentType: string,
+    url: string,
+    options: FetchOptions = {}
+  ): Promise<T | null> {
+    await this.hydrated;
+    if (!this.readsLocally) {
+      return this.client.getEntryByUrl<T>(contentType, url, options);
+    }
+
+    const field = urlField(contentType);
+    const entries = await this.getEntries<Record<string, unknown>>(
+      contentType,
+      options
+    );
+    return (entries.find((entry) => entry[field] === url) as T) ?? null;
+  }
+
+  getAsset(uid: string): Asset | null {
+    return this.assets.get(uid) ?? null;
+  }
+
+  getAssets(): Asset[] {
+    return [...this.assets.values()];
+  }
+
+  /**
+   * The locales to try for a read, most specific first
+   */
+  private localesFor(options: FetchOptions): string[] {
+    const locale = normalizeLocale(options.locale ?? MASTER_LOCALE);
+    return options.includeFallback === false
+      ? [locale]
+      : getFallbackChain(locale);
+  }
+
+  private lookup(
+    contentType: string,
+    uid: string,
+    locales: string[]
+  ): SyncedRecord | null {
+    for (const locale of locales) {
+      const entry = this.entries.get(entryKey(contentType, uid, locale));
+      if (entry) return entry.data;
+    }
+    return null;
+  }
+
+  /**
+   * Resolve the requested reference fields from the store, the way
+   * `include[]` does on the Delivery API
+   */
+  private withReferences(
+    contentType: string,
+    entry: SyncedRecord,
+    options: FetchOptions
+  ): SyncedRecord {
+    const paths = resolveIncludePaths(contentType, options.include);
+    const locales = this.localesFor(options);
+    const resolved = this.resolvePaths(entry, paths, locales);
+    return options.includeEmbeddedItems
+      ? this.withEmbeddedItems(resolved, locales)
+      : resolved;
+  }
+
+  /**
+   * Collect the entries and assets embedded in JSON RTE fields, the
+   * way `include_embedded_items[]` does on the Delivery API
+   */
+  private withEmbeddedItems(
+    entry: SyncedRecord,
+    locales: string[]
+  ): SyncedRecord {
+    const embedded: Record<string, EmbeddedItem[]> = {};
+
+    for (const [field, value] of Object.entries(entry)) {
+      if (!isJsonRteDocument(value)) continue;
+
+      embedded[field] = referenceNodes(value)
+        .map((node) => this.embeddedItem(node, locales))
+        .filter((item): item is EmbeddedItem => item !== null);
+    }
+    return { ...entry, _embedded_items: embedded };
+  }
+
+  private embeddedItem(
+    node: JsonRteElement,
+    locales: string[]
+  ): EmbeddedItem | null {
+    if (referenceKind(node) === 'asset') {
+      const asset = this.assets.get(attr(node, 'asset-uid') ?? '');
+      return asset ? { ...asset, _content_type_uid: 'sys_assets' } : null;
+    }
+
+    const contentType = attr(node, 'content-type-uid') ?? '';
+    const target = this.lookup(
+      contentType,
+      attr(node, 'entry-uid') ?? '',
+      locales
+    );
+    return target ? { ...target, _content_type_uid: contentType } : null;
+  }
+
+  private resolvePaths(
+    entry: SyncedRecord,
+    paths: string[],
+    locales: string[]
+  ): SyncedRecord {
+    if (paths.length === 0) return entry;
+
+    const resolved: SyncedRecord = { ...entry };
+    for (const [field, nested] of groupPaths(paths)) {
+      const refs = entry[field];
+      if (!Array.isArray(refs)) continue;
+
+      resolved[field] = refs.map((ref) => {
+        if (!isReference(ref)) return ref;
+        const target = this.lookup(ref._content_type_uid, ref.uid, locales);
+        if (!target) return ref;
+        return {
+          ...this.resolvePaths(target, nested, locales),
+          _content_type_uid: ref._content_type_uid,
+        };
+      });
+    }
+    return resolved;
+  }
+}
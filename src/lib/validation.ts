@@ -0,0 +1,289 @@
+/**
+ * Runtime Entry Validation
+ *
+ * Checks delivered entries against the field specs generated from the
+ * content type schemas, so that a missing `price` or `cta_link` is
+ * caught before it renders as `undefined`.
+ */
+import { InvalidResponseError } from './errors';
+import { entrySchemas } from './entrySchemas.generated';
+
+// ============================================
+// Types
+// ============================================
+
+interface BaseFieldSpec {
+  required?: boolean;
+  multiple?: boolean;
+}
+
+export type FieldSpec = BaseFieldSpec &
+  (
+    | {
+        type:
+          | 'string'
+          | 'number'
+          | 'boolean'
+          | 'date'
+          | 'file'
+          | 'link'
+          | 'json'
+          | 'json_rte'
+          | 'reference'
+          | 'taxonomy';
+      }
+    | { type: 'enum'; values: (string | number)[] }
+    | { type: 'group'; fields: EntrySchema }
+    | { type: 'blocks'; blocks: Record<string, EntrySchema> }
+  );
+
+export type EntrySchema = Record<string, FieldSpec>;
+
+/**
+ * What to do with entries that fail validation: `warn` drops them from
+ * lists with a warning, `strict` fails the request
+ */
+export type ValidationMode = 'off' | 'warn' | 'strict';
+
+export interface ValidationIssue {
+  /** Field path, e.g. `specifications[1].label` */
+  path: string;
+  message: string;
+}
+
+export interface ValidationFailure {
+  contentType: string;
+  uid: string;
+  issues: ValidationIssue[];
+}
+
+// ============================================
+// Errors
+// ============================================
+
+/**
+ * Thrown in `strict` mode, and for a single entry that fails in any mode
+ */
+export class InvalidEntryError extends InvalidResponseError {
+  readonly failures: ValidationFailure[];
+
+  constructor(failures: ValidationFailure[]) {
+    const [first] = failures;
+    super(
+      `${failures.length} invalid ${first?.contentType ?? ''} entries: ${formatFailure(first)}`
+    );
+    this.failures = failures;
+  }
+}
+
+// ============================================
+// Field Checks
+// ============================================
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+function checkValue(
+  spec: FieldSpec,
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[]
+): void {
+  const fail = (message: string) => issues.push({ path, message });
+
+  switch (spec.type) {
+    case 'string':
+      if (typeof value !== 'string') fail('should be a string');
+      break;
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        fail('should be a number');
+      }
+      break;
+    case 'boolean':
+      if (typeof value !== 'boolean') fail('should be a boolean');
+      break;
+    case 'date':
+      if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+        fail('should be an ISO date');
+      }
+      break;
+    case 'file':
+      if (!isObject(value) || typeof value.url !== 'string') {
+        fail('should be an asset with a url');
+      }
+      break;
+    case 'link':
+      if (!isObject(value) || typeof value.href !== 'string') {
+        fail('should be a link with an href');
+      }
+      break;
+    case 'json':
+      if (!isObject(value)) fail('should be an object');
+      break;
+    case 'json_rte':
+      if (
+        !isObject(value) ||
+        value.type !== 'doc' ||
+        !Array.isArray(value.children)
+      ) {
+        fail('should be a JSON RTE document');
+      }
+      break;
+    case 'reference':
+    case 'taxonomy':
+      if (!Array.isArray(value) || !value.every(isObject)) {
+        fail(
+          spec.type === 'reference'
+            ? 'should be a list of references'
+            : 'should be a list of terms'
+        );
+      }
+      break;
+    case 'enum':
+      if (!spec.values.includes(value as string | number)) {
+        fail(`should be one of ${spec.values.join(', ')}`);
+      }
+      break;
+    case 'group':
+      if (isObject(value)) {
+        checkFields(spec.fields, value, `${path}.`, issues);
+      } else {
+        fail('should be a group');
+      }
+      break;
+    case 'blocks':
+      if (!Array.isArray(value)) {
+        fail('should be a list of blocks');
+        break;
+      }
+      value.forEach((block, index) => {
+        const blockPath = `${path}[${index}]`;
+        const [uid] = isObject(block) ? Object.keys(block) : [];
+
+        if (!uid || !isObject(block) || !isObject(block[uid])) {
+          issues.push({ path: blockPath, message: 'should be a block' });
+          return;
+        }
+        // Blocks added to the stack after codegen are left to the renderer
+        const fields = spec.blocks[uid];
+        if (fields) {
+          checkFields(fields, block[uid], `${blockPath}.${uid}.`, issues);
+        }
+      });
+      break;
+  }
+}
+
+function checkField(
+  spec: FieldSpec,
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[]
+): void {
+  if (isMissing(value)) {
+    if (spec.required) issues.push({ path, message: 'is required' });
+    return;
+  }
+
+  // Modular blocks are always a list; other fields only when multiple
+  if (!spec.multiple || spec.type === 'blocks') {
+    checkValue(spec, value, path, issues);
+    return;
+  }
+
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: 'should be a list' });
+    return;
+  }
+  value.forEach((item, index) =>
+    checkValue(spec, item, `${path}[${index}]`, issues)
+  );
+}
+
+function checkFields(
+  schema: EntrySchema,
+  value: Record<string, unknown>,
+  prefix: string,
+  issues: ValidationIssue[]
+): void {
+  for (const [field, spec] of Object.entries(schema)) {
+    checkField(spec, value[field], `${prefix}${field}`, issues);
+  }
+}
+
+// ============================================
+// Validation
+// ============================================
+
+/**
+ * Check an entry against its content type's fields. Content types
+ * without a schema always pass.
+ */
+export function validateEntry(
+  contentType: string,
+  entry: unknown
+): ValidationIssue[] {
+  const schema = (entrySchemas as Record<string, EntrySchema>)[contentType];
+  if (!schema) return [];
+
+  if (!isObject(entry)) return [{ path: '', message: 'should be an entry' }];
+
+  const issues: ValidationIssue[] = [];
+  if (typeof entry.uid !== 'string') {
+    issues.push({ path: 'uid', message: 'is required' });
+  }
+  checkFields(schema, entry, '', issues);
+  return issues;
+}
+
+function formatFailure(failure?: ValidationFailure): string {
+  if (!failure) return '';
+  const issues = failure.issues
+    .map((issue) => `${issue.path} ${issue.message}`)
+    .join('; ');
+  return `${failure.contentType}/${failure.uid}: ${issues}`;
+}
+
+// ============================================
+// Report
+// ============================================
+
+/**
+ * Collects every entry that failed validation, latest result per entry
+ */
+export class ValidationReport {
+  private failures = new Map<string, ValidationFailure>();
+
+  record(failure: ValidationFailure): void {
+    this.failures.set(`${failure.contentType}:${failure.uid}`, failure);
+  }
+
+  /**
+   * Forget an entry that has since passed validation
+   */
+  pass(contentType: string, uid: string): void {
+    this.failures.delete(`${contentType}:${uid}`);
+  }
+
+  list(): ValidationFailure[] {
+    return [...this.failures.values()];
+  }
+
+  clear(): void {
+    this.failures.clear();
+  }
+
+  /**
+   * One line per failing entry, ready to print
+   */
+  format(): string {
+    if (this.failures.size === 0) return 'All validated entries passed';
+    return this.list().map(formatFailure).join('\n');
+  }
+}
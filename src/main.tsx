@@ -2,9 +2,66 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { LocaleProvider } from './components/LocaleProvider.tsx'
+import { ContentstackProvider } from './components/ContentstackProvider.tsx'
+import { ContentStoreProvider } from './components/ContentStoreProvider.tsx'
+import {
+  ContentstackClient,
+  configFromEnv,
+  fixturesEnabled,
+  type ContentstackEnv,
+} from './lib/contentstack.ts'
+import { IndexedDBCacheStore } from './lib/cache.ts'
+import { ContentStore } from './lib/sync.ts'
+import { loadFixtures } from './fixtures/index.ts'
+
+// Named one by one so Vite inlines only these, not every VITE_ variable
+const env: ContentstackEnv = {
+  VITE_CONTENTSTACK_API_KEY: import.meta.env.VITE_CONTENTSTACK_API_KEY,
+  VITE_CONTENTSTACK_DELIVERY_TOKEN:
+    import.meta.env.VITE_CONTENTSTACK_DELIVERY_TOKEN,
+  VITE_CONTENTSTACK_ENVIRONMENT: import.meta.env.VITE_CONTENTSTACK_ENVIRONMENT,
+  VITE_CONTENTSTACK_HOST: import.meta.env.VITE_CONTENTSTACK_HOST,
+  VITE_CONTENTSTACK_GRAPHQL_HOST:
+    import.meta.env.VITE_CONTENTSTACK_GRAPHQL_HOST,
+  VITE_CONTENTSTACK_LIVE_PREVIEW:
+    import.meta.env.VITE_CONTENTSTACK_LIVE_PREVIEW,
+  VITE_CONTENTSTACK_PREVIEW_TOKEN:
+    import.meta.env.VITE_CONTENTSTACK_PREVIEW_TOKEN,
+  VITE_CONTENTSTACK_PREVIEW_HOST:
+    import.meta.env.VITE_CONTENTSTACK_PREVIEW_HOST,
+  VITE_CONTENTSTACK_FIXTURES: import.meta.env.VITE_CONTENTSTACK_FIXTURES,
+  DEV: import.meta.env.DEV,
+}
+
+// Without a stack to read from in development, run on the bundled fixtures
+const offline = fixturesEnabled(env)
+
+const client = new ContentstackClient({
+  ...configFromEnv(env),
+  fixtures: offline ? loadFixtures : undefined,
+  cache: {
+    store: new IndexedDBCacheStore(),
+    ttlByContentType: { hero_banner: 5 * 60_000 },
+  },
+  // Fail loudly on malformed entries in development, skip them in production
+  validation: import.meta.env.DEV ? 'strict' : 'warn',
+})
+
+// Synced copy of the stack so content keeps working offline
+const store = new ContentStore(client, {
+  // Fixtures must not linger once a real stack is configured
+  persist: offline ? undefined : new IndexedDBCacheStore('contentstack-sync'),
+})
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    <ContentstackProvider client={client}>
+      <ContentStoreProvider store={store} syncInterval={5 * 60_000}>
+        <LocaleProvider>
+          <App />
+        </LocaleProvider>
+      </ContentStoreProvider>
+    </ContentstackProvider>
   </StrictMode>,
 )
@@ -4,8 +4,13 @@ interface ImportMetaEnv {
   readonly VITE_CONTENTSTACK_API_KEY: string;
   readonly VITE_CONTENTSTACK_DELIVERY_TOKEN: string;
   readonly VITE_CONTENTSTACK_ENVIRONMENT: string;
+  readonly VITE_CONTENTSTACK_HOST?: string;
+  readonly VITE_CONTENTSTACK_GRAPHQL_HOST?: string;
+  readonly VITE_CONTENTSTACK_LIVE_PREVIEW?: string;
+  readonly VITE_CONTENTSTACK_PREVIEW_TOKEN?: string;
+  readonly VITE_CONTENTSTACK_PREVIEW_HOST?: string;
+  readonly VITE_CONTENTSTACK_FIXTURES?: string;
   readonly VITE_PERSONALIZE_PROJECT_UID: string;
-  readonly VITE_CONTENTSTACK_MANAGEMENT_TOKEN?: string;
 }
 
 interface ImportMeta {
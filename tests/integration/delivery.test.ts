@@ -0,0 +1,347 @@
+/**
+ * Delivery Client Integration Tests
+ *
+ * Runs the client's reads against the mock Delivery API over HTTP,
+ * including its error mapping, retries and timeouts.
+ */
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { query } from '../../src/lib/query';
+import type {
+  Author,
+  BlogPost,
+  Product,
+} from '../../src/lib/contentTypes.generated';
+import { startMockDeliveryServer } from '../../scripts/lib/mockDelivery';
+import {
+  API_KEY,
+  DELIVERY_TOKEN,
+  ENVIRONMENT,
+  createClient,
+  setupMockServer,
+} from './mockServer';
+
+const context = setupMockServer();
+
+const HEADPHONES = 'blt34355b4fed126ad3';
+const HOODIE = 'bltd9c3d48413eabe6d';
+const HANDBOOK = 'blted8e27f2c50eeb63';
+const GETTING_STARTED = 'blt8c140a3c13386262';
+
+describe('getEntries', () => {
+  test('returns every entry, newest first', async () => {
+    const client = createClient(context.server);
+    const products = await client.getEntries<Product>('product');
+
+    assert.deepEqual(
+      products.map((product) => product.title),
+      [
+        'Leather Cable Organizer',
+        'Composable Architecture Handbook',
+        'Ceramic Pour-Over Set',
+        'Merino Hoodie',
+        'Studio Headphones',
+      ]
+    );
+
+    const [request] = context.server.requests;
+    assert.equal(request.path, '/content_types/product/entries');
+    assert.equal(request.query.get('environment'), ENVIRONMENT);
+  });
+
+  test('reads a locale, falling back for entries not localized', async () => {
+    const client = createClient(context.server);
+    const posts = await client.getEntries<BlogPost>('blog_post', {
+      locale: 'fr-fr',
+    });
+
+    const titles = posts.map((post) => post.title);
+    assert.equal(titles.length, 3);
+    assert.ok(titles.includes('Bien démarrer avec un CMS headless'));
+    assert.ok(titles.includes('Shipping Faster with Edge Delivery'));
+  });
+
+  test('pages through entries', async () => {
+    const client = createClient(context.server);
+    const page = await client.getEntriesPage<Product>('product', {
+      skip: 2,
+      limit: 2,
+    });
+
+    assert.equal(page.count, 5);
+    assert.deepEqual(
+      page.entries.map((product) => product.title),
+      ['Ceramic Pour-Over Set', 'Merino Hoodie']
+    );
+  });
+});
+
+describe('getEntryByUid', () => {
+  test('returns the entry with its references resolved', async () => {
+    const client = createClient(context.server);
+    const post = await client.getEntryByUid<BlogPost>(
+      'blog_post',
+      GETTING_STARTED,
+      { include: ['author'] }
+    );
+
+    assert.equal(post.title, 'Getting Started with a Headless CMS');
+    assert.equal((post.author?.[0] as Author).title, 'Maya Chen');
+  });
+
+  test('batches lookups made together into one query', async () => {
+    const client = createClient(context.server);
+    const products = await Promise.all(
+      [HEADPHONES, HOODIE, HANDBOOK].map((uid) =>
+        client.getEntryByUid<Product>('product', uid)
+      )
+    );
+
+    assert.deepEqual(
+      products.map((product) => product.uid),
+      [HEADPHONES, HOODIE, HANDBOOK]
+    );
+    assert.equal(context.server.requests.length, 1);
+    assert.match(
+      context.server.requests[0].query.get('query') ?? '',
+      /\$in/
+    );
+  });
+
+  test('throws a not found error for an unknown UID', async () => {
+    const client = createClient(context.server, { batch: false });
+
+    await assert.rejects(client.getEntryByUid('product', 'blt_missing'), {
+      kind: 'not_found',
+      status: 422,
+    });
+  });
+});
+
+describe('request sharing', () => {
+  test('shares one request between callers with signals', async () => {
+    const client = createClient(context.server);
+    const [first, second] = await Promise.all([
+      client.getEntries('product', { signal: new AbortController().signal }),
+      client.getEntries('product', { signal: new AbortController().signal }),
+    ]);
+
+    assert.equal(first.length, 5);
+    assert.equal(second.length, 5);
+    assert.equal(context.server.requests.length, 1);
+  });
+
+  test('keeps the request going while any caller still waits', async () => {
+    context.server.setLatency(50);
+    const client = createClient(context.server);
+    const leaving = new AbortController();
+
+    const left = client.getEntries('product', { signal: leaving.signal });
+    const staying = client.getEntries('product', {
+      signal: new AbortController().signal,
+    });
+    leaving.abort();
+
+    await assert.rejects(left, { name: 'AbortError' });
+    assert.equal((await staying).length, 5);
+    assert.equal(context.server.requests.length, 1);
+  });
+});
+
+describe('queryEntries', () => {
+  test('sends the query and returns the matching entries', async () => {
+    const client = createClient(context.server);
+    const products = await client.queryEntries(
+      query<Product>('product')
+        .greaterThan('price', 100)
+        .where('in_stock', true)
+        .ascending('price')
+    );
+
+    assert.deepEqual(
+      products.map((product) => product.title),
+      ['Merino Hoodie', 'Studio Headphones']
+    );
+    assert.deepEqual(
+      JSON.parse(context.server.requests[0].query.get('query') ?? '{}'),
+      { $and: [{ price: { $gt: 100 } }, { in_stock: true }] }
+    );
+  });
+
+  test('combines conditions with or', async () => {
+    const client = createClient(context.server);
+    const products = await client.queryEntries(
+      query<Product>('product')
+        .or(
+          (books) => books.where('category', 'Books'),
+          (cheap) => cheap.lessThan('price', 36)
+        )
+        .ascending('price')
+    );
+
+    assert.deepEqual(
+      products.map((product) => product.title),
+      ['Leather Cable Organizer', 'Composable Architecture Handbook']
+    );
+  });
+
+  test('reads every page when the query sets no limit', async () => {
+    const entries = Array.from({ length: 150 }, (_, index) => ({
+      uid: `blt_note_${index}`,
+      title: `Note ${index}`,
+    }));
+    const server = await startMockDeliveryServer({
+      apiKey: API_KEY,
+      deliveryToken: DELIVERY_TOKEN,
+      fixtures: { note: { entries } },
+    });
+
+    try {
+      const client = createClient(server);
+      const notes = await client.queryEntries(query<{ uid: string }>('note'));
+
+      assert.equal(notes.length, 150);
+      assert.equal(new Set(notes.map((note) => note.uid)).size, 150);
+      assert.deepEqual(
+        server.requests.map((request) => request.query.get('skip')),
+        ['0', '100']
+      );
+    } finally {
+      await server.close();
+    }
+  });
+
+  test('leaves a reused query unchanged', async () => {
+    const client = createClient(context.server);
+    const posts = query<BlogPost>('blog_post');
+
+    await client.findEntry(posts, { locale: 'fr-fr', include: ['author'] });
+    const all = await client.queryEntries(posts);
+
+    assert.equal(all.length, 3);
+    const params = context.server.requests[1].query;
+    assert.equal(params.get('locale'), null);
+    assert.equal(params.get('include[]'), null);
+    assert.equal(params.get('limit'), '100');
+  });
+
+  test('rejects an unknown content type', async () => {
+    const client = createClient(context.server);
+
+    await assert.rejects(client.queryEntries(query('missing_type')), {
+      kind: 'not_found',
+    });
+  });
+});
+
+describe('authentication', () => {
+  test('rejects a wrong delivery token without retrying', async () => {
+    const client = createClient(context.server, {
+      deliveryToken: 'wrong_token',
+    });
+
+    await assert.rejects(client.getEntries('product'), {
+      kind: 'unauthorized',
+      status: 401,
+    });
+    assert.equal(context.server.requests.length, 1);
+  });
+
+  test('rejects a wrong API key', async () => {
+    const client = createClient(context.server, { apiKey: `${API_KEY}_x` });
+
+    await assert.rejects(client.getEntries('product'), {
+      kind: 'unauthorized',
+      status: 412,
+    });
+  });
+});
+
+describe('injected failures', () => {
+  test('maps an injected 401 to an unauthorized error', async () => {
+    context.server.fail({ status: 401 });
+    const client = createClient(context.server);
+
+    await assert.rejects(client.getEntries('product'), {
+      kind: 'unauthorized',
+    });
+  });
+
+  test('maps an injected 404 to a not found error', async () => {
+    context.server.fail({ status: 404, path: '/entries/' });
+    const client = createClient(context.server, { batch: false });
+
+    await assert.rejects(client.getEntryByUid('product', HEADPHONES), {
+      kind: 'not_found',
+      status: 404,
+    });
+  });
+
+  test('retries a 429 after the Retry-After delay', async () => {
+    context.server.fail({ status: 429, retryAfter: 0 });
+    const client = createClient(context.server);
+
+    const products = await client.getEntries('product');
+    assert.equal(products.length, 5);
+    assert.equal(context.server.requests.length, 2);
+  });
+
+  test('reports how long a rate limit asks to wait', async () => {
+    context.server.fail({ status: 429, retryAfter: 2 });
+    const client = createClient(context.server, { retry: false });
+
+    await assert.rejects(client.getEntries('product'), {
+      kind: 'rate_limited',
+      retryAfter: 2000,
+    });
+  });
+
+  test('fails when Retry-After is longer than the maximum delay', async () => {
+    context.server.fail({ status: 429, retryAfter: 60 });
+    const client = createClient(context.server);
+
+    await assert.rejects(client.getEntries('product'), {
+      kind: 'rate_limited',
+      retryAfter: 60_000,
+    });
+    assert.equal(context.server.requests.length, 1);
+  });
+
+  test('retries 5xx responses until one succeeds', async () => {
+    context.server.fail({ status: 503, times: 2 });
+    const client = createClient(context.server);
+
+    const products = await client.getEntries('product');
+    assert.equal(products.length, 5);
+    assert.equal(context.server.requests.length, 3);
+  });
+
+  test('gives up on a 5xx after the last retry', async () => {
+    context.server.fail({ status: 500, times: 3 });
+    const client = createClient(context.server);
+
+    await assert.rejects(client.getEntries('product'), {
+      kind: 'network',
+      status: 500,
+    });
+    assert.equal(context.server.requests.length, 3);
+  });
+
+  test('waits for a slow response within the timeout', async () => {
+    context.server.setLatency(50);
+    const client = createClient(context.server, { timeout: 2000 });
+
+    const products = await client.getEntries('product');
+    assert.equal(products.length, 5);
+  });
+
+  test('times out a response slower than the timeout', async () => {
+    context.server.setLatency(500);
+    const client = createClient(context.server, {
+      timeout: 50,
+      retry: false,
+    });
+
+    await assert.rejects(client.getEntries('product'), { kind: 'network' });
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Integration Test Setup
+ *
+ * Starts the mock Delivery API with the app's fixtures and builds
+ * clients that read from it over HTTP.
+ */
+import { after, before, beforeEach, mock } from 'node:test';
+import {
+  ContentstackClient,
+  type ContentstackConfig,
+} from '../../src/lib/contentstack';
+import {
+  readFixtures,
+  startMockDeliveryServer,
+  type MockDeliveryServer,
+} from '../../scripts/lib/mockDelivery';
+
+export const API_KEY = 'test_api_key';
+export const DELIVERY_TOKEN = 'test_delivery_token';
+export const ENVIRONMENT = 'test';
+
+/**
+ * Run a mock server for the current test file. It is reset before
+ * each test, and the client's request logging is silenced.
+ */
+export function setupMockServer(): { server: MockDeliveryServer } {
+  const context = {} as { server: MockDeliveryServer };
+
+  before(async () => {
+    mock.method(console, 'log', () => {});
+    mock.method(console, 'warn', () => {});
+    mock.method(console, 'error', () => {});
+    context.server = await startMockDeliveryServer({
+      apiKey: API_KEY,
+      deliveryToken: DELIVERY_TOKEN,
+      fixtures: await readFixtures(),
+    });
+  });
+
+  beforeEach(() => context.server.reset());
+
+  after(async () => {
+    await context.server.close();
+    mock.restoreAll();
+  });
+
+  return context;
+}
+
+/**
+ * A client for the mock server, retrying without real backoff delays
+ */
+export function createClient(
+  server: MockDeliveryServer,
+  config: Partial<ContentstackConfig> = {}
+): ContentstackClient {
+  return new ContentstackClient({
+    apiKey: API_KEY,
+    deliveryToken: DELIVERY_TOKEN,
+    environment: ENVIRONMENT,
+    host: server.url,
+    retry: { retries: 2, baseDelay: 1, maxDelay: 5 },
+    ...config,
+  });
+}
@@ -0,0 +1,299 @@
+/**
+ * Content Hook Integration Tests
+ *
+ * Renders the content hooks in jsdom against the mock Delivery API,
+ * from the first loading render to data or an error.
+ */
+import 'global-jsdom/register';
+import assert from 'node:assert/strict';
+import { afterEach, describe, test } from 'node:test';
+import type { ReactNode } from 'react';
+import {
+  act,
+  cleanup,
+  renderHook,
+  waitFor,
+} from '@testing-library/react';
+import {
+  ContentstackProvider,
+} from '../../src/components/ContentstackProvider';
+import type { ContentstackClient } from '../../src/lib/contentstack';
+import { isContentstackError } from '../../src/lib/errors';
+import type { BlogPost, Product } from '../../src/lib/contentTypes.generated';
+import {
+  useEntries,
+  useEntry,
+  useInfiniteEntries,
+  useLazyContent,
+  usePaginatedEntries,
+} from '../../src/hooks/useContent';
+import { createClient, setupMockServer } from './mockServer';
+
+const context = setupMockServer();
+
+// node:test has no global afterEach for Testing Library to hook into
+afterEach(cleanup);
+
+function withClient(client: ContentstackClient) {
+  return ({ children }: { children: ReactNode }) => (
+    <ContentstackProvider client={client}>{children}</ContentstackProvider>
+  );
+}
+
+function errorKind(error: Error | null): string | null {
+  return isContentstackError(error) ? error.kind : null;
+}
+
+describe('useEntries', () => {
+  test('loads the entries of a content type', async () => {
+    const { result } = renderHook(() => useEntries<Product>('product'), {
+      wrapper: withClient(createClient(context.server)),
+    });
+
+    assert.equal(result.current.loading, true);
+    await waitFor(() => assert.equal(result.current.loading, false));
+    assert.equal(result.current.error, null);
+    assert.equal(result.current.data.length, 5);
+  });
+
+  test('passes fetch options to the request', async () => {
+    const { result } = renderHook(
+      () => useEntries<BlogPost>('blog_post', { locale: 'fr-fr' }),
+      { wrapper: withClient(createClient(context.server)) }
+    );
+
+    await waitFor(() => assert.equal(result.current.loading, false));
+    assert.ok(
+      result.current.data.some(
+        (post) => post.title === 'Bien démarrer avec un CMS headless'
+      )
+    );
+    assert.equal(context.server.requests[0].query.get('locale'), 'fr-fr');
+  });
+
+  test('reports an unauthorized client as an error', async () => {
+    const client = createClient(context.server, {
+      deliveryToken: 'wrong_token',
+    });
+    const { result } = renderHook(() => useEntries<Product>('product'), {
+      wrapper: withClient(client),
+    });
+
+    await waitFor(() => assert.equal(result.current.loading, false));
+    assert.deepEqual(result.current.data, []);
+    assert.equal(errorKind(result.current.error), 'unauthorized');
+  });
+
+  test('recovers from a server error on refetch', async () => {
+    context.server.fail({ status: 503 });
+    const client = createClient(context.server, { retry: false });
+    const { result } = renderHook(() => useEntries<Product>('product'), {
+      wrapper: withClient(client),
+    });
+
+    await waitFor(() => assert.notEqual(result.current.error, null));
+    assert.equal(errorKind(result.current.error), 'network');
+
+    await act(() => result.current.refetch());
+    assert.equal(result.current.error, null);
+    assert.equal(result.current.data.length, 5);
+  });
+
+  test('reports cache status to the caller', async () => {
+    const statuses: string[] = [];
+    const { result } = renderHook(
+      () =>
+        useEntries<Product>('product', {
+          onCacheStatus: (status) => statuses.push(status),
+        }),
+      { wrapper: withClient(createClient(context.server)) }
+    );
+
+    await waitFor(() => assert.equal(result.current.loading, false));
+    assert.deepEqual(statuses, ['miss']);
+  });
+
+  test("stops when the caller's signal aborts", async () => {
+    context.server.setLatency(100);
+    const controller = new AbortController();
+    const { result } = renderHook(
+      () => useEntries<Product>('product', { signal: controller.signal }),
+      { wrapper: withClient(createClient(context.server)) }
+    );
+
+    controller.abort();
+    await waitFor(() => assert.equal(result.current.loading, false));
+    assert.equal(result.current.error?.name, 'AbortError');
+    assert.deepEqual(result.current.data, []);
+  });
+
+  test('stays loading while the server is slow', async () => {
+    context.server.setLatency(100);
+    const { result } = renderHook(() => useEntries<Product>('product'), {
+      wrapper: withClient(createClient(context.server)),
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    assert.equal(result.current.loading, true);
+    await waitFor(() => assert.equal(result.current.data.length, 5));
+  });
+});
+
+describe('usePaginatedEntries', () => {
+  test('fetches the next page on demand', async () => {
+    const { result } = renderHook(
+      () => usePaginatedEntries<Product>('product', 2),
+      { wrapper: withClient(createClient(context.server)) }
+    );
+
+    await waitFor(() => assert.equal(result.current.loading, false));
+    assert.equal(result.current.total, 5);
+    assert.equal(result.current.pageCount, 3);
+
+    act(() => result.current.nextPage());
+    await waitFor(() => assert.equal(result.current.page, 1));
+    await waitFor(() => assert.equal(result.current.loading, false));
+    assert.deepEqual(
+      result.current.data.map((product) => product.title),
+      ['Ceramic Pour-Over Set', 'Merino Hoodie']
+    );
+  });
+
+  test('starts a new content type on its first page', async () => {
+    const { result, rerender } = renderHook(
+      ({ contentType }) => usePaginatedEntries<Product>(contentType, 2),
+      {
+        initialProps: { contentType: 'product' },
+        wrapper: withClient(createClient(context.server)),
+      }
+    );
+
+    await waitFor(() => assert.equal(result.current.loading, false));
+    act(() => result.current.nextPage());
+    await waitFor(() => assert.equal(result.current.page, 1));
+    await waitFor(() => assert.equal(result.current.loading, false));
+
+    rerender({ contentType: 'blog_post' });
+    assert.equal(result.current.page, 0);
+    assert.equal(result.current.loading, true);
+    await waitFor(() => assert.equal(result.current.loading, false));
+    assert.equal(context.server.requests.at(-1)?.query.get('skip'), '0');
+  });
+});
+
+describe('useInfiniteEntries', () => {
+  test('drops a page that arrives after the query changed', async () => {
+    const { result, rerender } = renderHook(
+      ({ contentType }) => useInfiniteEntries<Product>(contentType, 2),
+      {
+        initialProps: { contentType: 'product' },
+        wrapper: withClient(createClient(context.server)),
+      }
+    );
+
+    await waitFor(() => assert.equal(result.current.loading, false));
+    context.server.setLatency(100);
+    act(() => void result.current.loadMore());
+    context.server.setLatency(0);
+    rerender({ contentType: 'blog_post' });
+
+    await waitFor(() => assert.equal(result.current.loading, false));
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    assert.equal(result.current.data.length, 2);
+    assert.equal(result.current.loadingMore, false);
+  });
+});
+
+describe('useEntry', () => {
+  test('loads one entry by UID', async () => {
+    const { result } = renderHook(
+      () => useEntry<Product>('product', 'blt34355b4fed126ad3'),
+      { wrapper: withClient(createClient(context.server)) }
+    );
+
+    await waitFor(() => assert.equal(result.current.loading, false));
+    assert.equal(result.current.data?.title, 'Studio Headphones');
+  });
+
+  test('loads entries for hooks mounted together in one request', async () => {
+    const { result } = renderHook(
+      () => [
+        useEntry<Product>('product', 'blt34355b4fed126ad3'),
+        useEntry<Product>('product', 'bltd9c3d48413eabe6d'),
+        useEntry<Product>('product', 'blt34355b4fed126ad3'),
+      ],
+      { wrapper: withClient(createClient(context.server)) }
+    );
+
+    await waitFor(() =>
+      assert.ok(result.current.every((entry) => !entry.loading), 'loading')
+    );
+    assert.deepEqual(
+      result.current.map((entry) => entry.data?.title),
+      ['Studio Headphones', 'Merino Hoodie', 'Studio Headphones']
+    );
+    assert.equal(context.server.requests.length, 1);
+  });
+
+  test("reports cache status and stops on the caller's signal", async () => {
+    context.server.setLatency(100);
+    const statuses: string[] = [];
+    const controller = new AbortController();
+    const { result, rerender } = renderHook(
+      ({ uid }) =>
+        useEntry<Product>('product', uid, {
+          signal: controller.signal,
+          onCacheStatus: (status) => statuses.push(status),
+        }),
+      {
+        initialProps: { uid: 'blt34355b4fed126ad3' },
+        wrapper: withClient(createClient(context.server)),
+      }
+    );
+
+    await waitFor(() => assert.equal(result.current.loading, false));
+    assert.deepEqual(statuses, ['miss']);
+
+    rerender({ uid: 'bltd9c3d48413eabe6d' });
+    controller.abort();
+    await waitFor(() => assert.equal(result.current.loading, false));
+    assert.equal(result.current.error?.name, 'AbortError');
+  });
+
+  test('reports a missing entry as not found', async () => {
+    const { result } = renderHook(
+      () => useEntry<Product>('product', 'blt_missing'),
+      { wrapper: withClient(createClient(context.server)) }
+    );
+
+    await waitFor(() => assert.equal(result.current.loading, false));
+    assert.equal(result.current.data, null);
+    assert.equal(errorKind(result.current.error), 'not_found');
+  });
+});
+
+describe('useLazyContent', () => {
+  test('passes the signal and callbacks through to the client', async () => {
+    const statuses: string[] = [];
+    const controller = new AbortController();
+    const { result } = renderHook(
+      () =>
+        useLazyContent<Product>('product', {
+          signal: controller.signal,
+          onCacheStatus: (status) => statuses.push(status),
+        }),
+      { wrapper: withClient(createClient(context.server)) }
+    );
+
+    await act(() => result.current.fetchByUid('blt34355b4fed126ad3'));
+    assert.deepEqual(statuses, ['miss']);
+
+    controller.abort();
+    await assert.rejects(
+      async () => {
+        await act(() => result.current.fetchByUid('bltd9c3d48413eabe6d'));
+      },
+      { name: 'AbortError' }
+    );
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * GraphQL Translation Tests
+ *
+ * Checks that GraphQL entries come back in the shape REST returns, and
+ * that queries GraphQL cannot run fail like any other client error.
+ */
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { InvalidResponseError } from '../../src/lib/errors';
+import {
+  BlogPostsQuery,
+  toGraphQLOrder,
+  toGraphQLWhere,
+  toRestEntry,
+} from '../../src/lib/graphql';
+import type { BlogPost } from '../../src/lib/contentTypes.generated';
+
+const body = {
+  type: 'doc',
+  uid: 'doc',
+  children: [{ type: 'p', children: [{ text: 'Hello' }] }],
+};
+
+describe('toRestEntry', () => {
+  test('unwraps JSON RTE fields and keeps group fields', () => {
+    const post = toRestEntry<BlogPost>({
+      system: { uid: 'blt_post', content_type_uid: 'blog_post' },
+      title: 'Hello',
+      reading_time: 4,
+      body: { json: body },
+      seo: { meta_title: 'Hello', no_index: false },
+    });
+
+    assert.deepEqual(post.body, body);
+    assert.equal(post.reading_time, 4);
+    assert.deepEqual(post.seo, { meta_title: 'Hello', no_index: false });
+  });
+
+  test('selects the blog post fields REST returns', () => {
+    assert.match(BlogPostsQuery.document, /body \{ json \}/);
+    assert.match(BlogPostsQuery.document, /reading_time/);
+    assert.match(BlogPostsQuery.document, /seo \{/);
+  });
+});
+
+describe('query translation', () => {
+  test('rejects $regex with a ContentstackError', () => {
+    assert.throws(
+      () => toGraphQLWhere<BlogPost>({ title: { $regex: 'hello' } }),
+      InvalidResponseError
+    );
+  });
+
+  test('rejects sorting on a content field', () => {
+    assert.throws(
+      () => toGraphQLOrder({ field: 'price', direction: 'asc' }),
+      InvalidResponseError
+    );
+  });
+});
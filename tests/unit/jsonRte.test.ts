@@ -0,0 +1,87 @@
+/**
+ * JSON RTE Serializer Tests
+ *
+ * Checks that URLs from content only reach the HTML when they are safe
+ * to link to or embed.
+ */
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import type { JsonRteDocument, JsonRteElement } from '../../src/lib/fields';
+import { jsonRteToHtml } from '../../src/lib/jsonRte';
+
+function doc(...children: JsonRteElement[]): JsonRteDocument {
+  return { type: 'doc', children };
+}
+
+function link(url: string): JsonRteElement {
+  return {
+    type: 'p',
+    children: [{ type: 'a', attrs: { url }, children: [{ text: 'Link' }] }],
+  };
+}
+
+describe('jsonRteToHtml', () => {
+  test('drops a javascript: link but keeps its text', () => {
+    assert.equal(
+      jsonRteToHtml(doc(link('javascript:alert(1)'))),
+      '<p><a>Link</a></p>'
+    );
+  });
+
+  test('drops script URLs disguised with case and whitespace', () => {
+    for (const url of [' JavaScript:alert(1)', 'java\tscript:alert(1)']) {
+      assert.equal(jsonRteToHtml(doc(link(url))), '<p><a>Link</a></p>');
+    }
+  });
+
+  test('keeps http(s), mailto and relative links', () => {
+    for (const url of [
+      'https://example.com/a?b=1',
+      'mailto:team@example.com',
+      '/blog/post',
+      '#section',
+    ]) {
+      assert.equal(
+        jsonRteToHtml(doc(link(url))),
+        `<p><a href="${url}">Link</a></p>`
+      );
+    }
+  });
+
+  test('drops data: and javascript: embeds', () => {
+    const embed = (src: string): JsonRteElement => ({
+      type: 'embed',
+      attrs: { src },
+      children: [{ text: '' }],
+    });
+
+    assert.equal(
+      jsonRteToHtml(doc(embed('data:text/html,<script>alert(1)</script>'))),
+      '<iframe></iframe>'
+    );
+    assert.equal(
+      jsonRteToHtml(doc(embed('https://www.youtube.com/embed/x'))),
+      '<iframe src="https://www.youtube.com/embed/x"></iframe>'
+    );
+  });
+
+  test('drops an unsafe entry link href', () => {
+    const entryLink: JsonRteElement = {
+      type: 'p',
+      children: [
+        {
+          type: 'reference',
+          attrs: {
+            'display-type': 'link',
+            type: 'entry',
+            'entry-uid': 'blt1',
+            href: 'javascript:alert(1)',
+          },
+          children: [{ text: 'Entry' }],
+        },
+      ],
+    };
+
+    assert.equal(jsonRteToHtml(doc(entryLink)), '<p><a>Entry</a></p>');
+  });
+});